@@ -3,7 +3,25 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { JobsModule } from './jobs/jobs.module';
 import { SchedulerModule } from './scheduler/scheduler.module';
+import { JobRunsModule } from './job-runs/job-runs.module';
+import { WorkflowsModule } from './workflows/workflows.module';
+import { ArtifactsModule } from './artifacts/artifacts.module';
+import { SubscriptionsModule } from './subscriptions/subscriptions.module';
+import { EventStreamModule } from './event-stream/event-stream.module';
+import { MetricsModule } from './metrics/metrics.module';
+import { HealthModule } from './health/health.module';
+import { AuthModule } from './auth/auth.module';
+import { AuditModule } from './audit/audit.module';
 import { Job } from './jobs/entities/job.entity';
+import { JobRun } from './job-runs/entities/job-run.entity';
+import { Workflow } from './workflows/entities/workflow.entity';
+import { WorkflowRun } from './workflows/entities/workflow-run.entity';
+import { Artifact } from './artifacts/entities/artifact.entity';
+import { Subscription } from './subscriptions/entities/subscription.entity';
+import { SubscriptionDelivery } from './subscriptions/entities/subscription-delivery.entity';
+import { JobEventRecord } from './event-stream/entities/job-event-record.entity';
+import { ApiKey } from './auth/entities/api-key.entity';
+import { AuditEntry } from './audit/entities/audit-entry.entity';
 
 @Module({
   imports: [
@@ -20,7 +38,18 @@ import { Job } from './jobs/entities/job.entity';
         username: configService.get('DB_USERNAME', 'postgres'),
         password: configService.get('DB_PASSWORD', 'Patel@123'),
         database: configService.get('DB_DATABASE', 'scheduler_db'),
-        entities: [Job],
+        entities: [
+          Job,
+          JobRun,
+          Workflow,
+          WorkflowRun,
+          Artifact,
+          Subscription,
+          SubscriptionDelivery,
+          JobEventRecord,
+          ApiKey,
+          AuditEntry,
+        ],
         synchronize: configService.get('NODE_ENV') !== 'production',
         logging: configService.get('NODE_ENV') === 'development',
         extra: {
@@ -31,6 +60,15 @@ import { Job } from './jobs/entities/job.entity';
     }),
     JobsModule,
     SchedulerModule,
+    JobRunsModule,
+    WorkflowsModule,
+    ArtifactsModule,
+    SubscriptionsModule,
+    EventStreamModule,
+    MetricsModule,
+    HealthModule,
+    AuthModule,
+    AuditModule,
   ],
 })
 export class AppModule {}
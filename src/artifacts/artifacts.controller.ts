@@ -0,0 +1,90 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  ParseIntPipe,
+  DefaultValuePipe,
+  StreamableFile,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { ArtifactsService } from './artifacts.service';
+import { PaginatedArtifactsDto } from './dto/paginated-artifacts.dto';
+import { CurrentTenant, RequireScopes } from '../auth/auth.decorators';
+import { ApiScope } from '../auth/entities/api-key.entity';
+
+@ApiTags('artifacts')
+@RequireScopes(ApiScope.JOBS_READ)
+@Controller()
+export class ArtifactsController {
+  constructor(private readonly artifactsService: ArtifactsService) {}
+
+  @Get('jobs/:id/artifacts')
+  @ApiOperation({ summary: 'List artifacts produced by a job' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page (default: 50, max: 100)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of artifacts, latest version first',
+    type: PaginatedArtifactsDto,
+  })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async findAll(
+    @Param('id') id: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @CurrentTenant() tenantId: string,
+  ): Promise<PaginatedArtifactsDto> {
+    return this.artifactsService.findAll(
+      tenantId,
+      id,
+      page,
+      Math.min(limit, 100),
+    );
+  }
+
+  @Get('artifacts/:artifactId')
+  @ApiOperation({ summary: 'Download an artifact' })
+  @ApiParam({ name: 'artifactId', description: 'Artifact ID' })
+  @ApiProduces(
+    'text/csv',
+    'application/json',
+    'text/html',
+    'application/pdf',
+    'application/octet-stream',
+  )
+  @ApiResponse({ status: 200, description: 'Content of the artifact' })
+  @ApiResponse({ status: 404, description: 'Artifact not found' })
+  async download(
+    @Param('artifactId') artifactId: string,
+    @CurrentTenant() tenantId: string,
+  ): Promise<StreamableFile> {
+    const { artifact, content } = await this.artifactsService.open(
+      tenantId,
+      artifactId,
+    );
+    return new StreamableFile(content, {
+      type: artifact.contentType,
+      length: artifact.size,
+      disposition: `attachment; filename="${artifact.filename}"`,
+    });
+  }
+}
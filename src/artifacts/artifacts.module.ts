@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ArtifactsService } from './artifacts.service';
+import { ArtifactsController } from './artifacts.controller';
+import { Artifact } from './entities/artifact.entity';
+import { ARTIFACT_STORAGE, ArtifactStorage } from './storage/artifact-storage';
+import { LocalArtifactStorage } from './storage/local-artifact-storage';
+import { Job } from '../jobs/entities/job.entity';
+
+// Storage backends selectable with ARTIFACT_STORAGE
+const ARTIFACT_STORAGE_BACKENDS: Record<
+  string,
+  (configService: ConfigService) => ArtifactStorage
+> = {
+  local: (configService) => new LocalArtifactStorage(configService),
+};
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Artifact, Job])],
+  controllers: [ArtifactsController],
+  providers: [
+    ArtifactsService,
+    {
+      provide: ARTIFACT_STORAGE,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        const backend = configService.get('ARTIFACT_STORAGE', 'local');
+        if (!ARTIFACT_STORAGE_BACKENDS[backend]) {
+          throw new Error(
+            `Unknown ARTIFACT_STORAGE "${backend}". Available: ${Object.keys(ARTIFACT_STORAGE_BACKENDS).join(', ')}`,
+          );
+        }
+        return ARTIFACT_STORAGE_BACKENDS[backend](configService);
+      },
+    },
+  ],
+  exports: [ArtifactsService],
+})
+export class ArtifactsModule {}
@@ -0,0 +1,264 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { QueryFailedError, Repository } from 'typeorm';
+import { createHash, randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { Artifact } from './entities/artifact.entity';
+import { ARTIFACT_STORAGE, ArtifactStorage } from './storage/artifact-storage';
+import { Job } from '../jobs/entities/job.entity';
+
+// Postgres error raised by the (jobId, version) index
+const UNIQUE_VIOLATION = '23505';
+// Versions tried before giving up, when concurrent runs keep taking them
+const MAX_VERSION_ATTEMPTS = 5;
+
+export interface NewArtifact {
+  jobId: string;
+  jobRunId?: string;
+  filename: string; // Without the version, e.g. summary.csv
+  extension: string;
+  contentType: string;
+  data: Buffer;
+}
+
+@Injectable()
+export class ArtifactsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ArtifactsService.name);
+  private readonly retentionDays: number;
+  private readonly maxPerJob: number;
+  private readonly pruneInterval: number;
+  private pruneIntervalId: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(Artifact)
+    private readonly artifactRepository: Repository<Artifact>,
+    @InjectRepository(Job)
+    private readonly jobRepository: Repository<Job>,
+    @Inject(ARTIFACT_STORAGE)
+    private readonly storage: ArtifactStorage,
+    configService: ConfigService,
+  ) {
+    this.retentionDays = Number(
+      configService.get('ARTIFACT_RETENTION_DAYS', 30),
+    );
+    this.maxPerJob = Number(configService.get('ARTIFACT_MAX_PER_JOB', 10));
+    this.pruneInterval = Number(
+      configService.get('ARTIFACT_PRUNE_INTERVAL_MS', 3600000),
+    );
+  }
+
+  onModuleInit() {
+    this.pruneIntervalId = setInterval(() => {
+      this.prune();
+    }, this.pruneInterval);
+  }
+
+  onModuleDestroy() {
+    if (this.pruneIntervalId) {
+      clearInterval(this.pruneIntervalId);
+    }
+  }
+
+  /**
+   * Stores the content as the job's next artifact version, then drops the
+   * job's versions beyond ARTIFACT_MAX_PER_JOB.
+   */
+  async create(artifact: NewArtifact): Promise<Artifact> {
+    const id = randomUUID();
+    // Not named after the version, which is only known once inserted
+    const storageKey = `${artifact.jobId}/${id}.${artifact.extension}`;
+
+    await this.storage.put(storageKey, artifact.data);
+    let saved: Artifact;
+    try {
+      saved = await this.insertNextVersion(id, storageKey, artifact);
+    } catch (error) {
+      await this.storage.delete(storageKey);
+      throw error;
+    }
+
+    await this.pruneJob(artifact.jobId);
+    return saved;
+  }
+
+  /**
+   * Inserts the artifact as the job's next version. Overlapping runs of a job
+   * can pick the same version; the one the unique index rejects picks again.
+   */
+  private async insertNextVersion(
+    id: string,
+    storageKey: string,
+    artifact: NewArtifact,
+  ): Promise<Artifact> {
+    const checksum = createHash('sha256').update(artifact.data).digest('hex');
+    for (let attempt = 1; ; attempt++) {
+      const { max } = await this.artifactRepository
+        .createQueryBuilder('artifact')
+        .select('MAX(artifact.version)', 'max')
+        .where('artifact.jobId = :jobId', { jobId: artifact.jobId })
+        .getRawOne();
+      const version = (max ?? 0) + 1;
+
+      try {
+        return await this.artifactRepository.save(
+          this.artifactRepository.create({
+            id,
+            jobId: artifact.jobId,
+            jobRunId: artifact.jobRunId,
+            version,
+            filename: `${artifact.filename}-v${version}.${artifact.extension}`,
+            contentType: artifact.contentType,
+            size: artifact.data.length,
+            checksum,
+            storageKey,
+          }),
+        );
+      } catch (error) {
+        const taken =
+          error instanceof QueryFailedError &&
+          error.driverError?.code === UNIQUE_VIOLATION;
+        if (!taken || attempt >= MAX_VERSION_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async findAll(
+    tenantId: string,
+    jobId: string,
+    page: number = 1,
+    limit: number = 50,
+  ): Promise<{
+    artifacts: Artifact[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    await this.assertJobExists(tenantId, jobId);
+
+    const [artifacts, total] = await this.artifactRepository
+      .createQueryBuilder('artifact')
+      .where('artifact.jobId = :jobId', { jobId })
+      .orderBy('artifact.version', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { artifacts, total, page, limit };
+  }
+
+  async findOne(tenantId: string, id: string): Promise<Artifact> {
+    const artifact = await this.artifactRepository
+      .createQueryBuilder('artifact')
+      .innerJoin(Job, 'job', 'job.id = artifact.jobId')
+      .where('artifact.id = :id', { id })
+      .andWhere('job.tenantId = :tenantId', { tenantId })
+      .getOne();
+
+    if (!artifact) {
+      throw new NotFoundException(`Artifact with ID ${id} not found`);
+    }
+    return artifact;
+  }
+
+  /** The artifact with a stream of its content. */
+  async open(
+    tenantId: string,
+    id: string,
+  ): Promise<{ artifact: Artifact; content: Readable }> {
+    const artifact = await this.findOne(tenantId, id);
+    try {
+      return { artifact, content: await this.storage.get(artifact.storageKey) };
+    } catch (error) {
+      this.logger.error(
+        `Content of artifact ${id} is unavailable: ${error.message}`,
+      );
+      throw new NotFoundException(`Content of artifact ${id} is unavailable`);
+    }
+  }
+
+  /** Deletes all artifacts of a job, e.g. before the job is deleted. */
+  async removeForJob(jobId: string): Promise<void> {
+    await this.remove(await this.artifactRepository.findBy({ jobId }));
+  }
+
+  /**
+   * Deletes artifacts older than the retention period and, per job, all but
+   * the most recent versions.
+   */
+  async prune(): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - this.retentionDays * 86400000);
+      const expired = await this.artifactRepository
+        .createQueryBuilder('artifact')
+        .where('artifact.createdAt < :cutoff', { cutoff })
+        .getMany();
+      await this.remove(expired);
+
+      const excess: Artifact[] = await this.artifactRepository.query(
+        `SELECT id, "storageKey" FROM (
+          SELECT id, "storageKey", ROW_NUMBER() OVER (
+            PARTITION BY "jobId" ORDER BY version DESC
+          ) AS position
+          FROM artifacts
+        ) ranked
+        WHERE ranked.position > $1`,
+        [this.maxPerJob],
+      );
+      await this.remove(excess);
+
+      this.logger.log(
+        `Pruned ${expired.length} expired and ${excess.length} excess artifacts`,
+      );
+    } catch (error) {
+      this.logger.error(`Error pruning artifacts: ${error.message}`);
+    }
+  }
+
+  private async pruneJob(jobId: string): Promise<void> {
+    const excess = await this.artifactRepository
+      .createQueryBuilder('artifact')
+      .where('artifact.jobId = :jobId', { jobId })
+      .orderBy('artifact.version', 'DESC')
+      .offset(this.maxPerJob)
+      .getMany();
+    await this.remove(excess);
+  }
+
+  /** Deletes the contents first, so no row outlives its content. */
+  private async remove(
+    artifacts: Pick<Artifact, 'id' | 'storageKey'>[],
+  ): Promise<void> {
+    for (const { storageKey } of artifacts) {
+      await this.storage.delete(storageKey);
+    }
+    if (artifacts.length > 0) {
+      await this.artifactRepository.delete(artifacts.map(({ id }) => id));
+    }
+  }
+
+  // Jobs of other tenants don't exist for the caller
+  private async assertJobExists(
+    tenantId: string,
+    jobId: string,
+  ): Promise<void> {
+    const exists = await this.jobRepository
+      .createQueryBuilder('job')
+      .where('job.id = :id', { id: jobId })
+      .andWhere('job.tenantId = :tenantId', { tenantId })
+      .getExists();
+
+    if (!exists) {
+      throw new NotFoundException(`Job with ID ${jobId} not found`);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ArtifactResponseDto {
+  @ApiProperty({ example: '5c0e8a7d-2f4b-4e1a-9c3d-7b6a5f4e3d2c' })
+  id: string;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  jobId: string;
+
+  @ApiProperty({
+    example: '9b2f6c1e-3d4a-4c2b-8f5e-1a2b3c4d5e6f',
+    required: false,
+    description: 'Run that produced the artifact',
+  })
+  jobRunId?: string;
+
+  @ApiProperty({ example: 3, description: 'Counts up with each artifact' })
+  version: number;
+
+  @ApiProperty({ example: 'summary-v3.csv' })
+  filename: string;
+
+  @ApiProperty({ example: 'text/csv; charset=utf-8' })
+  contentType: string;
+
+  @ApiProperty({ example: 2048, description: 'Size in bytes' })
+  size: number;
+
+  @ApiProperty({
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
+    description: 'SHA-256 of the content, hex-encoded',
+  })
+  checksum: string;
+
+  @ApiProperty({ example: '2024-01-15T03:00:01Z' })
+  createdAt: Date;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArtifactResponseDto } from './artifact-response.dto';
+
+export class PaginatedArtifactsDto {
+  @ApiProperty({ type: [ArtifactResponseDto] })
+  artifacts: ArtifactResponseDto[];
+
+  @ApiProperty({ example: 10 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 50 })
+  limit: number;
+}
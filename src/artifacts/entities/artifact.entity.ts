@@ -0,0 +1,49 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Job } from '../../jobs/entities/job.entity';
+
+@Entity('artifacts')
+@Index(['jobId', 'version'], { unique: true }) // Versions count up per job
+@Index(['createdAt']) // Index for retention pruning
+export class Artifact {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  jobId: string;
+
+  @ManyToOne(() => Job, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'jobId' })
+  job: Job;
+
+  @Column({ type: 'uuid', nullable: true })
+  jobRunId: string; // Run that produced the artifact
+
+  @Column({ type: 'int' })
+  version: number;
+
+  @Column({ type: 'varchar', length: 255 })
+  filename: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  contentType: string;
+
+  @Column({ type: 'int' })
+  size: number; // Bytes
+
+  @Column({ type: 'varchar', length: 64 })
+  checksum: string; // SHA-256 of the content, hex-encoded
+
+  @Column({ type: 'varchar', length: 255 })
+  storageKey: string; // Where the storage backend keeps the content
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
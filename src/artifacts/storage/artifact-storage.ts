@@ -0,0 +1,17 @@
+import { Readable } from 'stream';
+
+// Injection token of the configured ArtifactStorage
+export const ARTIFACT_STORAGE = 'ARTIFACT_STORAGE';
+
+/**
+ * Where artifact contents are kept, addressed by keys such as
+ * `<jobId>/<version>-<artifactId>.csv`. Select a backend with
+ * ARTIFACT_STORAGE; further backends are added to
+ * ARTIFACT_STORAGE_BACKENDS in ArtifactsModule.
+ */
+export interface ArtifactStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Readable>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+}
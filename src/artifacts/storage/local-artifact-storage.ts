@@ -0,0 +1,45 @@
+import { ConfigService } from '@nestjs/config';
+import { createReadStream } from 'fs';
+import { mkdir, rm, writeFile, rename } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { ArtifactStorage } from './artifact-storage';
+
+/** Keeps artifacts as files under ARTIFACT_STORAGE_DIR (./artifacts). */
+export class LocalArtifactStorage implements ArtifactStorage {
+  private readonly root: string;
+
+  constructor(configService: ConfigService) {
+    this.root = resolve(configService.get('ARTIFACT_STORAGE_DIR', 'artifacts'));
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const path = this.resolve(key);
+    await mkdir(dirname(path), { recursive: true });
+    // Written aside and renamed, so readers never see a partial file
+    await writeFile(`${path}.tmp`, data);
+    await rename(`${path}.tmp`, path);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const stream = createReadStream(this.resolve(key));
+    // Surface a missing file here rather than mid-response
+    await new Promise((resolve, reject) => {
+      stream.once('open', resolve);
+      stream.once('error', reject);
+    });
+    return stream;
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid artifact key "${key}"`);
+    }
+    return path;
+  }
+}
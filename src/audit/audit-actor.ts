@@ -0,0 +1,28 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { AuthenticatedRequest } from '../auth/auth-principal';
+
+/** Who made a request, and from where, as recorded in the audit log. */
+export interface AuditActor {
+  type: string | null;
+  id: string | null;
+  name: string | null;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * The caller of the route as an audit actor. Without `AuthModule`, only its
+ * address and user agent are known.
+ */
+export const CurrentActor = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuditActor => {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    return {
+      type: request.principal?.type ?? null,
+      id: request.principal?.id ?? null,
+      name: request.principal?.name ?? null,
+      ip: request.ip ?? null,
+      userAgent: request.get('user-agent')?.slice(0, 512) ?? null,
+    };
+  },
+);
@@ -0,0 +1,54 @@
+import { Controller, Get, Param, ParseUUIDPipe, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { AuditService } from './audit.service';
+import { PaginatedAuditEntriesDto } from './dto/paginated-audit-entries.dto';
+import {
+  ListAuditQueryDto,
+  ListJobAuditQueryDto,
+} from './dto/list-audit-query.dto';
+import { CurrentTenant, RequireScopes } from '../auth/auth.decorators';
+import { ApiScope } from '../auth/entities/api-key.entity';
+
+@ApiTags('audit')
+@RequireScopes(ApiScope.JOBS_READ)
+@Controller()
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get('audit')
+  @ApiOperation({
+    summary: "List the audit log of the tenant's jobs",
+    description:
+      'Who created, updated, paused, resumed, deleted or triggered which job, when and from where, with the fields each action changed.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated audit log, most recent first',
+    type: PaginatedAuditEntriesDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filters' })
+  async findAll(
+    @Query() query: ListAuditQueryDto,
+    @CurrentTenant() tenantId: string,
+  ): Promise<PaginatedAuditEntriesDto> {
+    return this.auditService.findAll(tenantId, query);
+  }
+
+  // Deleted jobs keep their audit log, so the job doesn't have to exist
+  @Get('jobs/:id/audit')
+  @ApiOperation({ summary: 'List the audit log of a job, even once deleted' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated audit log of the job, most recent first',
+    type: PaginatedAuditEntriesDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filters' })
+  async findForJob(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ListJobAuditQueryDto,
+    @CurrentTenant() tenantId: string,
+  ): Promise<PaginatedAuditEntriesDto> {
+    return this.auditService.findAll(tenantId, { ...query, jobId: id });
+  }
+}
@@ -0,0 +1,89 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { AuditAction, AuditEntry } from './entities/audit-entry.entity';
+import { AuditActor } from './audit-actor';
+import { ListAuditQueryDto } from './dto/list-audit-query.dto';
+import { diffJob } from './job-diff';
+import { Job } from '../jobs/entities/job.entity';
+
+export interface AuditRecord {
+  action: AuditAction;
+  job: Job;
+  // The job as it was before the action; null for a created job
+  before: Partial<Job> | null;
+  actor: AuditActor;
+}
+
+/**
+ * Append-only log of the actions taken on jobs: entries are only ever
+ * inserted, and are kept after their job is deleted.
+ */
+@Injectable()
+export class AuditService {
+  constructor(
+    @InjectRepository(AuditEntry)
+    private readonly auditRepository: Repository<AuditEntry>,
+  ) {}
+
+  /**
+   * Appends an entry for the action, in the transaction of `manager` if
+   * given, so that the action and its entry are committed together.
+   */
+  async record(
+    { action, job, before, actor }: AuditRecord,
+    manager: EntityManager = this.auditRepository.manager,
+  ): Promise<void> {
+    await manager.insert(AuditEntry, {
+      tenantId: job.tenantId,
+      jobId: job.id,
+      jobName: job.name,
+      action,
+      actorType: actor.type,
+      actorId: actor.id,
+      actorName: actor.name,
+      ip: actor.ip,
+      userAgent: actor.userAgent,
+      changes: diffJob(before, action === AuditAction.DELETED ? null : job),
+    });
+  }
+
+  async findAll(
+    tenantId: string,
+    query: ListAuditQueryDto,
+  ): Promise<{
+    entries: AuditEntry[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { page = 1, limit = 50, jobId, action, actorId, from, to } = query;
+    const queryBuilder = this.auditRepository
+      .createQueryBuilder('entry')
+      .where('entry.tenantId = :tenantId', { tenantId });
+
+    if (jobId) {
+      queryBuilder.andWhere('entry.jobId = :jobId', { jobId });
+    }
+    if (action) {
+      queryBuilder.andWhere('entry.action = :action', { action });
+    }
+    if (actorId) {
+      queryBuilder.andWhere('entry.actorId = :actorId', { actorId });
+    }
+    if (from) {
+      queryBuilder.andWhere('entry.createdAt >= :from', { from });
+    }
+    if (to) {
+      queryBuilder.andWhere('entry.createdAt < :to', { to });
+    }
+
+    const [entries, total] = await queryBuilder
+      .orderBy('entry.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { entries, total, page, limit };
+  }
+}
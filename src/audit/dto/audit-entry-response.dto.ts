@@ -0,0 +1,52 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AuditAction, FieldChange } from '../entities/audit-entry.entity';
+
+export class AuditEntryResponseDto {
+  @ApiProperty({ example: '5c1d8e2f-7a6b-4c3d-9e8f-0a1b2c3d4e5f' })
+  id: string;
+
+  @ApiProperty({ example: 'analytics' })
+  tenantId: string;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  jobId: string;
+
+  @ApiProperty({ example: 'Daily Report' })
+  jobName: string;
+
+  @ApiProperty({ enum: AuditAction, example: AuditAction.UPDATED })
+  action: AuditAction;
+
+  @ApiProperty({
+    example: 'api_key',
+    required: false,
+    description: 'api_key, bootstrap_key or jwt',
+  })
+  actorType?: string;
+
+  @ApiProperty({
+    example: 'b3a1c2d4-5e6f-4a7b-8c9d-0e1f2a3b4c5d',
+    required: false,
+    description: 'ID of the API key, or subject of the JWT',
+  })
+  actorId?: string;
+
+  @ApiProperty({ example: 'CI deploy key', required: false })
+  actorName?: string;
+
+  @ApiProperty({ example: '203.0.113.7', required: false })
+  ip?: string;
+
+  @ApiProperty({ example: 'curl/8.5.0', required: false })
+  userAgent?: string;
+
+  @ApiProperty({
+    example: { schedule: { before: '0 3 * * *', after: '0 4 * * *' } },
+    description:
+      'Fields the action changed, with their values before and after; null where the job did not exist',
+  })
+  changes: Record<string, FieldChange>;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  createdAt: Date;
+}
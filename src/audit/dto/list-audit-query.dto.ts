@@ -0,0 +1,70 @@
+import {
+  IsEnum,
+  IsOptional,
+  IsInt,
+  IsString,
+  IsUUID,
+  Min,
+  Max,
+  IsDate,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AuditAction } from '../entities/audit-entry.entity';
+
+export class ListJobAuditQueryDto {
+  @ApiPropertyOptional({ description: 'Page number (default: 1)', example: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Items per page (default: 50, max: 100)',
+    example: 50,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number = 50;
+
+  @ApiPropertyOptional({ enum: AuditAction, description: 'Filter by action' })
+  @IsEnum(AuditAction)
+  @IsOptional()
+  action?: AuditAction;
+
+  @ApiPropertyOptional({
+    description: 'Only actions of this API key ID or JWT subject',
+  })
+  @IsString()
+  @IsOptional()
+  actorId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only entries recorded at or after this time',
+    example: '2024-01-15T00:00:00Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  from?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Only entries recorded before this time',
+    example: '2024-01-16T00:00:00Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  to?: Date;
+}
+
+export class ListAuditQueryDto extends ListJobAuditQueryDto {
+  @ApiPropertyOptional({ description: 'Only entries about this job' })
+  @IsUUID()
+  @IsOptional()
+  jobId?: string;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AuditEntryResponseDto } from './audit-entry-response.dto';
+
+export class PaginatedAuditEntriesDto {
+  @ApiProperty({ type: [AuditEntryResponseDto] })
+  entries: AuditEntryResponseDto[];
+
+  @ApiProperty({ example: 100 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 50 })
+  limit: number;
+}
@@ -0,0 +1,63 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum AuditAction {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  PAUSED = 'paused',
+  RESUMED = 'resumed',
+  DELETED = 'deleted',
+  TRIGGERED = 'triggered', // Requeued, or started by a manual workflow run, to run right away
+}
+
+// Value of a field before and after the action; null where the job didn't exist
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+@Entity('audit_log')
+@Index(['tenantId', 'createdAt']) // Index for a tenant's audit log
+@Index(['jobId', 'createdAt']) // Index for a job's audit log
+export class AuditEntry {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  tenantId: string;
+
+  @Column({ type: 'uuid' })
+  jobId: string; // Not a foreign key, as the log outlives deleted jobs
+
+  @Column({ type: 'varchar', length: 255 })
+  jobName: string; // As of the action
+
+  @Column({ type: 'varchar', length: 20 })
+  action: AuditAction;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  actorType: string; // Kind of credential; null without AuthModule
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  actorId: string; // ID of the API key, or subject of the JWT
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  actorName: string;
+
+  @Column({ type: 'varchar', length: 45, nullable: true })
+  ip: string; // Client address, as resolved with TRUST_PROXY
+
+  @Column({ type: 'varchar', length: 512, nullable: true })
+  userAgent: string;
+
+  @Column({ type: 'jsonb' })
+  changes: Record<string, FieldChange>; // Only the fields the action changed
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,66 @@
+import { Job } from '../jobs/entities/job.entity';
+import { FieldChange } from './entities/audit-entry.entity';
+
+// Fields of a job's definition and state that the audit log tracks; run
+// bookkeeping such as attempts, checkpoints and leases is left out
+const AUDITED_FIELDS = [
+  'name',
+  'type',
+  'status',
+  'description',
+  'schedule',
+  'timezone',
+  'startAt',
+  'endAt',
+  'maxRuns',
+  'nextRunAt',
+  'metadata',
+  'priority',
+  'maxConcurrency',
+  'retryPolicy',
+  'timeoutMs',
+  'misfirePolicy',
+  'misfireGraceMs',
+] as const;
+
+/**
+ * The audited fields that differ between two versions of a job, with their
+ * values as JSON; `before` is null for a created job, `after` for a deleted
+ * one.
+ */
+export function diffJob(
+  before: Partial<Job> | null,
+  after: Partial<Job> | null,
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  for (const field of AUDITED_FIELDS) {
+    const previous = toJson(before?.[field]);
+    const next = toJson(after?.[field]);
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+  return changes;
+}
+
+// Dates as ISO strings, missing values as null, and object keys sorted, as
+// jsonb columns don't keep the order they were written in
+function toJson(value: unknown): unknown {
+  return value === undefined
+    ? null
+    : sortKeys(JSON.parse(JSON.stringify(value)));
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys(value[key])]),
+    );
+  }
+  return value;
+}
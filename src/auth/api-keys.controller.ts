@@ -0,0 +1,131 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseIntPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { CurrentTenant, RequireScopes } from './auth.decorators';
+import { ApiScope } from './entities/api-key.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import {
+  ApiKeyResponseDto,
+  CreatedApiKeyResponseDto,
+} from './dto/api-key-response.dto';
+import { PaginatedApiKeysDto } from './dto/paginated-api-keys.dto';
+
+@ApiTags('api-keys')
+@RequireScopes(ApiScope.ADMIN)
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Issue an API key with the given scopes' })
+  @ApiResponse({
+    status: 201,
+    description:
+      'API key created; the response is the only one that includes the key',
+    type: CreatedApiKeyResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({
+    status: 403,
+    description:
+      'The key is for another tenant, and the caller is not an admin of the default tenant',
+  })
+  async create(
+    @Body() createApiKeyDto: CreateApiKeyDto,
+    @CurrentTenant() tenantId: string,
+  ): Promise<CreatedApiKeyResponseDto> {
+    const { apiKey, key } = await this.apiKeysService.create(
+      tenantId,
+      createApiKeyDto,
+    );
+    return { ...ApiKeyResponseDto.fromEntity(apiKey), key };
+  }
+
+  @Get()
+  @ApiOperation({ summary: "List the tenant's API keys with pagination" })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page (default: 50, max: 100)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of API keys, including revoked ones',
+    type: PaginatedApiKeysDto,
+  })
+  async findAll(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @CurrentTenant() tenantId: string,
+  ): Promise<PaginatedApiKeysDto> {
+    const result = await this.apiKeysService.findAll(
+      tenantId,
+      page,
+      Math.min(limit, 100),
+    );
+    return {
+      ...result,
+      apiKeys: result.apiKeys.map(ApiKeyResponseDto.fromEntity),
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get API key by ID' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'API key details',
+    type: ApiKeyResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentTenant() tenantId: string,
+  ): Promise<ApiKeyResponseDto> {
+    return ApiKeyResponseDto.fromEntity(
+      await this.apiKeysService.findOne(tenantId, id),
+    );
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  @ApiResponse({
+    status: 204,
+    description: 'API key revoked; requests with it are rejected from now on',
+  })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  async revoke(
+    @Param('id') id: string,
+    @CurrentTenant() tenantId: string,
+  ): Promise<void> {
+    await this.apiKeysService.revoke(tenantId, id);
+  }
+}
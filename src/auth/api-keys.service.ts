@@ -0,0 +1,150 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { ApiKey } from './entities/api-key.entity';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { DEFAULT_TENANT_ID } from '../tenants/tenant';
+
+const API_KEY_PREFIX = 'sk_';
+
+// Last-used times are only written once this much time has passed
+const LAST_USED_RESOLUTION_MS = 60000;
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Keys of the caller's tenant: each method takes the tenant, and keys of
+ * other tenants are not found.
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly apiKeyRepository: Repository<ApiKey>,
+  ) {}
+
+  /**
+   * Creates a key, for `tenantId` unless the DTO names a tenant, which only
+   * admins of the default tenant may do; the returned key is the only copy
+   * of it.
+   */
+  async create(
+    tenantId: string,
+    createApiKeyDto: CreateApiKeyDto,
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    if (
+      createApiKeyDto.tenantId &&
+      createApiKeyDto.tenantId !== tenantId &&
+      tenantId !== DEFAULT_TENANT_ID
+    ) {
+      throw new ForbiddenException(
+        'Only admins of the default tenant can issue keys for other tenants',
+      );
+    }
+    if (createApiKeyDto.expiresAt && createApiKeyDto.expiresAt <= new Date()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+
+    const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const apiKey = await this.apiKeyRepository.save(
+      this.apiKeyRepository.create({
+        name: createApiKeyDto.name,
+        scopes: [...new Set(createApiKeyDto.scopes)],
+        tenantId: createApiKeyDto.tenantId ?? tenantId,
+        expiresAt: createApiKeyDto.expiresAt ?? null,
+        prefix: key.slice(0, 11),
+        keyHash: hashApiKey(key),
+      }),
+    );
+    return { apiKey, key };
+  }
+
+  async findAll(
+    tenantId: string,
+    page: number = 1,
+    limit: number = 50,
+  ): Promise<{
+    apiKeys: ApiKey[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const [apiKeys, total] = await this.apiKeyRepository
+      .createQueryBuilder('apiKey')
+      .where('apiKey.tenantId = :tenantId', { tenantId })
+      .orderBy('apiKey.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { apiKeys, total, page, limit };
+  }
+
+  async findOne(tenantId: string, id: string): Promise<ApiKey> {
+    const apiKey = await this.apiKeyRepository
+      .createQueryBuilder('apiKey')
+      .where('apiKey.id = :id', { id })
+      .andWhere('apiKey.tenantId = :tenantId', { tenantId })
+      .getOne();
+
+    if (!apiKey) {
+      throw new NotFoundException(`API key with ID ${id} not found`);
+    }
+    return apiKey;
+  }
+
+  /** Revokes the key; it is kept, for its name and last use. */
+  async revoke(tenantId: string, id: string): Promise<ApiKey> {
+    const apiKey = await this.findOne(tenantId, id);
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await this.apiKeyRepository.update(apiKey.id, {
+        revokedAt: apiKey.revokedAt,
+      });
+    }
+    return apiKey;
+  }
+
+  /** The usable key matching `key`, or null if unknown, revoked or expired. */
+  async verify(key: string): Promise<ApiKey | null> {
+    const apiKey = await this.apiKeyRepository
+      .createQueryBuilder('apiKey')
+      .where('apiKey.keyHash = :keyHash', { keyHash: hashApiKey(key) })
+      .getOne();
+
+    const now = new Date();
+    if (
+      !apiKey ||
+      apiKey.revokedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt <= now)
+    ) {
+      return null;
+    }
+
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS
+    ) {
+      // Not awaited: a failure to record it must not fail the request
+      this.apiKeyRepository
+        .update(apiKey.id, { lastUsedAt: now })
+        .catch((error) =>
+          this.logger.warn(
+            `Failed to record use of API key ${apiKey.id}: ${error.message}`,
+          ),
+        );
+    }
+    return apiKey;
+  }
+}
@@ -0,0 +1,27 @@
+import { Request } from 'express';
+import { ApiScope } from './entities/api-key.entity';
+
+/** Who a request is made by, as established by the global `AuthGuard`. */
+export interface AuthPrincipal {
+  // The key stored in the database, the ADMIN_API_KEY or a JWT
+  type: 'api_key' | 'bootstrap_key' | 'jwt';
+  id: string; // ID of the API key, or subject of the JWT
+  name: string;
+  scopes: ApiScope[];
+  tenantId: string; // Tenant whose jobs the caller sees and manages
+}
+
+export interface AuthenticatedRequest extends Request {
+  principal?: AuthPrincipal;
+}
+
+/** Whether the principal was granted all of `scopes`; admin implies every scope. */
+export function hasScopes(
+  principal: AuthPrincipal,
+  scopes: ApiScope[],
+): boolean {
+  return (
+    principal.scopes.includes(ApiScope.ADMIN) ||
+    scopes.every((scope) => principal.scopes.includes(scope))
+  );
+}
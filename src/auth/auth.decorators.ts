@@ -0,0 +1,46 @@
+import {
+  applyDecorators,
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+import { ApiResponse } from '@nestjs/swagger';
+import { ApiScope } from './entities/api-key.entity';
+import { AuthenticatedRequest, AuthPrincipal } from './auth-principal';
+import { DEFAULT_TENANT_ID } from '../tenants/tenant';
+
+export const IS_PUBLIC_KEY = 'auth:public';
+export const SCOPES_KEY = 'auth:scopes';
+
+/** Lets unauthenticated requests through the global `AuthGuard`. */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+
+/**
+ * Scopes the caller must have been granted. On a controller, applies to
+ * its routes that don't require scopes of their own.
+ */
+export const RequireScopes = (...scopes: ApiScope[]) =>
+  applyDecorators(
+    SetMetadata(SCOPES_KEY, scopes),
+    ApiResponse({ status: 401, description: 'Not authenticated' }),
+    ApiResponse({
+      status: 403,
+      description: `Requires the ${scopes.join(', ')} scope`,
+    }),
+  );
+
+/** The authenticated caller of the route. */
+export const CurrentPrincipal = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthPrincipal =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().principal,
+);
+
+/**
+ * Tenant of the authenticated caller; the default tenant when the
+ * application runs without `AuthModule`.
+ */
+export const CurrentTenant = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): string =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().principal
+      ?.tenantId ?? DEFAULT_TENANT_ID,
+);
@@ -0,0 +1,50 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiScope } from './entities/api-key.entity';
+import { AuthService } from './auth.service';
+import { AuthenticatedRequest, hasScopes } from './auth-principal';
+import { IS_PUBLIC_KEY, SCOPES_KEY } from './auth.decorators';
+
+/**
+ * Global guard: every route requires an authenticated caller, with the
+ * scopes of its `@RequireScopes()`, unless it is marked `@Public()`.
+ */
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const [scheme, bearerToken] = (request.headers.authorization ?? '').split(
+      ' ',
+    );
+    const principal = await this.authService.authenticate({
+      apiKey: request.header('x-api-key'),
+      bearerToken: scheme?.toLowerCase() === 'bearer' ? bearerToken : undefined,
+    });
+
+    const scopes =
+      this.reflector.getAllAndOverride<ApiScope[]>(SCOPES_KEY, targets) ?? [];
+    if (!hasScopes(principal, scopes)) {
+      throw new ForbiddenException(
+        `Requires the ${scopes.join(', ')} scope${scopes.length > 1 ? 's' : ''}`,
+      );
+    }
+
+    request.principal = principal;
+    return true;
+  }
+}
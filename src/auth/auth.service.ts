@@ -0,0 +1,124 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+import { ApiScope } from './entities/api-key.entity';
+import { ApiKeysService, hashApiKey } from './api-keys.service';
+import { AuthPrincipal } from './auth-principal';
+import { JwtClaims, JwtError, verifyJwt } from './jwt';
+import { DEFAULT_TENANT_ID, TENANT_ID_PATTERN } from '../tenants/tenant';
+
+const SCOPES = new Set<string>(Object.values(ApiScope));
+
+/**
+ * Establishes who a request is made by from its credentials: an API key,
+ * stored hashed and issued through `/api-keys`; the ADMIN_API_KEY, to
+ * bootstrap the first keys; or, when JWT_SECRET is set, an HS256 JWT whose
+ * `scope` claim lists its scopes and `tenant` claim names its tenant.
+ */
+@Injectable()
+export class AuthService {
+  private readonly adminKeyHash: Buffer | null;
+  private readonly jwtSecret: string | undefined;
+  private readonly jwtIssuer: string | undefined;
+  private readonly jwtAudience: string | undefined;
+
+  constructor(
+    private readonly apiKeysService: ApiKeysService,
+    configService: ConfigService,
+  ) {
+    const adminKey = configService.get<string>('ADMIN_API_KEY');
+    this.adminKeyHash = adminKey
+      ? Buffer.from(hashApiKey(adminKey), 'hex')
+      : null;
+    this.jwtSecret = configService.get('JWT_SECRET') || undefined;
+    this.jwtIssuer = configService.get('JWT_ISSUER') || undefined;
+    this.jwtAudience = configService.get('JWT_AUDIENCE') || undefined;
+  }
+
+  /**
+   * Authenticates an `X-API-Key` header or an `Authorization: Bearer`
+   * token, which may be an API key too.
+   */
+  async authenticate(credentials: {
+    apiKey?: string;
+    bearerToken?: string;
+  }): Promise<AuthPrincipal> {
+    if (credentials.apiKey) {
+      return this.authenticateApiKey(credentials.apiKey);
+    }
+    if (credentials.bearerToken) {
+      // JWTs are three dot-separated segments; API keys have no dots
+      return this.jwtSecret && credentials.bearerToken.split('.').length === 3
+        ? this.authenticateJwt(credentials.bearerToken)
+        : this.authenticateApiKey(credentials.bearerToken);
+    }
+    throw new UnauthorizedException(
+      'Missing credentials: send an X-API-Key header or a bearer token',
+    );
+  }
+
+  private async authenticateApiKey(key: string): Promise<AuthPrincipal> {
+    if (this.adminKeyHash) {
+      const keyHash = Buffer.from(hashApiKey(key), 'hex');
+      if (timingSafeEqual(keyHash, this.adminKeyHash)) {
+        return {
+          type: 'bootstrap_key',
+          id: 'admin',
+          name: 'ADMIN_API_KEY',
+          scopes: [ApiScope.ADMIN],
+          tenantId: DEFAULT_TENANT_ID,
+        };
+      }
+    }
+
+    const apiKey = await this.apiKeysService.verify(key);
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid, expired or revoked API key');
+    }
+    return {
+      type: 'api_key',
+      id: apiKey.id,
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      tenantId: apiKey.tenantId,
+    };
+  }
+
+  private authenticateJwt(token: string): AuthPrincipal {
+    let claims: JwtClaims;
+    try {
+      claims = verifyJwt(token, this.jwtSecret, {
+        issuer: this.jwtIssuer,
+        audience: this.jwtAudience,
+      });
+    } catch (error) {
+      if (error instanceof JwtError) {
+        throw new UnauthorizedException(
+          `Invalid bearer token: ${error.message}`,
+        );
+      }
+      throw error;
+    }
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new UnauthorizedException('Invalid bearer token: missing subject');
+    }
+    const tenantId = claims.tenant ?? DEFAULT_TENANT_ID;
+    if (typeof tenantId !== 'string' || !TENANT_ID_PATTERN.test(tenantId)) {
+      throw new UnauthorizedException('Invalid bearer token: invalid tenant');
+    }
+
+    const granted =
+      typeof claims.scope === 'string'
+        ? claims.scope.split(' ')
+        : Array.isArray(claims.scopes)
+          ? claims.scopes
+          : [];
+    return {
+      type: 'jwt',
+      id: claims.sub,
+      name: typeof claims.name === 'string' ? claims.name : claims.sub,
+      scopes: granted.filter((scope): scope is ApiScope => SCOPES.has(scope)),
+      tenantId,
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKey, ApiScope } from '../entities/api-key.entity';
+
+export class ApiKeyResponseDto {
+  @ApiProperty({ example: '2b1c4d6e-8f0a-4b2c-9d3e-5f7a9b1c3d5e' })
+  id: string;
+
+  @ApiProperty({ example: 'CI deployments' })
+  name: string;
+
+  @ApiProperty({
+    description: 'Start of the key, to tell keys apart',
+    example: 'sk_Qm9vb2xl',
+  })
+  prefix: string;
+
+  @ApiProperty({
+    enum: ApiScope,
+    isArray: true,
+    example: [ApiScope.JOBS_READ, ApiScope.JOBS_WRITE],
+  })
+  scopes: ApiScope[];
+
+  @ApiProperty({ example: 'analytics' })
+  tenantId: string;
+
+  @ApiProperty({ example: null, required: false })
+  expiresAt?: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:05:00Z', required: false })
+  lastUsedAt?: Date;
+
+  @ApiProperty({ example: null, required: false })
+  revokedAt?: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  createdAt: Date;
+
+  // The key itself is only ever returned when it is created
+  static fromEntity(apiKey: ApiKey): ApiKeyResponseDto {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      tenantId: apiKey.tenantId,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      revokedAt: apiKey.revokedAt,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
+
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    description:
+      'The key, for the X-API-Key header or as a bearer token; store it, as it is not shown again',
+    example: 'sk_Qm9vb2xlYW4gYWxnZWJyYSBpcyBmdW4gdG8gbGVhcm4',
+  })
+  key: string;
+}
@@ -0,0 +1,60 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiScope } from '../entities/api-key.entity';
+import { TENANT_ID_PATTERN } from '../../tenants/tenant';
+
+export class CreateApiKeyDto {
+  @ApiProperty({
+    description: 'What the key is for',
+    example: 'CI deployments',
+    maxLength: 255,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    description: 'Permissions of the key; admin implies all of them',
+    enum: ApiScope,
+    isArray: true,
+    example: [ApiScope.JOBS_READ, ApiScope.JOBS_WRITE],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiScope, { each: true })
+  scopes: ApiScope[];
+
+  @ApiPropertyOptional({
+    description:
+      'Tenant the key acts for; defaults to the tenant of the key creating it. Only admins of the default tenant can issue keys for other tenants',
+    example: 'analytics',
+    pattern: TENANT_ID_PATTERN.source,
+  })
+  @Matches(TENANT_ID_PATTERN, {
+    message:
+      'tenantId must be lowercase letters, digits, "-" and "_", up to 64 characters',
+  })
+  @IsOptional()
+  tenantId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Reject the key from this time on; never expires if unset',
+    example: '2027-01-01T00:00:00Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  expiresAt?: Date;
+}
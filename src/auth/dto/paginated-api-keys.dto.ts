@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiKeyResponseDto } from './api-key-response.dto';
+
+export class PaginatedApiKeysDto {
+  @ApiProperty({ type: [ApiKeyResponseDto] })
+  apiKeys: ApiKeyResponseDto[];
+
+  @ApiProperty({ example: 10 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 50 })
+  limit: number;
+}
@@ -0,0 +1,51 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { DEFAULT_TENANT_ID } from '../../tenants/tenant';
+
+export enum ApiScope {
+  JOBS_READ = 'jobs:read', // Read jobs, runs, workflows, artifacts and events
+  JOBS_WRITE = 'jobs:write', // Create, update, pause, resume and delete jobs and workflows
+  JOBS_EXECUTE = 'jobs:execute', // Cancel and requeue jobs, start workflow runs
+  SUBSCRIPTIONS = 'subscriptions:manage', // Manage webhook subscriptions
+  METRICS_READ = 'metrics:read', // Scrape metrics
+  ADMIN = 'admin', // Manage API keys; implies every other scope
+}
+
+@Entity('api_keys')
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 16 })
+  prefix: string; // Start of the key, to tell keys apart
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64, select: false })
+  keyHash: string; // Hex SHA-256 of the key; the key itself is not stored
+
+  @Column({ type: 'jsonb' })
+  scopes: ApiScope[];
+
+  @Column({ type: 'varchar', length: 64, default: DEFAULT_TENANT_ID })
+  tenantId: string; // Tenant the key acts for
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date; // The key is rejected from then on; never expires if unset
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date; // Updated at most once a minute
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,99 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface JwtClaims {
+  sub?: string;
+  name?: string;
+  scope?: string; // Space-separated, as in OAuth 2.0
+  scopes?: string[];
+  tenant?: string;
+  exp?: number;
+  nbf?: number;
+  iss?: string;
+  aud?: string | string[];
+  [claim: string]: unknown;
+}
+
+export interface JwtVerifyOptions {
+  issuer?: string;
+  audience?: string;
+  // Allowed clock difference, in seconds
+  clockTolerance?: number;
+  now?: number;
+}
+
+export class JwtError extends Error {}
+
+/**
+ * Verifies a compact HS256 JSON Web Token signed with `secret` and returns
+ * its claims. Other algorithms, including `none`, are rejected, as are
+ * expired and not-yet-valid tokens.
+ */
+export function verifyJwt(
+  token: string,
+  secret: string,
+  {
+    issuer,
+    audience,
+    clockTolerance = 30,
+    now = Math.floor(Date.now() / 1000),
+  }: JwtVerifyOptions = {},
+): JwtClaims {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new JwtError('Malformed token');
+  }
+  const [encodedHeader, encodedPayload, signature] = parts;
+
+  const header = decodeJson(encodedHeader);
+  if (header.alg !== 'HS256') {
+    throw new JwtError(`Unsupported algorithm ${header.alg}`);
+  }
+  const expected = createHmac('sha256', secret)
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new JwtError('Invalid signature');
+  }
+
+  const claims: JwtClaims = decodeJson(encodedPayload);
+  if (typeof claims.exp === 'number' && now > claims.exp + clockTolerance) {
+    throw new JwtError('Token expired');
+  }
+  if (typeof claims.nbf === 'number' && now < claims.nbf - clockTolerance) {
+    throw new JwtError('Token not yet valid');
+  }
+  if (issuer !== undefined && claims.iss !== issuer) {
+    throw new JwtError('Invalid issuer');
+  }
+  if (audience !== undefined && ![claims.aud].flat().includes(audience)) {
+    throw new JwtError('Invalid audience');
+  }
+  return claims;
+}
+
+/** Signs `claims` as an HS256 token, e.g. for tests and local tooling. */
+export function signJwt(claims: JwtClaims, secret: string): string {
+  const encodedHeader = encodeJson({ alg: 'HS256', typ: 'JWT' });
+  const encodedPayload = encodeJson(claims);
+  const signature = createHmac('sha256', secret)
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest('base64url');
+  return `${encodedHeader}.${encodedPayload}.${signature}`;
+}
+
+function decodeJson(segment: string): Record<string, any> {
+  try {
+    const value = JSON.parse(Buffer.from(segment, 'base64url').toString());
+    if (value === null || typeof value !== 'object') {
+      throw new Error();
+    }
+    return value;
+  } catch {
+    throw new JwtError('Malformed token');
+  }
+}
+
+function encodeJson(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
@@ -0,0 +1,10 @@
+import { hostname } from 'os';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Identifies this process among the scheduler instances sharing the
+ * database. Override with INSTANCE_ID (e.g. the pod name).
+ */
+export function getInstanceId(configService: ConfigService): string {
+  return configService.get('INSTANCE_ID') || `${hostname()}:${process.pid}`;
+}
@@ -0,0 +1,39 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { JobEventType } from '../../events/job-events.service';
+import { JobEventPayload } from '../../events/job-event-payload';
+
+@Entity('job_events')
+@Index(['createdAt']) // Index for retention pruning
+@Index(['tenantId', 'id']) // Index for replaying a tenant's events
+export class JobEventRecord {
+  // Sequence of the event log, sent to stream clients as the event id
+  @PrimaryGeneratedColumn('increment', { type: 'bigint' })
+  id: string;
+
+  @Column({ type: 'uuid' })
+  eventId: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  type: JobEventType;
+
+  @Column({ type: 'uuid' })
+  jobId: string; // Not a foreign key, as the log outlives deleted jobs
+
+  @Column({ type: 'varchar', length: 64 })
+  tenantId: string; // Tenant of the job
+
+  @Column({ type: 'varchar', length: 100 })
+  jobType: string;
+
+  @Column({ type: 'jsonb' })
+  payload: JobEventPayload;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JobEventRecord } from './entities/job-event-record.entity';
+import { EventStreamService } from './event-stream.service';
+import { EventsController } from './events.controller';
+import { EventsModule } from '../events/events.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([JobEventRecord]), EventsModule],
+  controllers: [EventsController],
+  providers: [EventStreamService],
+})
+export class EventStreamModule {}
@@ -0,0 +1,273 @@
+import {
+  Injectable,
+  Logger,
+  MessageEvent,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Observable, Subject, Subscription } from 'rxjs';
+import { JobEventRecord } from './entities/job-event-record.entity';
+import {
+  JobEvent,
+  JobEventType,
+  JobEventsService,
+} from '../events/job-events.service';
+import { toJobEventPayload } from '../events/job-event-payload';
+
+export interface JobEventFilter {
+  tenantId?: string;
+  jobIds?: string[];
+  jobTypes?: string[];
+  types?: JobEventType[];
+}
+
+const PAGE_SIZE = 500;
+const PRUNE_INTERVAL_MS = 3600000;
+
+/**
+ * Streams job events to clients. Every instance appends the events of its
+ * jobs to a shared log and polls the log for the events of all instances, so
+ * each stream sees every event, in log order. A client reconnecting with the
+ * id of the last event it received is first replayed what it missed.
+ */
+@Injectable()
+export class EventStreamService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(EventStreamService.name);
+  private readonly records = new Subject<JobEventRecord>();
+  private readonly pollInterval: number;
+  private readonly heartbeatInterval: number;
+  private readonly retentionHours: number;
+  private subscription: Subscription;
+  private pollIntervalId: NodeJS.Timeout;
+  private pruneIntervalId: NodeJS.Timeout;
+  // Id of the last record published to streams
+  private cursor = 0;
+  private polling = false;
+  // Appends are chained so that this instance's events keep their order
+  private appending: Promise<void> = Promise.resolve();
+
+  constructor(
+    @InjectRepository(JobEventRecord)
+    private readonly recordRepository: Repository<JobEventRecord>,
+    private readonly jobEventsService: JobEventsService,
+    configService: ConfigService,
+  ) {
+    this.pollInterval = Number(
+      configService.get('EVENT_STREAM_POLL_INTERVAL_MS', 1000),
+    );
+    this.heartbeatInterval = Number(
+      configService.get('EVENT_STREAM_HEARTBEAT_MS', 15000),
+    );
+    this.retentionHours = Number(
+      configService.get('EVENT_STREAM_RETENTION_HOURS', 24),
+    );
+  }
+
+  async onModuleInit() {
+    this.cursor = await this.findLastId();
+    this.subscription = this.jobEventsService.events$.subscribe((event) => {
+      this.appending = this.appending
+        .then(() => this.append(event))
+        .catch((error) =>
+          this.logger.error(
+            `Error logging event ${event.id} (${event.type}): ${error.message}`,
+          ),
+        );
+    });
+    this.pollIntervalId = setInterval(() => {
+      this.poll();
+    }, this.pollInterval);
+    this.pruneIntervalId = setInterval(() => {
+      this.prune();
+    }, PRUNE_INTERVAL_MS);
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+    clearInterval(this.pollIntervalId);
+    clearInterval(this.pruneIntervalId);
+    this.records.complete();
+  }
+
+  /**
+   * Streams the events matching the filter as SSE messages, starting after
+   * the event with id `lastEventId`, or with the next event if it's unset.
+   * Heartbeats carry the id of the last event the stream went past, so a
+   * client resuming after a quiet period isn't replayed what it skipped.
+   */
+  stream(
+    filter: JobEventFilter,
+    lastEventId?: number,
+  ): Observable<MessageEvent> {
+    return new Observable<MessageEvent>((subscriber) => {
+      let position = lastEventId ?? this.cursor;
+      // Live records are held back while missed ones are replayed
+      let backlog: JobEventRecord[] | null =
+        lastEventId !== undefined ? [] : null;
+
+      const send = (record: JobEventRecord) => {
+        if (Number(record.id) <= position) {
+          return;
+        }
+        position = Number(record.id);
+        if (matches(filter, record)) {
+          subscriber.next({
+            id: record.id,
+            type: record.type,
+            data: record.payload,
+          });
+        }
+      };
+
+      const live = this.records.subscribe((record) =>
+        backlog ? backlog.push(record) : send(record),
+      );
+      const heartbeat = setInterval(() => {
+        subscriber.next({ id: String(position), type: 'heartbeat', data: '' });
+      }, this.heartbeatInterval);
+
+      if (backlog) {
+        this.replay(filter, position, send, () => subscriber.closed).then(
+          () => {
+            const held = backlog;
+            backlog = null;
+            held.forEach(send);
+          },
+          (error) => subscriber.error(error),
+        );
+      }
+
+      return () => {
+        live.unsubscribe();
+        clearInterval(heartbeat);
+      };
+    });
+  }
+
+  /** Sends the logged records after `afterId` that match the filter, page by page. */
+  private async replay(
+    filter: JobEventFilter,
+    afterId: number,
+    send: (record: JobEventRecord) => void,
+    isClosed: () => boolean,
+  ): Promise<void> {
+    let page: JobEventRecord[];
+    do {
+      page = await this.findAfter(afterId, filter);
+      if (isClosed()) {
+        return;
+      }
+      page.forEach(send);
+      afterId = Number(page[page.length - 1]?.id ?? afterId);
+    } while (page.length === PAGE_SIZE);
+  }
+
+  /**
+   * Logs the event. The table is locked for the insert, so that records
+   * become visible in id order and a poller reading past the last id it
+   * saw never skips one that was committed late.
+   */
+  private async append(event: JobEvent): Promise<void> {
+    await this.recordRepository.manager.transaction(async (manager) => {
+      await manager.query('LOCK TABLE job_events IN EXCLUSIVE MODE');
+      await manager.insert(JobEventRecord, {
+        eventId: event.id,
+        type: event.type,
+        jobId: event.job.id,
+        tenantId: event.job.tenantId,
+        jobType: event.job.type,
+        payload: toJobEventPayload(event),
+      });
+    });
+  }
+
+  /** Publishes the records logged since the last poll to this instance's streams. */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      let page: JobEventRecord[];
+      do {
+        page = await this.findAfter(this.cursor);
+        for (const record of page) {
+          this.cursor = Number(record.id);
+          this.records.next(record);
+        }
+      } while (page.length === PAGE_SIZE);
+    } catch (error) {
+      this.logger.error(`Error polling job events: ${error.message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /** Deletes logged events older than the retention period. */
+  async prune(): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - this.retentionHours * 3600000);
+      const result = await this.recordRepository
+        .createQueryBuilder()
+        .delete()
+        .where('createdAt < :cutoff', { cutoff })
+        .execute();
+      this.logger.log(`Pruned ${result.affected ?? 0} logged job events`);
+    } catch (error) {
+      this.logger.error(`Error pruning job events: ${error.message}`);
+    }
+  }
+
+  private findAfter(
+    afterId: number,
+    filter: JobEventFilter = {},
+  ): Promise<JobEventRecord[]> {
+    const queryBuilder = this.recordRepository
+      .createQueryBuilder('event')
+      .where('event.id > :afterId', { afterId });
+    if (filter.tenantId) {
+      queryBuilder.andWhere('event.tenantId = :tenantId', {
+        tenantId: filter.tenantId,
+      });
+    }
+    if (filter.jobIds?.length) {
+      queryBuilder.andWhere('event.jobId IN (:...jobIds)', {
+        jobIds: filter.jobIds,
+      });
+    }
+    if (filter.jobTypes?.length) {
+      queryBuilder.andWhere('event.jobType IN (:...jobTypes)', {
+        jobTypes: filter.jobTypes,
+      });
+    }
+    if (filter.types?.length) {
+      queryBuilder.andWhere('event.type IN (:...types)', {
+        types: filter.types,
+      });
+    }
+    return queryBuilder.orderBy('event.id', 'ASC').take(PAGE_SIZE).getMany();
+  }
+
+  private async findLastId(): Promise<number> {
+    const { lastId } = await this.recordRepository
+      .createQueryBuilder('event')
+      .select('MAX(event.id)', 'lastId')
+      .getRawOne();
+    return Number(lastId ?? 0);
+  }
+}
+
+function matches(
+  { tenantId, jobIds, jobTypes, types }: JobEventFilter,
+  record: JobEventRecord,
+): boolean {
+  return (
+    (!tenantId || record.tenantId === tenantId) &&
+    (!jobIds?.length || jobIds.includes(record.jobId)) &&
+    (!jobTypes?.length || jobTypes.includes(record.jobType)) &&
+    (!types?.length || types.includes(record.type))
+  );
+}
@@ -0,0 +1,109 @@
+import {
+  BadRequestException,
+  Controller,
+  Headers,
+  MessageEvent,
+  Query,
+  Sse,
+} from '@nestjs/common';
+import {
+  ApiHeader,
+  ApiOperation,
+  ApiProduces,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { isUUID } from 'class-validator';
+import { EventStreamService } from './event-stream.service';
+import { JobEventType } from '../events/job-events.service';
+import { CurrentTenant, RequireScopes } from '../auth/auth.decorators';
+import { ApiScope } from '../auth/entities/api-key.entity';
+
+@ApiTags('events')
+@RequireScopes(ApiScope.JOBS_READ)
+@Controller('events')
+export class EventsController {
+  constructor(private readonly eventStreamService: EventStreamService) {}
+
+  @Sse()
+  @ApiOperation({
+    summary: 'Stream job events as Server-Sent Events',
+    description:
+      'Each event is named after its type and carries the job event payload ' +
+      'webhooks receive. Reconnecting clients resume after the event in their ' +
+      'Last-Event-ID header, within the event retention period. Only events ' +
+      "of the caller's tenant are streamed.",
+  })
+  @ApiProduces('text/event-stream')
+  @ApiQuery({
+    name: 'jobId',
+    required: false,
+    type: String,
+    description: 'Only stream events of these jobs (comma-separated IDs)',
+  })
+  @ApiQuery({
+    name: 'jobType',
+    required: false,
+    type: String,
+    description: 'Only stream events of jobs of these types (comma-separated)',
+  })
+  @ApiQuery({
+    name: 'type',
+    required: false,
+    type: String,
+    description: `Only stream these event types (comma-separated): ${Object.values(JobEventType).join(', ')}`,
+  })
+  @ApiQuery({
+    name: 'lastEventId',
+    required: false,
+    type: Number,
+    description:
+      'Resume after this event, for clients that cannot set the Last-Event-ID header',
+  })
+  @ApiHeader({
+    name: 'Last-Event-ID',
+    required: false,
+    description: 'Resume after this event; sent by browsers on reconnection',
+  })
+  @ApiResponse({ status: 200, description: 'Stream of job events' })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  stream(
+    @CurrentTenant() tenantId: string,
+    @Query('jobId') jobId?: string,
+    @Query('jobType') jobType?: string,
+    @Query('type') type?: string,
+    @Query('lastEventId') lastEventIdParam?: string,
+    @Headers('last-event-id') lastEventIdHeader?: string,
+  ): Observable<MessageEvent> {
+    const jobIds = splitList(jobId);
+    if (jobIds?.some((id) => !isUUID(id))) {
+      throw new BadRequestException('jobId must be a list of UUIDs');
+    }
+
+    const lastEventId = lastEventIdHeader || lastEventIdParam;
+    if (lastEventId !== undefined && !/^\d+$/.test(lastEventId)) {
+      throw new BadRequestException(
+        'Last event ID must be the id of a streamed event',
+      );
+    }
+
+    return this.eventStreamService.stream(
+      {
+        tenantId,
+        jobIds,
+        jobTypes: splitList(jobType),
+        types: splitList(type) as JobEventType[],
+      },
+      lastEventId !== undefined ? Number(lastEventId) : undefined,
+    );
+  }
+}
+
+function splitList(value?: string): string[] | undefined {
+  return value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,76 @@
+import { JobStatus } from '../jobs/entities/job.entity';
+import { JobRunStatus } from '../job-runs/entities/job-run.entity';
+import { JobEvent, JobEventType } from './job-events.service';
+
+// A job event as published outside the service. Job metadata is left out,
+// as it may hold credentials such as request headers.
+export interface JobEventPayload {
+  id: string;
+  type: JobEventType;
+  timestamp: string;
+  job: {
+    id: string;
+    tenantId: string;
+    name: string;
+    type: string;
+    status: JobStatus;
+    attempt: number;
+    failureCount: number;
+    lastError: string | null;
+    nextRunAt: string | null;
+    workflowId: string | null;
+  };
+  run?: {
+    id: string;
+    status: JobRunStatus;
+    attempt: number;
+    startedAt: string;
+    finishedAt: string | null;
+    durationMs: number | null;
+    output: Record<string, any> | null;
+    errorMessage: string | null;
+  };
+  willRetry?: boolean;
+}
+
+export function toJobEventPayload({
+  id,
+  type,
+  timestamp,
+  job,
+  run,
+  willRetry,
+}: JobEvent): JobEventPayload {
+  return {
+    id,
+    type,
+    timestamp: timestamp.toISOString(),
+    job: {
+      id: job.id,
+      tenantId: job.tenantId,
+      name: job.name,
+      type: job.type,
+      status: job.status,
+      attempt: job.attempt,
+      failureCount: job.failureCount,
+      lastError: job.lastError ?? null,
+      nextRunAt: job.nextRunAt?.toISOString() ?? null,
+      workflowId: job.workflowId ?? null,
+    },
+    ...(run
+      ? {
+          run: {
+            id: run.id,
+            status: run.status,
+            attempt: run.attempt,
+            startedAt: run.startedAt.toISOString(),
+            finishedAt: run.finishedAt?.toISOString() ?? null,
+            durationMs: run.durationMs ?? null,
+            output: run.output ?? null,
+            errorMessage: run.errorMessage ?? null,
+          },
+        }
+      : {}),
+    ...(willRetry !== undefined ? { willRetry } : {}),
+  };
+}
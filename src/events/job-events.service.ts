@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Observable, Subject } from 'rxjs';
+import { Job } from '../jobs/entities/job.entity';
+import { JobRun } from '../job-runs/entities/job-run.entity';
+
+export enum JobEventType {
+  CREATED = 'job.created',
+  UPDATED = 'job.updated',
+  PAUSED = 'job.paused',
+  RESUMED = 'job.resumed',
+  SCHEDULED = 'job.scheduled', // The job's next occurrence was timed, at job.nextRunAt
+  RUN_STARTED = 'job.run.started',
+  RUN_SUCCEEDED = 'job.run.succeeded',
+  RUN_FAILED = 'job.run.failed',
+  RUN_CANCELLED = 'job.run.cancelled',
+}
+
+export interface JobEvent {
+  id: string;
+  type: JobEventType;
+  job: Job;
+  run?: JobRun; // Set for run events
+  // Whether a failed occurrence will be retried
+  willRetry?: boolean;
+  timestamp: Date;
+}
+
+/**
+ * Publishes what happens to jobs on this instance. Subscribers are called
+ * synchronously and must not throw; async work should handle its own
+ * errors.
+ */
+@Injectable()
+export class JobEventsService {
+  private readonly subject = new Subject<JobEvent>();
+
+  get events$(): Observable<JobEvent> {
+    return this.subject.asObservable();
+  }
+
+  emit(event: Omit<JobEvent, 'id' | 'timestamp'>): void {
+    this.subject.next({ ...event, id: randomUUID(), timestamp: new Date() });
+  }
+}
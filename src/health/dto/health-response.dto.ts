@@ -0,0 +1,37 @@
+import { ApiProperty, getSchemaPath } from '@nestjs/swagger';
+import { HealthStatus } from '../health.service';
+
+export class HealthCheckDto {
+  @ApiProperty({ enum: HealthStatus, example: HealthStatus.UP })
+  status: HealthStatus;
+
+  @ApiProperty({
+    required: false,
+    description: 'Why the check is down',
+    example: 'Active jobs have not been loaded yet',
+  })
+  error?: string;
+}
+
+export class HealthResponseDto {
+  @ApiProperty({ enum: ['ok', 'error'], example: 'ok' })
+  status: 'ok' | 'error';
+
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: { $ref: getSchemaPath(HealthCheckDto) },
+    description:
+      'Result of each check, with details such as `latencyMs` (database), `lastTickAt` and `lastPollAt` (scheduler) or `count` (overdueJobs)',
+    example: {
+      database: { status: 'up', latencyMs: 2 },
+      startup: { status: 'up' },
+      scheduler: {
+        status: 'up',
+        lastTickAt: '2024-01-15T10:30:00Z',
+        lastPollAt: '2024-01-15T10:30:00Z',
+      },
+      overdueJobs: { status: 'up', count: 0 },
+    },
+  })
+  checks: Record<string, HealthCheckDto>;
+}
@@ -0,0 +1,56 @@
+import { Controller, Get, ServiceUnavailableException } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiExtraModels,
+} from '@nestjs/swagger';
+import { HealthReport, HealthService } from './health.service';
+import { HealthCheckDto, HealthResponseDto } from './dto/health-response.dto';
+import { Public } from '../auth/auth.decorators';
+
+@ApiTags('health')
+@Public()
+@ApiExtraModels(HealthCheckDto)
+@Controller('health')
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('live')
+  @ApiOperation({
+    summary: "Liveness: whether this instance's scheduler loop is polling",
+    security: [],
+  })
+  @ApiResponse({ status: 200, description: 'Live', type: HealthResponseDto })
+  @ApiResponse({
+    status: 503,
+    description: 'Not live; the instance should be restarted',
+    type: HealthResponseDto,
+  })
+  async live(): Promise<HealthReport> {
+    return respond(await this.healthService.checkLiveness());
+  }
+
+  @Get('ready')
+  @ApiOperation({
+    summary:
+      'Readiness: database connectivity, startup, scheduler loop and overdue jobs',
+    security: [],
+  })
+  @ApiResponse({ status: 200, description: 'Ready', type: HealthResponseDto })
+  @ApiResponse({
+    status: 503,
+    description: 'Not ready, e.g. while active jobs are being loaded',
+    type: HealthResponseDto,
+  })
+  async ready(): Promise<HealthReport> {
+    return respond(await this.healthService.checkReadiness());
+  }
+}
+
+function respond(report: HealthReport): HealthReport {
+  if (report.status !== 'ok') {
+    throw new ServiceUnavailableException(report);
+  }
+  return report;
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { HealthService } from './health.service';
+import { HealthController } from './health.controller';
+import { Job } from '../jobs/entities/job.entity';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Job]), SchedulerModule],
+  controllers: [HealthController],
+  providers: [HealthService],
+})
+export class HealthModule {}
@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectDataSource, InjectRepository } from '@nestjs/typeorm';
+import { Brackets, DataSource, Repository } from 'typeorm';
+import { Job, JobStatus } from '../jobs/entities/job.entity';
+import { SchedulerService } from '../scheduler/scheduler.service';
+
+export enum HealthStatus {
+  UP = 'up',
+  DOWN = 'down',
+}
+
+export interface HealthCheckResult {
+  status: HealthStatus;
+  error?: string;
+  [detail: string]: unknown;
+}
+
+export interface HealthReport {
+  status: 'ok' | 'error';
+  checks: Record<string, HealthCheckResult>;
+}
+
+/**
+ * Checks behind the health endpoints. Liveness only covers whether this
+ * process's scheduler loop still runs, so that an orchestrator restarts an
+ * instance whose loop stopped; readiness also covers its dependencies and
+ * startup, so that a database outage takes instances out of rotation
+ * rather than restarting them.
+ */
+@Injectable()
+export class HealthService {
+  private readonly maxTickAge: number | undefined;
+  private readonly overdueThreshold: number;
+  private readonly databaseTimeout: number;
+
+  constructor(
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+    @InjectRepository(Job)
+    private readonly jobRepository: Repository<Job>,
+    private readonly schedulerService: SchedulerService,
+    configService: ConfigService,
+  ) {
+    // Defaults to three poll intervals of the scheduler loop
+    const maxTickAge = configService.get('HEALTH_MAX_TICK_AGE_MS');
+    this.maxTickAge = maxTickAge !== undefined ? Number(maxTickAge) : undefined;
+    this.overdueThreshold = Number(
+      configService.get('HEALTH_OVERDUE_THRESHOLD_MS', 300000),
+    );
+    this.databaseTimeout = Number(
+      configService.get('HEALTH_DATABASE_TIMEOUT_MS', 2000),
+    );
+  }
+
+  async checkLiveness(): Promise<HealthReport> {
+    return report({ scheduler: this.checkSchedulerLoop(false) });
+  }
+
+  async checkReadiness(): Promise<HealthReport> {
+    const [database, overdueJobs] = await Promise.all([
+      this.checkDatabase(),
+      this.checkOverdueJobs(),
+    ]);
+    return report({
+      database,
+      startup: this.checkStartup(),
+      scheduler: this.checkSchedulerLoop(true),
+      overdueJobs,
+    });
+  }
+
+  private checkStartup(): HealthCheckResult {
+    return this.schedulerService.getLoopStatus().loaded
+      ? { status: HealthStatus.UP }
+      : {
+          status: HealthStatus.DOWN,
+          error: 'Active jobs have not been loaded yet',
+        };
+  }
+
+  /**
+   * Whether the scheduler loop ran recently or, with `polled`, whether it
+   * also managed to poll the database for due jobs.
+   */
+  private checkSchedulerLoop(polled: boolean): HealthCheckResult {
+    const { startedAt, lastTickAt, lastPollAt, checkInterval } =
+      this.schedulerService.getLoopStatus();
+    if (!startedAt) {
+      return {
+        status: HealthStatus.DOWN,
+        error: 'Scheduler loop has not started',
+      };
+    }
+
+    const maxAge = this.maxTickAge ?? 3 * checkInterval;
+    const last = polled ? lastPollAt : lastTickAt;
+    // Before its first run, the loop is timed from its start
+    const age = Date.now() - (last ?? startedAt).getTime();
+    const details = {
+      lastTickAt: lastTickAt?.toISOString() ?? null,
+      lastPollAt: lastPollAt?.toISOString() ?? null,
+    };
+    if (age > maxAge) {
+      return {
+        status: HealthStatus.DOWN,
+        error: polled
+          ? `Scheduler loop has not polled the database for ${age} ms`
+          : `Scheduler loop has not run for ${age} ms`,
+        ...details,
+      };
+    }
+    return { status: HealthStatus.UP, ...details };
+  }
+
+  private async checkDatabase(): Promise<HealthCheckResult> {
+    const start = Date.now();
+    try {
+      await this.withTimeout(this.dataSource.query('SELECT 1'));
+      return { status: HealthStatus.UP, latencyMs: Date.now() - start };
+    } catch (error) {
+      return { status: HealthStatus.DOWN, error: error.message };
+    }
+  }
+
+  /**
+   * How many active jobs are past due by more than the threshold without any
+   * instance running them. Reported as a detail only: jobs also wait there
+   * for a tenant's or type's slots to free up, which no instance being taken
+   * out of rotation would help with.
+   */
+  private async checkOverdueJobs(): Promise<HealthCheckResult> {
+    const now = new Date();
+    try {
+      const count = await this.withTimeout(
+        this.jobRepository
+          .createQueryBuilder('job')
+          .where('job.status = :status', { status: JobStatus.ACTIVE })
+          .andWhere('job.nextRunAt < :overdueAt', {
+            overdueAt: new Date(now.getTime() - this.overdueThreshold),
+          })
+          .andWhere(
+            new Brackets((where) =>
+              where
+                .where('job.leaseExpiresAt IS NULL')
+                .orWhere('job.leaseExpiresAt < :now', { now }),
+            ),
+          )
+          .getCount(),
+      );
+      return { status: HealthStatus.UP, count };
+    } catch (error) {
+      return { status: HealthStatus.DOWN, error: error.message };
+    }
+  }
+
+  private withTimeout<T>(query: Promise<T>): Promise<T> {
+    let timeoutId: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () =>
+          reject(
+            new Error(
+              `Database did not respond within ${this.databaseTimeout} ms`,
+            ),
+          ),
+        this.databaseTimeout,
+      );
+    });
+    return Promise.race([query, timeout]).finally(() =>
+      clearTimeout(timeoutId),
+    );
+  }
+}
+
+function report(checks: Record<string, HealthCheckResult>): HealthReport {
+  return {
+    status: Object.values(checks).every(
+      ({ status }) => status === HealthStatus.UP,
+    )
+      ? 'ok'
+      : 'error',
+    checks,
+  };
+}
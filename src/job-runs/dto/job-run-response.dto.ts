@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { JobRunStatus } from '../entities/job-run.entity';
+
+export class JobRunResponseDto {
+  @ApiProperty({ example: '9b2f6c1e-3d4a-4c2b-8f5e-1a2b3c4d5e6f' })
+  id: string;
+
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  jobId: string;
+
+  @ApiProperty({ enum: JobRunStatus, example: JobRunStatus.SUCCEEDED })
+  status: JobRunStatus;
+
+  @ApiProperty({ example: 1 })
+  attempt: number;
+
+  @ApiProperty({ example: 'scheduler-7f9c4:4211' })
+  instanceId: string;
+
+  @ApiProperty({
+    example: '2024-01-15T03:00:00Z',
+    required: false,
+    description: 'When the run was due',
+  })
+  scheduledAt?: Date;
+
+  @ApiProperty({ example: '2024-01-15T03:00:00Z' })
+  startedAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T03:00:01Z', required: false })
+  finishedAt?: Date;
+
+  @ApiProperty({ example: 1250, required: false })
+  durationMs?: number;
+
+  @ApiProperty({
+    example: { recordsProcessed: 1000 },
+    required: false,
+    description:
+      'What the handler reported about the run; failed runs may have one too, e.g. the response of an HTTP request',
+  })
+  output?: Record<string, any>;
+
+  @ApiProperty({ example: null, required: false })
+  errorMessage?: string;
+
+  @ApiProperty({ example: null, required: false })
+  errorStack?: string;
+}
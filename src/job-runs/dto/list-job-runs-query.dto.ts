@@ -0,0 +1,50 @@
+import { IsEnum, IsOptional, IsInt, Min, Max, IsDate } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { JobRunStatus } from '../entities/job-run.entity';
+
+export class ListJobRunsQueryDto {
+  @ApiPropertyOptional({ description: 'Page number (default: 1)', example: 1 })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Items per page (default: 50, max: 100)',
+    example: 50,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number = 50;
+
+  @ApiPropertyOptional({
+    enum: JobRunStatus,
+    description: 'Filter by run outcome',
+  })
+  @IsEnum(JobRunStatus)
+  @IsOptional()
+  status?: JobRunStatus;
+
+  @ApiPropertyOptional({
+    description: 'Only runs started at or after this time',
+    example: '2024-01-15T00:00:00Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  from?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Only runs started before this time',
+    example: '2024-01-16T00:00:00Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  to?: Date;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { JobRunResponseDto } from './job-run-response.dto';
+
+export class PaginatedJobRunsDto {
+  @ApiProperty({ type: [JobRunResponseDto] })
+  runs: JobRunResponseDto[];
+
+  @ApiProperty({ example: 100 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 50 })
+  limit: number;
+}
@@ -0,0 +1,67 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Job } from '../../jobs/entities/job.entity';
+
+export enum JobRunStatus {
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  TIMED_OUT = 'timed_out',
+  CANCELLED = 'cancelled',
+  SKIPPED = 'skipped', // Missed occurrence dropped by the job's misfire policy
+}
+
+@Entity('job_runs')
+@Index(['jobId', 'startedAt']) // Composite index for per-job history queries
+@Index(['startedAt']) // Index for retention pruning
+export class JobRun {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  jobId: string;
+
+  @ManyToOne(() => Job, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'jobId' })
+  job: Job;
+
+  @Column({
+    type: 'enum',
+    enum: JobRunStatus,
+    default: JobRunStatus.RUNNING,
+  })
+  status: JobRunStatus;
+
+  @Column({ type: 'int', default: 1 })
+  attempt: number; // 1 for a scheduled run, incremented for each retry of the occurrence
+
+  @Column({ type: 'varchar', length: 255 })
+  instanceId: string; // Scheduler instance that executed the run
+
+  @Column({ type: 'timestamp', nullable: true })
+  scheduledAt: Date; // When the run was due
+
+  @Column({ type: 'timestamp' })
+  startedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date;
+
+  @Column({ type: 'int', nullable: true })
+  durationMs: number;
+
+  @Column({ type: 'jsonb', nullable: true })
+  output: Record<string, any>; // What the handler reported about the run, e.g. an HTTP response
+
+  @Column({ type: 'text', nullable: true })
+  errorMessage: string;
+
+  @Column({ type: 'text', nullable: true })
+  errorStack: string;
+}
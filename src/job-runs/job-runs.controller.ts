@@ -0,0 +1,51 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import { JobRunsService } from './job-runs.service';
+import { JobRunResponseDto } from './dto/job-run-response.dto';
+import { PaginatedJobRunsDto } from './dto/paginated-job-runs.dto';
+import { ListJobRunsQueryDto } from './dto/list-job-runs-query.dto';
+import { CurrentTenant, RequireScopes } from '../auth/auth.decorators';
+import { ApiScope } from '../auth/entities/api-key.entity';
+
+@ApiTags('runs')
+@RequireScopes(ApiScope.JOBS_READ)
+@Controller('jobs/:id/runs')
+export class JobRunsController {
+  constructor(private readonly jobRunsService: JobRunsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List execution history of a job' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of runs, most recent first',
+    type: PaginatedJobRunsDto,
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filters' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async findAll(
+    @Param('id') id: string,
+    @Query() query: ListJobRunsQueryDto,
+    @CurrentTenant() tenantId: string,
+  ): Promise<PaginatedJobRunsDto> {
+    return this.jobRunsService.findAll(tenantId, id, query);
+  }
+
+  @Get(':runId')
+  @ApiOperation({ summary: 'Get a single run of a job' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiParam({ name: 'runId', description: 'Run ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Run details',
+    type: JobRunResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Job or run not found' })
+  async findOne(
+    @Param('id') id: string,
+    @Param('runId') runId: string,
+    @CurrentTenant() tenantId: string,
+  ): Promise<JobRunResponseDto> {
+    return this.jobRunsService.findOne(tenantId, id, runId);
+  }
+}
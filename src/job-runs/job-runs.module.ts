@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { JobRunsService } from './job-runs.service';
+import { JobRunsController } from './job-runs.controller';
+import { JobRun } from './entities/job-run.entity';
+import { Job } from '../jobs/entities/job.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([JobRun, Job])],
+  controllers: [JobRunsController],
+  providers: [JobRunsService],
+  exports: [JobRunsService],
+})
+export class JobRunsModule {}
@@ -0,0 +1,240 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { JobRun, JobRunStatus } from './entities/job-run.entity';
+import { Job } from '../jobs/entities/job.entity';
+import { ListJobRunsQueryDto } from './dto/list-job-runs-query.dto';
+import { getInstanceId } from '../common/instance-id';
+import { JobError } from '../scheduler/handlers/job-handler.interface';
+
+@Injectable()
+export class JobRunsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(JobRunsService.name);
+  private readonly instanceId: string;
+  private readonly retentionDays: number;
+  private readonly maxRunsPerJob: number;
+  private readonly pruneInterval: number;
+  private pruneIntervalId: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(JobRun)
+    private readonly jobRunRepository: Repository<JobRun>,
+    @InjectRepository(Job)
+    private readonly jobRepository: Repository<Job>,
+    configService: ConfigService,
+  ) {
+    this.instanceId = getInstanceId(configService);
+    this.retentionDays = Number(
+      configService.get('JOB_RUN_RETENTION_DAYS', 30),
+    );
+    this.maxRunsPerJob = Number(configService.get('JOB_RUN_MAX_PER_JOB', 1000));
+    this.pruneInterval = Number(
+      configService.get('JOB_RUN_PRUNE_INTERVAL_MS', 3600000),
+    );
+  }
+
+  onModuleInit() {
+    this.pruneIntervalId = setInterval(() => {
+      this.prune();
+    }, this.pruneInterval);
+  }
+
+  onModuleDestroy() {
+    if (this.pruneIntervalId) {
+      clearInterval(this.pruneIntervalId);
+    }
+  }
+
+  /** Records the start of a run of `job`. */
+  async start(job: Job): Promise<JobRun> {
+    const run = this.jobRunRepository.create({
+      jobId: job.id,
+      status: JobRunStatus.RUNNING,
+      attempt: job.attempt,
+      instanceId: this.instanceId,
+      scheduledAt: job.nextRunAt,
+      startedAt: new Date(),
+    });
+    return this.jobRunRepository.save(run);
+  }
+
+  /** Records missed occurrences of `job` that its misfire policy skipped. */
+  async skip(job: Job, occurrences: Date[]): Promise<void> {
+    if (occurrences.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+    await this.jobRunRepository.insert(
+      occurrences.map((scheduledAt) => ({
+        jobId: job.id,
+        status: JobRunStatus.SKIPPED,
+        attempt: 1,
+        instanceId: this.instanceId,
+        scheduledAt,
+        startedAt: now,
+        finishedAt: now,
+        errorMessage: `Missed occurrence skipped by misfire policy ${job.misfirePolicy}`,
+      })),
+    );
+  }
+
+  async succeed(run: JobRun, output?: Record<string, any>): Promise<JobRun> {
+    run.output = output ?? null;
+    return this.finish(run, JobRunStatus.SUCCEEDED);
+  }
+
+  async fail(run: JobRun, error: JobError): Promise<JobRun> {
+    run.output = error.output ?? null;
+    run.errorMessage = error.message;
+    run.errorStack = error.stack;
+    return this.finish(run, JobRunStatus.FAILED);
+  }
+
+  async timeOut(run: JobRun, error: Error): Promise<JobRun> {
+    run.errorMessage = error.message;
+    return this.finish(run, JobRunStatus.TIMED_OUT);
+  }
+
+  async cancel(run: JobRun): Promise<JobRun> {
+    return this.finish(run, JobRunStatus.CANCELLED);
+  }
+
+  /**
+   * Fails runs left RUNNING by an instance whose lease on the job expired,
+   * e.g. because it crashed mid-run.
+   */
+  async abandon(jobId: string, instanceId: string): Promise<void> {
+    const finishedAt = new Date();
+    await this.jobRunRepository
+      .createQueryBuilder()
+      .update(JobRun)
+      .set({
+        status: JobRunStatus.FAILED,
+        finishedAt,
+        errorMessage: `Lease expired: instance ${instanceId} stopped responding`,
+      })
+      .where('jobId = :jobId', { jobId })
+      .andWhere('instanceId = :instanceId', { instanceId })
+      .andWhere('status = :running', { running: JobRunStatus.RUNNING })
+      .execute();
+  }
+
+  async findAll(
+    tenantId: string,
+    jobId: string,
+    query: ListJobRunsQueryDto,
+  ): Promise<{ runs: JobRun[]; total: number; page: number; limit: number }> {
+    await this.assertJobExists(tenantId, jobId);
+
+    const { page = 1, limit = 50, status, from, to } = query;
+    const queryBuilder = this.jobRunRepository
+      .createQueryBuilder('run')
+      .where('run.jobId = :jobId', { jobId });
+
+    if (status) {
+      queryBuilder.andWhere('run.status = :status', { status });
+    }
+    if (from) {
+      queryBuilder.andWhere('run.startedAt >= :from', { from });
+    }
+    if (to) {
+      queryBuilder.andWhere('run.startedAt < :to', { to });
+    }
+
+    const [runs, total] = await queryBuilder
+      .orderBy('run.startedAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { runs, total, page, limit };
+  }
+
+  async findOne(
+    tenantId: string,
+    jobId: string,
+    runId: string,
+  ): Promise<JobRun> {
+    await this.assertJobExists(tenantId, jobId);
+
+    const run = await this.jobRunRepository
+      .createQueryBuilder('run')
+      .where('run.id = :runId', { runId })
+      .andWhere('run.jobId = :jobId', { jobId })
+      .getOne();
+
+    if (!run) {
+      throw new NotFoundException(
+        `Run with ID ${runId} not found for job ${jobId}`,
+      );
+    }
+    return run;
+  }
+
+  /**
+   * Deletes finished runs older than the retention period and, per job,
+   * all but the most recent finished runs. Running runs are always kept.
+   */
+  async prune(): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - this.retentionDays * 86400000);
+      const expired = await this.jobRunRepository
+        .createQueryBuilder()
+        .delete()
+        .where('startedAt < :cutoff', { cutoff })
+        .andWhere('status != :running', { running: JobRunStatus.RUNNING })
+        .execute();
+
+      const excess = await this.jobRunRepository.query(
+        `DELETE FROM job_runs WHERE id IN (
+          SELECT id FROM (
+            SELECT id, ROW_NUMBER() OVER (
+              PARTITION BY "jobId" ORDER BY "startedAt" DESC
+            ) AS position
+            FROM job_runs
+            WHERE status != $2
+          ) ranked
+          WHERE ranked.position > $1
+        )`,
+        [this.maxRunsPerJob, JobRunStatus.RUNNING],
+      );
+
+      this.logger.log(
+        `Pruned ${expired.affected ?? 0} expired and ${excess[1] ?? 0} excess job runs`,
+      );
+    } catch (error) {
+      this.logger.error(`Error pruning job runs: ${error.message}`);
+    }
+  }
+
+  private async finish(run: JobRun, status: JobRunStatus): Promise<JobRun> {
+    run.status = status;
+    run.finishedAt = new Date();
+    run.durationMs = run.finishedAt.getTime() - run.startedAt.getTime();
+    return this.jobRunRepository.save(run);
+  }
+
+  // Jobs of other tenants don't exist for the caller
+  private async assertJobExists(
+    tenantId: string,
+    jobId: string,
+  ): Promise<void> {
+    const exists = await this.jobRepository
+      .createQueryBuilder('job')
+      .where('job.id = :id', { id: jobId })
+      .andWhere('job.tenantId = :tenantId', { tenantId })
+      .getExists();
+
+    if (!exists) {
+      throw new NotFoundException(`Job with ID ${jobId} not found`);
+    }
+  }
+}
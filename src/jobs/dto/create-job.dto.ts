@@ -1,14 +1,22 @@
 import {
   IsString,
   IsNotEmpty,
-  IsEnum,
   IsOptional,
   IsObject,
   MinLength,
   MaxLength,
+  IsTimeZone,
+  IsDate,
+  IsInt,
+  IsEnum,
+  Min,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { JobType } from '../entities/job.entity';
+import { JobType, MisfirePolicy } from '../entities/job.entity';
+import { IsSchedule } from '../validators/is-schedule.validator';
+import { RetryPolicyDto } from './retry-policy.dto';
 
 export class CreateJobDto {
   @ApiProperty({
@@ -24,13 +32,14 @@ export class CreateJobDto {
   name: string;
 
   @ApiProperty({
-    description: 'Job type',
-    enum: JobType,
+    description: 'Job type; see GET /job-types for the registered types',
     example: JobType.EMAIL_NOTIFICATION,
+    maxLength: 100,
   })
-  @IsEnum(JobType)
+  @IsString()
   @IsNotEmpty()
-  type: JobType;
+  @MaxLength(100)
+  type: string;
 
   @ApiPropertyOptional({
     description: 'Job description',
@@ -41,24 +50,139 @@ export class CreateJobDto {
   description?: string;
 
   @ApiProperty({
-    description: 'Schedule expression (cron-like or interval)',
+    description:
+      'Schedule expression: a cron expression (optional leading seconds field, month/weekday names, L/W/# and @-macros), an ISO 8601 duration, an ISO 8601 repeating interval, or an ISO 8601 timestamp to run once',
     example: '*/5 * * * *',
     examples: [
       { value: '*/5 * * * *', description: 'Every 5 minutes' },
-      { value: '0 9 * * *', description: 'Daily at 9 AM' },
+      { value: '0 9 * * MON-FRI', description: 'Weekdays at 9 AM' },
+      {
+        value: '0 0 L * *',
+        description: 'Midnight on the last day of the month',
+      },
+      { value: '@daily', description: 'Daily at midnight' },
       { value: 'PT5M', description: 'Every 5 minutes (ISO 8601)' },
+      { value: 'P1DT12H', description: 'Every day and a half (ISO 8601)' },
+      {
+        value: 'R5/2026-01-01T00:00:00Z/PT1H',
+        description: 'Five hourly runs starting 2026-01-01 (ISO 8601)',
+      },
+      { value: '2026-01-01T09:00:00Z', description: 'Once, at this time' },
     ],
   })
   @IsString()
   @IsNotEmpty()
+  @IsSchedule()
   schedule: string;
 
   @ApiPropertyOptional({
-    description: 'Additional job metadata',
+    description:
+      'IANA time zone the cron schedule is evaluated in (default: UTC)',
+    example: 'America/New_York',
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description: 'Do not run the job before this time',
+    example: '2026-01-01T00:00:00Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  startAt?: Date;
+
+  @ApiPropertyOptional({
+    description:
+      'Do not run the job after this time; the job completes once its schedule passes it',
+    example: '2026-12-31T23:59:59Z',
+  })
+  @Type(() => Date)
+  @IsDate()
+  @IsOptional()
+  endAt?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Complete the job after this many runs',
+    example: 10,
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxRuns?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Job metadata, validated against the metadata schema of the job type (see GET /job-types)',
     example: { recipients: ['user@example.com'], template: 'daily-report' },
   })
   @IsObject()
   @IsOptional()
   metadata?: Record<string, any>;
-}
 
+  @ApiPropertyOptional({
+    description:
+      'Jobs with a higher priority are dispatched first when due jobs wait for a free slot',
+    example: 10,
+    default: 0,
+  })
+  @IsInt()
+  @IsOptional()
+  priority?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Runs of this job allowed at once; above 1, a run that outlasts the interval overlaps the next occurrence',
+    example: 1,
+    minimum: 1,
+    default: 1,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  maxConcurrency?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Maximum duration of a run in milliseconds; defaults to the job type's timeout (see GET /job-types)",
+    example: 300000,
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  timeoutMs?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Retry policy for failed runs; unset fields fall back to the job type's defaults (see GET /job-types)",
+    type: RetryPolicyDto,
+  })
+  @ValidateNested()
+  @Type(() => RetryPolicyDto)
+  @IsOptional()
+  retryPolicy?: RetryPolicyDto;
+
+  @ApiPropertyOptional({
+    description:
+      'What to do with occurrences missed while the scheduler was down: run the latest once, run each of them, or skip them all',
+    enum: MisfirePolicy,
+    default: MisfirePolicy.FIRE_ONCE,
+  })
+  @IsEnum(MisfirePolicy)
+  @IsOptional()
+  misfirePolicy?: MisfirePolicy;
+
+  @ApiPropertyOptional({
+    description:
+      'How late in milliseconds an occurrence may start before it counts as missed (default: SCHEDULER_MISFIRE_GRACE_MS)',
+    example: 60000,
+    minimum: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  misfireGraceMs?: number;
+}
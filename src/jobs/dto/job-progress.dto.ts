@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class JobProgressDto {
+  @ApiProperty({ description: 'Records processed so far', example: 2500 })
+  processed: number;
+
+  @ApiProperty({
+    description: 'Records in total; null if not known up front',
+    example: 10000,
+    nullable: true,
+  })
+  total: number | null;
+
+  @ApiProperty({ example: '2024-01-15T10:31:12Z' })
+  updatedAt: string;
+}
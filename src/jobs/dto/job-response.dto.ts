@@ -1,47 +1,183 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { JobType, JobStatus } from '../entities/job.entity';
+import { Job, JobType, JobStatus, MisfirePolicy } from '../entities/job.entity';
+import { formatInTimeZone } from '../../scheduler/schedule/time-zone';
+import { RetryPolicyDto } from './retry-policy.dto';
+import { JobProgressDto } from './job-progress.dto';
 
 export class JobResponseDto {
   @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
   id: string;
 
+  @ApiProperty({ example: 'analytics', description: 'Tenant owning the job' })
+  tenantId: string;
+
   @ApiProperty({ example: 'Daily Email Report' })
   name: string;
 
-  @ApiProperty({ enum: JobType, example: JobType.EMAIL_NOTIFICATION })
-  type: JobType;
+  @ApiProperty({ example: JobType.EMAIL_NOTIFICATION })
+  type: string;
 
   @ApiProperty({ enum: JobStatus, example: JobStatus.ACTIVE })
   status: JobStatus;
 
-  @ApiProperty({ example: 'Sends daily email reports to all users', required: false })
+  @ApiProperty({
+    example: 'Sends daily email reports to all users',
+    required: false,
+  })
   description?: string;
 
-  @ApiProperty({ example: '*/5 * * * *' })
+  @ApiProperty({
+    example: '*/5 * * * *',
+    nullable: true,
+    description: 'Null for workflow jobs that only run when triggered',
+  })
   schedule: string;
 
+  @ApiProperty({ example: 'America/New_York' })
+  timezone: string;
+
+  @ApiProperty({ example: '2024-01-01T00:00:00Z', required: false })
+  startAt?: Date;
+
+  @ApiProperty({ example: '2024-12-31T23:59:59Z', required: false })
+  endAt?: Date;
+
+  @ApiProperty({ example: 100, required: false })
+  maxRuns?: number;
+
   @ApiProperty({ example: '2024-01-15T10:30:00Z', required: false })
   lastRunAt?: Date;
 
   @ApiProperty({ example: '2024-01-15T10:35:00Z', required: false })
   nextRunAt?: Date;
 
-  @ApiProperty({ example: { recipients: ['user@example.com'] }, required: false })
+  @ApiProperty({
+    example: '2024-01-15T05:35:00-05:00',
+    required: false,
+    description: "nextRunAt in the job's time zone",
+  })
+  nextRunAtLocal?: string;
+
+  @ApiProperty({
+    example: { recipients: ['user@example.com'] },
+    required: false,
+  })
   metadata?: Record<string, any>;
 
+  @ApiProperty({
+    description: 'Higher priority jobs are dispatched first',
+    example: 0,
+  })
+  priority: number;
+
+  @ApiProperty({ description: 'Runs of the job allowed at once', example: 1 })
+  maxConcurrency: number;
+
   @ApiProperty({ example: 10 })
   runCount: number;
 
-  @ApiProperty({ example: 0 })
+  @ApiProperty({
+    example: 0,
+    description: 'Consecutive failed runs; reset by a successful run',
+  })
   failureCount: number;
 
+  @ApiProperty({
+    description:
+      'Attempt number of the next execution of the current occurrence',
+    example: 1,
+  })
+  attempt: number;
+
   @ApiProperty({ example: null, required: false })
   lastError?: string;
 
+  @ApiProperty({
+    type: JobProgressDto,
+    required: false,
+    description:
+      'Progress of the current occurrence, reported by handlers that process inputs in batches',
+  })
+  progress?: JobProgressDto;
+
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: true,
+    example: null,
+    required: false,
+    description:
+      'State saved by the handler after each batch; a retry of the occurrence resumes from it',
+  })
+  checkpoint?: Record<string, any>;
+
+  @ApiProperty({ example: 300000, required: false })
+  timeoutMs?: number;
+
+  @ApiProperty({ type: RetryPolicyDto, required: false })
+  retryPolicy?: RetryPolicyDto;
+
+  @ApiProperty({
+    example: null,
+    required: false,
+    description: 'When the job ran out of attempts and was dead-lettered',
+  })
+  failedAt?: Date;
+
+  @ApiProperty({ enum: MisfirePolicy, example: MisfirePolicy.FIRE_ONCE })
+  misfirePolicy: MisfirePolicy;
+
+  @ApiProperty({ example: null, required: false })
+  misfireGraceMs?: number;
+
+  @ApiProperty({
+    description: 'Catch-up runs of missed occurrences still to run',
+    example: 0,
+  })
+  catchUpRemaining: number;
+
+  @ApiProperty({
+    example: null,
+    required: false,
+    description: 'Workflow the job is a node of',
+  })
+  workflowId?: string;
+
+  @ApiProperty({
+    example: null,
+    required: false,
+    description: 'Workflow run that last triggered the job',
+  })
+  workflowRunId?: string;
+
+  @ApiProperty({
+    example: 'scheduler-7f9c4:4211',
+    required: false,
+    description: 'Scheduler instance currently running the job',
+  })
+  leaseOwner?: string;
+
+  @ApiProperty({ example: '2024-01-15T10:31:00Z', required: false })
+  leaseExpiresAt?: Date;
+
+  @ApiProperty({
+    example: null,
+    required: false,
+    description: 'When cancellation of the running execution was requested',
+  })
+  cancelRequestedAt?: Date;
+
   @ApiProperty({ example: '2024-01-15T10:00:00Z' })
   createdAt: Date;
 
   @ApiProperty({ example: '2024-01-15T10:00:00Z' })
   updatedAt: Date;
-}
 
+  static fromEntity(job: Job): JobResponseDto {
+    return {
+      ...job,
+      nextRunAtLocal: job.nextRunAt
+        ? formatInTimeZone(job.nextRunAt, job.timezone)
+        : null,
+    };
+  }
+}
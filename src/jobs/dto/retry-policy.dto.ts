@@ -0,0 +1,79 @@
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { BackoffStrategy } from '../../scheduler/retry/retry-policy';
+
+export class RetryPolicyDto {
+  @ApiPropertyOptional({
+    description: 'Attempts per occurrence, including the first one',
+    example: 3,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  maxAttempts?: number;
+
+  @ApiPropertyOptional({
+    description: 'How the delay grows between attempts',
+    enum: BackoffStrategy,
+    example: BackoffStrategy.EXPONENTIAL,
+  })
+  @IsEnum(BackoffStrategy)
+  @IsOptional()
+  backoff?: BackoffStrategy;
+
+  @ApiPropertyOptional({
+    description: 'Delay before the first retry, in milliseconds',
+    example: 60000,
+    minimum: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  delayMs?: number;
+
+  @ApiPropertyOptional({
+    description: 'Upper bound of the delay between attempts, in milliseconds',
+    example: 3600000,
+    minimum: 0,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  maxDelayMs?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Fraction of the delay randomised in either direction (0.2 = ±20%)',
+    example: 0.2,
+    minimum: 0,
+    maximum: 1,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  @IsOptional()
+  jitter?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Error class names or codes worth retrying; other errors fail the job immediately. All errors are retried if omitted',
+    example: ['JobTimeoutError', 'ECONNRESET'],
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  retryableErrors?: string[];
+}
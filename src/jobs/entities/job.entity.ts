@@ -6,12 +6,16 @@ import {
   UpdateDateColumn,
   Index,
 } from 'typeorm';
+import { RetryPolicy } from '../../scheduler/retry/retry-policy';
+import { DEFAULT_TENANT_ID } from '../../tenants/tenant';
 
+// Built-in job types; modules can register handlers for further types
 export enum JobType {
   EMAIL_NOTIFICATION = 'email_notification',
   NUMBER_CRUNCHING = 'number_crunching',
   DATA_PROCESSING = 'data_processing',
   REPORT_GENERATION = 'report_generation',
+  HTTP_REQUEST = 'http_request',
 }
 
 export enum JobStatus {
@@ -21,23 +25,36 @@ export enum JobStatus {
   FAILED = 'failed',
 }
 
+// What to do with occurrences missed while the scheduler was down or behind
+export enum MisfirePolicy {
+  FIRE_ONCE = 'fire_once', // Run once for all missed occurrences
+  FIRE_ALL = 'fire_all', // Run each missed occurrence, up to a limit
+  SKIP_TO_NEXT = 'skip_to_next', // Skip them and wait for the next one
+}
+
+export interface JobProgress {
+  processed: number;
+  total: number | null; // Unknown for some inputs
+  updatedAt: string;
+}
+
 @Entity('jobs')
 @Index(['status', 'nextRunAt']) // Composite index for scheduler queries
 @Index(['status']) // Index for filtering by status
 @Index(['nextRunAt']) // Index for scheduler lookups
+@Index(['tenantId', 'status']) // Index for tenant listings and quotas
 export class Job {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
+  @Column({ type: 'varchar', length: 64, default: DEFAULT_TENANT_ID })
+  tenantId: string; // Only callers of this tenant can see and manage the job
+
   @Column({ type: 'varchar', length: 255 })
   name: string;
 
-  @Column({
-    type: 'enum',
-    enum: JobType,
-    default: JobType.EMAIL_NOTIFICATION,
-  })
-  type: JobType;
+  @Column({ type: 'varchar', length: 100 })
+  type: string; // Must match a registered job handler
 
   @Column({
     type: 'enum',
@@ -49,8 +66,20 @@ export class Job {
   @Column({ type: 'text', nullable: true })
   description: string;
 
-  @Column({ type: 'varchar', length: 100 })
-  schedule: string; // Cron-like expression or interval (e.g., "*/5 * * * *" or "PT5M")
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  schedule: string; // Cron, ISO 8601 duration or repeating interval, or a one-shot timestamp; null for jobs only their workflow triggers
+
+  @Column({ type: 'varchar', length: 64, default: 'UTC' })
+  timezone: string; // IANA time zone the cron schedule is evaluated in
+
+  @Column({ type: 'timestamp', nullable: true })
+  startAt: Date; // No runs before this time
+
+  @Column({ type: 'timestamp', nullable: true })
+  endAt: Date; // No runs after this time
+
+  @Column({ type: 'int', nullable: true })
+  maxRuns: number; // Job completes after this many runs
 
   @Column({ type: 'timestamp', nullable: true })
   lastRunAt: Date;
@@ -61,15 +90,67 @@ export class Job {
   @Column({ type: 'jsonb', nullable: true })
   metadata: Record<string, any>;
 
+  @Column({ type: 'int', default: 0 })
+  priority: number; // Higher priority jobs are dispatched first when waiting for a slot
+
+  @Column({ type: 'int', default: 1 })
+  maxConcurrency: number; // Runs of this job allowed to overlap
+
   @Column({ type: 'int', default: 0 })
   runCount: number;
 
   @Column({ type: 'int', default: 0 })
   failureCount: number;
 
+  @Column({ type: 'int', default: 1 })
+  attempt: number; // Attempt number of the next execution of the current occurrence
+
+  @Column({ type: 'jsonb', nullable: true })
+  retryPolicy: Partial<RetryPolicy>; // Overrides the job type's retry policy
+
+  @Column({ type: 'int', nullable: true })
+  timeoutMs: number; // Overrides the job type's timeout
+
+  @Column({
+    type: 'enum',
+    enum: MisfirePolicy,
+    default: MisfirePolicy.FIRE_ONCE,
+  })
+  misfirePolicy: MisfirePolicy;
+
+  @Column({ type: 'int', nullable: true })
+  misfireGraceMs: number; // Lateness tolerated before an occurrence counts as missed
+
+  @Column({ type: 'int', default: 0 })
+  catchUpRemaining: number; // Missed occurrences still to run under fire_all
+
+  @Column({ type: 'timestamp', nullable: true })
+  failedAt: Date; // When the job ran out of attempts and was dead-lettered
+
   @Column({ type: 'text', nullable: true })
   lastError: string;
 
+  @Column({ type: 'jsonb', nullable: true })
+  checkpoint: Record<string, any>; // Handler state saved mid-run; a retry resumes from it
+
+  @Column({ type: 'jsonb', nullable: true })
+  progress: JobProgress; // Progress of the current occurrence, as last saved
+
+  @Column({ type: 'uuid', nullable: true })
+  workflowId: string; // Workflow the job is a node of
+
+  @Column({ type: 'uuid', nullable: true })
+  workflowRunId: string; // Workflow run that last triggered the job
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  leaseOwner: string; // Scheduler instance currently running the job
+
+  @Column({ type: 'timestamp', nullable: true })
+  leaseExpiresAt: Date; // Lease is up for grabs after this time
+
+  @Column({ type: 'timestamp', nullable: true })
+  cancelRequestedAt: Date; // Lease owner aborts the running execution when set
+
   @CreateDateColumn()
   createdAt: Date;
 
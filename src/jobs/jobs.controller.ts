@@ -2,6 +2,8 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Delete,
   Body,
   Param,
   Query,
@@ -9,6 +11,7 @@ import {
   HttpStatus,
   ParseIntPipe,
   DefaultValuePipe,
+  UseInterceptors,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -19,15 +22,23 @@ import {
 } from '@nestjs/swagger';
 import { JobsService } from './jobs.service';
 import { CreateJobDto } from './dto/create-job.dto';
+import { UpdateJobDto } from './dto/update-job.dto';
 import { JobResponseDto } from './dto/job-response.dto';
 import { PaginatedJobsDto } from './dto/paginated-jobs.dto';
 import { JobStatus } from './entities/job.entity';
+import { HttpMetricsInterceptor } from '../metrics/http-metrics.interceptor';
+import { CurrentTenant, RequireScopes } from '../auth/auth.decorators';
+import { ApiScope } from '../auth/entities/api-key.entity';
+import { AuditActor, CurrentActor } from '../audit/audit-actor';
 
 @ApiTags('jobs')
+@RequireScopes(ApiScope.JOBS_READ)
 @Controller('jobs')
+@UseInterceptors(HttpMetricsInterceptor)
 export class JobsController {
   constructor(private readonly jobsService: JobsService) {}
 
+  @RequireScopes(ApiScope.JOBS_WRITE)
   @Post()
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Create a new job' })
@@ -37,8 +48,13 @@ export class JobsController {
     type: JobResponseDto,
   })
   @ApiResponse({ status: 400, description: 'Bad request' })
-  async create(@Body() createJobDto: CreateJobDto): Promise<JobResponseDto> {
-    return this.jobsService.create(createJobDto);
+  async create(
+    @Body() createJobDto: CreateJobDto,
+    @CurrentTenant() tenantId: string,
+    @CurrentActor() actor: AuditActor,
+  ): Promise<JobResponseDto> {
+    const job = await this.jobsService.create(tenantId, createJobDto, actor);
+    return JobResponseDto.fromEntity(job);
   }
 
   @Get()
@@ -69,11 +85,50 @@ export class JobsController {
   async findAll(
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
     @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @CurrentTenant() tenantId: string,
     @Query('status') status?: JobStatus,
   ): Promise<PaginatedJobsDto> {
     // Limit max page size for performance
     const maxLimit = Math.min(limit, 100);
-    return this.jobsService.findAll(page, maxLimit, status);
+    const result = await this.jobsService.findAll(
+      tenantId,
+      page,
+      maxLimit,
+      status,
+    );
+    return { ...result, jobs: result.jobs.map(JobResponseDto.fromEntity) };
+  }
+
+  @Get('dead-letter')
+  @ApiOperation({ summary: 'List jobs that ran out of retry attempts' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page (default: 50, max: 100)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of failed jobs, most recently failed first',
+    type: PaginatedJobsDto,
+  })
+  async findDeadLetter(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @CurrentTenant() tenantId: string,
+  ): Promise<PaginatedJobsDto> {
+    const result = await this.jobsService.findDeadLetter(
+      tenantId,
+      page,
+      Math.min(limit, 100),
+    );
+    return { ...result, jobs: result.jobs.map(JobResponseDto.fromEntity) };
   }
 
   @Get(':id')
@@ -85,8 +140,136 @@ export class JobsController {
     type: JobResponseDto,
   })
   @ApiResponse({ status: 404, description: 'Job not found' })
-  async findOne(@Param('id') id: string): Promise<JobResponseDto> {
-    return this.jobsService.findOne(id);
+  async findOne(
+    @Param('id') id: string,
+    @CurrentTenant() tenantId: string,
+  ): Promise<JobResponseDto> {
+    const job = await this.jobsService.findOne(tenantId, id);
+    return JobResponseDto.fromEntity(job);
+  }
+
+  @RequireScopes(ApiScope.JOBS_WRITE)
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a job' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Job updated successfully',
+    type: JobResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateJobDto: UpdateJobDto,
+    @CurrentTenant() tenantId: string,
+    @CurrentActor() actor: AuditActor,
+  ): Promise<JobResponseDto> {
+    const job = await this.jobsService.update(
+      tenantId,
+      id,
+      updateJobDto,
+      actor,
+    );
+    return JobResponseDto.fromEntity(job);
+  }
+
+  @RequireScopes(ApiScope.JOBS_WRITE)
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a job' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiResponse({ status: 204, description: 'Job deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async remove(
+    @Param('id') id: string,
+    @CurrentTenant() tenantId: string,
+    @CurrentActor() actor: AuditActor,
+  ): Promise<void> {
+    return this.jobsService.remove(tenantId, id, actor);
   }
-}
 
+  @RequireScopes(ApiScope.JOBS_WRITE)
+  @Post(':id/pause')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Pause an active job' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Job paused successfully',
+    type: JobResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  @ApiResponse({ status: 409, description: 'Job is not active' })
+  async pause(
+    @Param('id') id: string,
+    @CurrentTenant() tenantId: string,
+    @CurrentActor() actor: AuditActor,
+  ): Promise<JobResponseDto> {
+    const job = await this.jobsService.pause(tenantId, id, actor);
+    return JobResponseDto.fromEntity(job);
+  }
+
+  @RequireScopes(ApiScope.JOBS_WRITE)
+  @Post(':id/resume')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Resume a paused job' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Job resumed successfully',
+    type: JobResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  @ApiResponse({ status: 409, description: 'Job is not paused' })
+  async resume(
+    @Param('id') id: string,
+    @CurrentTenant() tenantId: string,
+    @CurrentActor() actor: AuditActor,
+  ): Promise<JobResponseDto> {
+    const job = await this.jobsService.resume(tenantId, id, actor);
+    return JobResponseDto.fromEntity(job);
+  }
+
+  @RequireScopes(ApiScope.JOBS_EXECUTE)
+  @Post(':id/cancel')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Cancel the running execution of a job' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiResponse({
+    status: 202,
+    description:
+      'Cancellation requested; the run is aborted and recorded as cancelled',
+    type: JobResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  @ApiResponse({ status: 409, description: 'Job is not running' })
+  async cancel(
+    @Param('id') id: string,
+    @CurrentTenant() tenantId: string,
+  ): Promise<JobResponseDto> {
+    const job = await this.jobsService.cancel(tenantId, id);
+    return JobResponseDto.fromEntity(job);
+  }
+
+  @RequireScopes(ApiScope.JOBS_EXECUTE)
+  @Post(':id/requeue')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Requeue a failed job from the dead-letter queue' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Job requeued and scheduled to run immediately',
+    type: JobResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  @ApiResponse({ status: 409, description: 'Job is not failed' })
+  async requeue(
+    @Param('id') id: string,
+    @CurrentTenant() tenantId: string,
+    @CurrentActor() actor: AuditActor,
+  ): Promise<JobResponseDto> {
+    const job = await this.jobsService.requeue(tenantId, id, actor);
+    return JobResponseDto.fromEntity(job);
+  }
+}
@@ -4,12 +4,24 @@ import { JobsService } from './jobs.service';
 import { JobsController } from './jobs.controller';
 import { Job } from './entities/job.entity';
 import { SchedulerModule } from '../scheduler/scheduler.module';
+import { ArtifactsModule } from '../artifacts/artifacts.module';
+import { EventsModule } from '../events/events.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { TenantsModule } from '../tenants/tenants.module';
+import { AuditModule } from '../audit/audit.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Job]), SchedulerModule],
+  imports: [
+    TypeOrmModule.forFeature([Job]),
+    SchedulerModule,
+    ArtifactsModule,
+    EventsModule,
+    MetricsModule,
+    TenantsModule,
+    AuditModule,
+  ],
   controllers: [JobsController],
   providers: [JobsService],
   exports: [JobsService],
 })
 export class JobsModule {}
-
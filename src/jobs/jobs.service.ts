@@ -2,33 +2,114 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ConflictException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import { isDeepStrictEqual } from 'util';
 import { Job, JobStatus } from './entities/job.entity';
 import { CreateJobDto } from './dto/create-job.dto';
 import { UpdateJobDto } from './dto/update-job.dto';
 import { SchedulerService } from '../scheduler/scheduler.service';
+import { JobHandlerRegistry } from '../scheduler/handlers/job-handler.registry';
+import { ArtifactsService } from '../artifacts/artifacts.service';
+import { JobEventType, JobEventsService } from '../events/job-events.service';
+import { TenantQuotasService } from '../tenants/tenant-quotas.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/entities/audit-entry.entity';
+import { AuditActor } from '../audit/audit-actor';
 
+// Fields that affect when a job runs
+const SCHEDULE_FIELDS = [
+  'schedule',
+  'timezone',
+  'startAt',
+  'endAt',
+  'maxRuns',
+] as const;
+
+// Fields checked against the tenant's quotas
+const QUOTA_FIELDS = ['schedule', 'timezone', 'maxConcurrency'] as const;
+
+// Columns the API may change. The lease, run counts and last run are only
+// written by the scheduler, which may be running the job meanwhile
+const WRITABLE_FIELDS = [
+  'name',
+  'type',
+  'status',
+  'description',
+  'schedule',
+  'timezone',
+  'startAt',
+  'endAt',
+  'maxRuns',
+  'nextRunAt',
+  'metadata',
+  'priority',
+  'maxConcurrency',
+  'retryPolicy',
+  'timeoutMs',
+  'misfirePolicy',
+  'misfireGraceMs',
+  'catchUpRemaining',
+  'attempt',
+  'failureCount',
+  'failedAt',
+  'checkpoint',
+  'progress',
+] as const;
+
+/**
+ * Jobs of the caller's tenant: each method takes the tenant, and jobs of
+ * other tenants are not found. Changes are recorded in the audit log, in
+ * the transaction that makes them, with the actor that made them.
+ */
 @Injectable()
 export class JobsService {
   constructor(
     @InjectRepository(Job)
     private readonly jobRepository: Repository<Job>,
     private readonly schedulerService: SchedulerService,
+    private readonly jobHandlerRegistry: JobHandlerRegistry,
+    private readonly artifactsService: ArtifactsService,
+    private readonly jobEventsService: JobEventsService,
+    private readonly tenantQuotasService: TenantQuotasService,
+    private readonly auditService: AuditService,
   ) {}
 
-  async create(createJobDto: CreateJobDto): Promise<Job> {
+  async create(
+    tenantId: string,
+    createJobDto: CreateJobDto,
+    actor: AuditActor,
+  ): Promise<Job> {
+    this.assertKnownType(createJobDto.type);
+    this.assertValidMetadata(createJobDto.type, createJobDto.metadata);
+    this.tenantQuotasService.assertJobWithinQuotas({
+      ...createJobDto,
+      tenantId,
+    });
+    await this.tenantQuotasService.assertCanActivate(tenantId);
+
     try {
-      const job = this.jobRepository.create(createJobDto);
-      const savedJob = await this.jobRepository.save(job);
+      const job = this.jobRepository.create({ ...createJobDto, tenantId });
+      this.assertValidBounds(job);
 
       // Calculate next run time
-      const nextRunAt = this.schedulerService.calculateNextRun(
-        savedJob.schedule,
+      job.nextRunAt = this.schedulerService.calculateNextRun(job);
+      if (!job.nextRunAt) {
+        throw new Error('Schedule has no upcoming occurrences');
+      }
+      const savedJob = await this.jobRepository.manager.transaction(
+        async (manager) => {
+          const saved = await manager.save(job);
+          await this.auditService.record(
+            { action: AuditAction.CREATED, job: saved, before: null, actor },
+            manager,
+          );
+          return saved;
+        },
       );
-      savedJob.nextRunAt = nextRunAt;
-      await this.jobRepository.save(savedJob);
+      this.jobEventsService.emit({ type: JobEventType.CREATED, job: savedJob });
 
       // Schedule the job
       await this.schedulerService.scheduleJob(savedJob);
@@ -42,15 +123,18 @@ export class JobsService {
   }
 
   async findAll(
+    tenantId: string,
     page: number = 1,
     limit: number = 50,
     status?: JobStatus,
   ): Promise<{ jobs: Job[]; total: number; page: number; limit: number }> {
     const skip = (page - 1) * limit;
-    const queryBuilder = this.jobRepository.createQueryBuilder('job');
+    const queryBuilder = this.jobRepository
+      .createQueryBuilder('job')
+      .where('job.tenantId = :tenantId', { tenantId });
 
     if (status) {
-      queryBuilder.where('job.status = :status', { status });
+      queryBuilder.andWhere('job.status = :status', { status });
     }
 
     const [jobs, total] = await queryBuilder
@@ -67,11 +151,30 @@ export class JobsService {
     };
   }
 
-  async findOne(id: string): Promise<Job> {
+  /** Jobs that ran out of attempts, most recently failed first. */
+  async findDeadLetter(
+    tenantId: string,
+    page: number = 1,
+    limit: number = 50,
+  ): Promise<{ jobs: Job[]; total: number; page: number; limit: number }> {
+    const [jobs, total] = await this.jobRepository
+      .createQueryBuilder('job')
+      .where('job.tenantId = :tenantId', { tenantId })
+      .andWhere('job.status = :status', { status: JobStatus.FAILED })
+      .orderBy('job.failedAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { jobs, total, page, limit };
+  }
+
+  async findOne(tenantId: string, id: string): Promise<Job> {
     // Use query builder for better performance with indexes
     const job = await this.jobRepository
       .createQueryBuilder('job')
       .where('job.id = :id', { id })
+      .andWhere('job.tenantId = :tenantId', { tenantId })
       .getOne();
 
     if (!job) {
@@ -80,48 +183,246 @@ export class JobsService {
     return job;
   }
 
-  async update(id: string, updateJobDto: UpdateJobDto): Promise<Job> {
-    const job = await this.findOne(id);
+  async update(
+    tenantId: string,
+    id: string,
+    updateJobDto: UpdateJobDto,
+    actor: AuditActor,
+  ): Promise<Job> {
+    let scheduleChanged = false;
+    const job = await this.modify(
+      tenantId,
+      id,
+      AuditAction.UPDATED,
+      actor,
+      async (job) => {
+        if (QUOTA_FIELDS.some((field) => updateJobDto[field] !== undefined)) {
+          this.tenantQuotasService.assertJobWithinQuotas({
+            ...job,
+            ...updateJobDto,
+          });
+        }
+        if (updateJobDto.type !== undefined) {
+          this.assertKnownType(updateJobDto.type);
+        }
+        if (
+          updateJobDto.type !== undefined ||
+          updateJobDto.metadata !== undefined
+        ) {
+          this.assertValidMetadata(
+            updateJobDto.type ?? job.type,
+            updateJobDto.metadata ?? job.metadata,
+          );
+          // A checkpoint describes progress through the old inputs
+          job.checkpoint = null;
+          job.progress = null;
+        }
+
+        // If the schedule or its bounds are updated, reschedule the job
+        scheduleChanged = SCHEDULE_FIELDS.some(
+          (field) =>
+            updateJobDto[field] !== undefined &&
+            updateJobDto[field]?.valueOf() !== job[field]?.valueOf(),
+        );
+        const wasActive = job.status === JobStatus.ACTIVE;
+        Object.assign(job, updateJobDto);
+        if (!scheduleChanged) {
+          return;
+        }
+
+        this.assertValidBounds(job);
+        job.nextRunAt = this.schedulerService.calculateNextRun(job);
+        job.catchUpRemaining = 0; // Catch-up runs belong to the old schedule
+
+        // A new schedule can revive a completed job, or exhaust an active one
+        if (
+          job.status === JobStatus.ACTIVE ||
+          job.status === JobStatus.COMPLETED
+        ) {
+          job.status = job.nextRunAt ? JobStatus.ACTIVE : JobStatus.COMPLETED;
+        }
+        if (!wasActive && job.status === JobStatus.ACTIVE) {
+          await this.tenantQuotasService.assertCanActivate(tenantId, 1, job.id);
+        }
+      },
+    );
 
-    // If schedule is updated, reschedule the job
-    if (updateJobDto.schedule && updateJobDto.schedule !== job.schedule) {
+    if (scheduleChanged) {
       await this.schedulerService.unscheduleJob(job.id);
-      Object.assign(job, updateJobDto);
-      const nextRunAt = this.schedulerService.calculateNextRun(job.schedule);
-      job.nextRunAt = nextRunAt;
-      await this.jobRepository.save(job);
       await this.schedulerService.scheduleJob(job);
-    } else {
-      Object.assign(job, updateJobDto);
-      await this.jobRepository.save(job);
     }
-
+    this.jobEventsService.emit({ type: JobEventType.UPDATED, job });
     return job;
   }
 
-  async remove(id: string): Promise<void> {
-    const job = await this.findOne(id);
+  async remove(tenantId: string, id: string, actor: AuditActor): Promise<void> {
+    const job = await this.findOne(tenantId, id);
+    if (job.workflowId) {
+      throw new ConflictException(
+        `Job with ID ${id} is a node of workflow ${job.workflowId}; delete the workflow instead`,
+      );
+    }
     await this.schedulerService.unscheduleJob(job.id);
-    await this.jobRepository.remove(job);
+    await this.artifactsService.removeForJob(job.id);
+    await this.jobRepository.manager.transaction(async (manager) => {
+      await this.auditService.record(
+        { action: AuditAction.DELETED, job, before: job, actor },
+        manager,
+      );
+      await manager.remove(job);
+    });
   }
 
-  async pause(id: string): Promise<Job> {
-    const job = await this.findOne(id);
-    job.status = JobStatus.PAUSED;
+  async pause(tenantId: string, id: string, actor: AuditActor): Promise<Job> {
+    const job = await this.modify(
+      tenantId,
+      id,
+      AuditAction.PAUSED,
+      actor,
+      (job) => {
+        if (job.status !== JobStatus.ACTIVE) {
+          throw new ConflictException(
+            `Job with ID ${id} cannot be paused while ${job.status}`,
+          );
+        }
+        job.status = JobStatus.PAUSED;
+      },
+    );
     await this.schedulerService.unscheduleJob(job.id);
-    return this.jobRepository.save(job);
+    this.jobEventsService.emit({ type: JobEventType.PAUSED, job });
+    return job;
   }
 
-  async resume(id: string): Promise<Job> {
-    const job = await this.findOne(id);
-    if (job.status === JobStatus.PAUSED) {
-      job.status = JobStatus.ACTIVE;
-      const nextRunAt = this.schedulerService.calculateNextRun(job.schedule);
-      job.nextRunAt = nextRunAt;
-      await this.jobRepository.save(job);
-      await this.schedulerService.scheduleJob(job);
+  async resume(tenantId: string, id: string, actor: AuditActor): Promise<Job> {
+    const job = await this.modify(
+      tenantId,
+      id,
+      AuditAction.RESUMED,
+      actor,
+      async (job) => {
+        if (job.status !== JobStatus.PAUSED) {
+          throw new ConflictException(
+            `Job with ID ${id} is not paused (current status: ${job.status})`,
+          );
+        }
+        job.nextRunAt = this.schedulerService.calculateNextRun(job);
+        if (job.nextRunAt) {
+          await this.tenantQuotasService.assertCanActivate(tenantId, 1, job.id);
+        }
+        job.status = job.nextRunAt ? JobStatus.ACTIVE : JobStatus.COMPLETED;
+      },
+    );
+    this.jobEventsService.emit({ type: JobEventType.RESUMED, job });
+    await this.schedulerService.scheduleJob(job);
+    return job;
+  }
+
+  /** Requests the job's running execution to be aborted. */
+  async cancel(tenantId: string, id: string): Promise<Job> {
+    const job = await this.findOne(tenantId, id);
+    if (!(await this.schedulerService.cancelExecution(job.id))) {
+      throw new ConflictException(`Job with ID ${id} is not running`);
     }
+    return this.findOne(tenantId, id);
+  }
+
+  /**
+   * Moves a dead-lettered job back into the schedule, to run right away. A
+   * failed job has no runs in progress, so its attempts can be reset.
+   */
+  async requeue(tenantId: string, id: string, actor: AuditActor): Promise<Job> {
+    const job = await this.modify(
+      tenantId,
+      id,
+      AuditAction.TRIGGERED,
+      actor,
+      async (job) => {
+        if (job.status !== JobStatus.FAILED) {
+          throw new ConflictException(
+            `Job with ID ${id} is not in the dead-letter queue (current status: ${job.status})`,
+          );
+        }
+        await this.tenantQuotasService.assertCanActivate(tenantId, 1, job.id);
+        job.status = JobStatus.ACTIVE;
+        job.attempt = 1;
+        job.failureCount = 0;
+        job.failedAt = null;
+        job.nextRunAt = new Date();
+      },
+    );
+    await this.schedulerService.scheduleJob(job);
     return job;
   }
+
+  /**
+   * Changes the job in one transaction with its audit entry. `apply` is
+   * handed the job as read under a row lock, and only the writable columns
+   * it changed are written: the lease and the run bookkeeping the scheduler
+   * maintains meanwhile are never overwritten from here.
+   */
+  private async modify(
+    tenantId: string,
+    id: string,
+    action: AuditAction,
+    actor: AuditActor,
+    apply: (job: Job) => void | Promise<void>,
+  ): Promise<Job> {
+    return this.jobRepository.manager.transaction(async (manager) => {
+      const job = await manager
+        .createQueryBuilder(Job, 'job')
+        .setLock('pessimistic_write')
+        .where('job.id = :id', { id })
+        .andWhere('job.tenantId = :tenantId', { tenantId })
+        .getOne();
+      if (!job) {
+        throw new NotFoundException(`Job with ID ${id} not found`);
+      }
+
+      const before = { ...job };
+      await apply(job);
+      const changes = Object.fromEntries(
+        WRITABLE_FIELDS.filter(
+          (field) => !isDeepStrictEqual(before[field], job[field]),
+        ).map((field) => [field, job[field]]),
+      );
+      if (Object.keys(changes).length > 0) {
+        await manager.update(Job, { id, tenantId }, changes);
+      }
+      await this.auditService.record({ action, job, before, actor }, manager);
+      return job;
+    });
+  }
+
+  // Internal types, such as workflow triggers, can't be created or set here
+  private assertKnownType(type: string): void {
+    if (
+      !this.jobHandlerRegistry.has(type) ||
+      this.jobHandlerRegistry.get(type).options.internal
+    ) {
+      const registered = this.jobHandlerRegistry
+        .list()
+        .filter((registration) => !registration.options.internal)
+        .map((registration) => registration.type);
+      throw new BadRequestException(
+        `Unknown job type "${type}". Registered types: ${registered.join(', ')}`,
+      );
+    }
+  }
+
+  private assertValidMetadata(
+    type: string,
+    metadata: Record<string, any>,
+  ): void {
+    const errors = this.jobHandlerRegistry.validateMetadata(type, metadata);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+  }
+
+  private assertValidBounds(job: Job): void {
+    if (job.startAt && job.endAt && job.endAt <= job.startAt) {
+      throw new BadRequestException('endAt must be after startAt');
+    }
+  }
 }
 
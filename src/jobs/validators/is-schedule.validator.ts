@@ -0,0 +1,43 @@
+import {
+  registerDecorator,
+  ValidationArguments,
+  ValidationOptions,
+} from 'class-validator';
+import { parseSchedule } from '../../scheduler/schedule/schedule';
+
+/** Returns why `schedule` cannot be scheduled, or null if it is valid. */
+function getScheduleError(schedule: unknown): string | null {
+  if (typeof schedule !== 'string') {
+    return 'must be a string';
+  }
+
+  try {
+    parseSchedule(schedule);
+    return null;
+  } catch (error) {
+    return error.message;
+  }
+}
+
+/**
+ * Checks that the value is a schedule the scheduler understands: a cron
+ * expression, an ISO 8601 duration or repeating interval, or a timestamp.
+ */
+export function IsSchedule(validationOptions?: ValidationOptions) {
+  return (object: object, propertyName: string) => {
+    registerDecorator({
+      name: 'isSchedule',
+      target: object.constructor,
+      propertyName,
+      options: validationOptions,
+      validator: {
+        validate(value: unknown) {
+          return getScheduleError(value) === null;
+        },
+        defaultMessage(args: ValidationArguments) {
+          return `${args.property} is invalid: ${getScheduleError(args.value)}`;
+        },
+      },
+    });
+  };
+}
@@ -0,0 +1,63 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { MAIL_TEMPLATES, MailTemplate } from './mail-templates';
+
+/** Thrown when no template of the given name exists. */
+export class TemplateNotFoundError extends Error {
+  constructor(name: string) {
+    super(`Unknown mail template "${name}"`);
+    this.name = 'TemplateNotFoundError';
+  }
+}
+
+/**
+ * Looks up mail templates: a file `<name>.json` in MAIL_TEMPLATES_DIR, with
+ * `subject`, `text` and optionally `html`, else a built-in template. Files
+ * are read on each use, so edits apply without a restart.
+ */
+@Injectable()
+export class MailTemplatesService {
+  private readonly directory: string | undefined;
+
+  constructor(configService: ConfigService) {
+    this.directory = configService.get('MAIL_TEMPLATES_DIR');
+  }
+
+  async get(name: string): Promise<MailTemplate> {
+    if (this.directory) {
+      try {
+        const content = await readFile(
+          join(this.directory, `${name}.json`),
+          'utf8',
+        );
+        return this.parse(name, content);
+      } catch (error) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+
+    const template = MAIL_TEMPLATES[name];
+    if (!template) {
+      throw new TemplateNotFoundError(name);
+    }
+    return template;
+  }
+
+  private parse(name: string, content: string): MailTemplate {
+    const { subject, text, html } = JSON.parse(content);
+    if (
+      typeof subject !== 'string' ||
+      typeof text !== 'string' ||
+      (html !== undefined && typeof html !== 'string')
+    ) {
+      throw new Error(
+        `Invalid mail template "${name}": subject and text must be strings`,
+      );
+    }
+    return { subject, text, html };
+  }
+}
@@ -0,0 +1,67 @@
+export interface MailTemplate {
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Built-in templates; `{{path}}` placeholders are filled in from the job
+// and its `variables`
+export const MAIL_TEMPLATES: Record<string, MailTemplate> = {
+  'default-template': {
+    subject: '{{job.name}}',
+    text: 'This is a notification from scheduled job {{job.name}}.',
+  },
+  alert: {
+    subject: '[Alert] {{job.name}}: {{title}}',
+    text: '{{message}}\n\nSent by scheduled job {{job.name}} at {{sentAt}}.',
+    html: '<p>{{message}}</p><p><small>Sent by scheduled job {{job.name}} at {{sentAt}}.</small></p>',
+  },
+};
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/** Thrown when a template refers to variables that weren't provided. */
+export class TemplateRenderError extends Error {
+  constructor(readonly missing: string[]) {
+    super(`Missing template variables: ${missing.join(', ')}`);
+    this.name = 'TemplateRenderError';
+  }
+}
+
+/**
+ * Fills in the template's placeholders with values from `context`, looked up
+ * by dotted path. Objects are inserted as JSON; with `escapeHtml`, values
+ * are escaped for inclusion in HTML.
+ */
+export function renderTemplate(
+  template: string,
+  context: Record<string, any>,
+  { escapeHtml = false }: { escapeHtml?: boolean } = {},
+): string {
+  const missing = new Set<string>();
+  const rendered = template.replace(PLACEHOLDER, (_, path: string) => {
+    const value = path
+      .split('.')
+      .reduce((object, key) => object?.[key], context);
+    if (value === undefined || value === null) {
+      missing.add(path);
+      return '';
+    }
+    const text = typeof value === 'object' ? JSON.stringify(value) : `${value}`;
+    return escapeHtml ? escape(text) : text;
+  });
+
+  if (missing.size > 0) {
+    throw new TemplateRenderError([...missing]);
+  }
+  return rendered;
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
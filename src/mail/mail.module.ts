@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { MailService } from './mail.service';
+import { MailTemplatesService } from './mail-templates.service';
+
+@Module({
+  providers: [MailService, MailTemplatesService],
+  exports: [MailService, MailTemplatesService],
+})
+export class MailModule {}
@@ -0,0 +1,146 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import {
+  RecipientResult,
+  RecipientStatus,
+  SmtpConnection,
+  SmtpOptions,
+} from './smtp-client';
+
+export interface MailMessage {
+  from?: string; // Defaults to SMTP_FROM
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailDelivery {
+  messageId: string;
+  transport: 'smtp' | 'log';
+  recipients: RecipientResult[];
+}
+
+/**
+ * Sends mail through the SMTP server configured with SMTP_HOST. Without one,
+ * messages are only logged, as in development.
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly smtpOptions: SmtpOptions | null;
+  private readonly defaultFrom: string;
+
+  constructor(configService: ConfigService) {
+    const host = configService.get<string>('SMTP_HOST');
+    const secure = configService.get('SMTP_SECURE', 'false') === 'true';
+    this.smtpOptions = host
+      ? {
+          host,
+          port: Number(configService.get('SMTP_PORT', secure ? 465 : 587)),
+          secure,
+          requireTls: configService.get('SMTP_REQUIRE_TLS', 'false') === 'true',
+          user: configService.get('SMTP_USER'),
+          password: configService.get('SMTP_PASSWORD'),
+          rejectUnauthorized:
+            configService.get('SMTP_TLS_REJECT_UNAUTHORIZED', 'true') !==
+            'false',
+          timeoutMs: Number(configService.get('SMTP_TIMEOUT_MS', 30000)),
+          clientName: hostname(),
+        }
+      : null;
+    this.defaultFrom = configService.get(
+      'SMTP_FROM',
+      `scheduler@${hostname()}`,
+    );
+  }
+
+  /**
+   * Sends the message, reporting each recipient's outcome. Throws if the
+   * server can't be reached or refuses the message as a whole.
+   */
+  async send(message: MailMessage, signal: AbortSignal): Promise<MailDelivery> {
+    const from = message.from ?? this.defaultFrom;
+    const messageId = `<${randomUUID()}@${from.split('@')[1] ?? hostname()}>`;
+
+    if (!this.smtpOptions) {
+      this.logger.log(
+        `No SMTP server configured; not sending "${message.subject}" to ${message.to.join(', ')}`,
+      );
+      return {
+        messageId,
+        transport: 'log',
+        recipients: message.to.map((address) => ({
+          address,
+          status: RecipientStatus.ACCEPTED,
+          code: 250,
+          message: 'Logged only',
+        })),
+      };
+    }
+
+    const connection = await SmtpConnection.open(this.smtpOptions, signal);
+    try {
+      const recipients = await connection.send(
+        { from, recipients: message.to },
+        this.format({ ...message, from }, messageId),
+      );
+      await connection.quit();
+      return { messageId, transport: 'smtp', recipients };
+    } finally {
+      connection.close();
+    }
+  }
+
+  /** Formats the message as MIME, with base64 UTF-8 parts. */
+  private format(message: MailMessage, messageId: string): string {
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to.join(', ')}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: ${messageId}`,
+      'MIME-Version: 1.0',
+    ];
+    const part = (type: string, content: string) =>
+      [
+        `Content-Type: ${type}; charset=utf-8`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        base64Lines(content),
+      ].join('\r\n');
+
+    if (!message.html) {
+      return [...headers, part('text/plain', message.text)].join('\r\n');
+    }
+    const boundary = `=_${randomUUID()}`;
+    return [
+      ...headers,
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      part('text/plain', message.text),
+      `--${boundary}`,
+      part('text/html', message.html),
+      `--${boundary}--`,
+    ].join('\r\n');
+  }
+}
+
+/** Encodes a header value as an RFC 2047 encoded word if it isn't ASCII. */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function base64Lines(content: string): string {
+  return (
+    Buffer.from(content)
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join('\r\n') ?? ''
+  );
+}
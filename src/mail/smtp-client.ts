@@ -0,0 +1,332 @@
+import { Socket, connect as netConnect } from 'net';
+import { TLSSocket, connect as tlsConnect } from 'tls';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS when offered
+  requireTls: boolean; // Refuse to send over a connection STARTTLS didn't upgrade
+  user?: string;
+  password?: string;
+  rejectUnauthorized: boolean;
+  timeoutMs: number; // Inactivity timeout of the connection
+  clientName: string; // Name announced in EHLO
+}
+
+export interface SmtpReply {
+  code: number;
+  message: string;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  recipients: string[];
+}
+
+export enum RecipientStatus {
+  ACCEPTED = 'accepted',
+  DEFERRED = 'deferred', // Temporarily refused (4xx); may succeed later
+  REJECTED = 'rejected', // Permanently refused (5xx), e.g. unknown mailbox
+}
+
+export interface RecipientResult extends SmtpReply {
+  address: string;
+  status: RecipientStatus;
+}
+
+/** Thrown when the server refuses a command with a permanent (5xx) reply. */
+export class SmtpError extends Error {
+  readonly code: string;
+
+  constructor(
+    command: string,
+    readonly reply: SmtpReply,
+  ) {
+    super(`SMTP ${command} failed: ${reply.code} ${reply.message}`);
+    this.name = new.target.name;
+    this.code = `SMTP_${reply.code}`; // e.g. SMTP_550, for retryableErrors
+  }
+}
+
+/** Thrown when the server refuses a command with a transient (4xx) reply. */
+export class SmtpTransientError extends SmtpError {}
+
+/**
+ * A minimal SMTP client (RFC 5321) speaking to a single server: EHLO,
+ * STARTTLS, AUTH PLAIN/LOGIN, and one message per connection.
+ */
+export class SmtpConnection {
+  private socket: Socket | TLSSocket;
+  private secure: boolean;
+  private buffer = '';
+  private lines: string[] = [];
+  private readonly replies: SmtpReply[] = [];
+  private waiter: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private error: Error | null = null;
+  private extensions = new Set<string>();
+  private authMethods = new Set<string>();
+
+  private constructor(
+    private readonly options: SmtpOptions,
+    private readonly signal: AbortSignal,
+  ) {}
+
+  /** Connects, greets the server and upgrades and authenticates as configured. */
+  static async open(
+    options: SmtpOptions,
+    signal: AbortSignal,
+  ): Promise<SmtpConnection> {
+    const connection = new SmtpConnection(options, signal);
+    await connection.connect();
+    try {
+      await connection.handshake();
+    } catch (error) {
+      connection.close();
+      throw error;
+    }
+    return connection;
+  }
+
+  /**
+   * Sends one message. Recipients the server refuses are reported rather
+   * than thrown; the message is sent if any recipient is accepted.
+   */
+  async send(
+    envelope: SmtpEnvelope,
+    message: string,
+  ): Promise<RecipientResult[]> {
+    await this.command(`MAIL FROM:<${envelope.from}>`, [250]);
+
+    const results: RecipientResult[] = [];
+    for (const address of envelope.recipients) {
+      const reply = await this.exchange(`RCPT TO:<${address}>`);
+      results.push({
+        address,
+        status:
+          reply.code === 250 || reply.code === 251
+            ? RecipientStatus.ACCEPTED
+            : reply.code < 500
+              ? RecipientStatus.DEFERRED
+              : RecipientStatus.REJECTED,
+        ...reply,
+      });
+    }
+
+    if (results.some(({ status }) => status === RecipientStatus.ACCEPTED)) {
+      await this.command('DATA', [354]);
+      // Lines starting with a dot are escaped so they don't end the data
+      const data = message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+      await this.command(`${data}\r\n.`, [250]);
+    } else {
+      await this.command('RSET', [250]);
+    }
+    return results;
+  }
+
+  /** Says goodbye to the server and closes the connection. */
+  async quit(): Promise<void> {
+    try {
+      await this.exchange('QUIT');
+    } catch {
+      // The message went out already; a rude goodbye doesn't matter
+    } finally {
+      this.close();
+    }
+  }
+
+  close(): void {
+    this.socket?.destroy();
+  }
+
+  private async handshake(): Promise<void> {
+    this.expect('greeting', await this.read(), [220]);
+    await this.ehlo();
+
+    if (!this.secure && this.extensions.has('STARTTLS')) {
+      await this.command('STARTTLS', [220]);
+      await this.upgrade();
+      await this.ehlo();
+    }
+    if (!this.secure && this.options.requireTls) {
+      throw new Error(
+        `SMTP server ${this.options.host} does not support STARTTLS`,
+      );
+    }
+
+    if (this.options.user) {
+      await this.authenticate();
+    }
+  }
+
+  private async ehlo(): Promise<void> {
+    const reply = await this.command(`EHLO ${this.options.clientName}`, [250]);
+    const [, ...extensions] = reply.message.split('\n');
+    this.extensions = new Set();
+    this.authMethods = new Set();
+    for (const extension of extensions) {
+      const [keyword, ...params] = extension.trim().toUpperCase().split(/\s+/);
+      this.extensions.add(keyword);
+      if (keyword === 'AUTH') {
+        params.forEach((method) => this.authMethods.add(method));
+      }
+    }
+  }
+
+  private async authenticate(): Promise<void> {
+    const { user, password = '' } = this.options;
+    if (this.authMethods.has('PLAIN')) {
+      const credentials = Buffer.from(`\0${user}\0${password}`).toString(
+        'base64',
+      );
+      await this.command(`AUTH PLAIN ${credentials}`, [235]);
+    } else if (this.authMethods.has('LOGIN')) {
+      await this.command('AUTH LOGIN', [334]);
+      await this.command(Buffer.from(user).toString('base64'), [334], {
+        redacted: true,
+      });
+      await this.command(Buffer.from(password).toString('base64'), [235], {
+        redacted: true,
+      });
+    } else {
+      throw new Error(
+        `SMTP server ${this.options.host} offers no supported AUTH method`,
+      );
+    }
+  }
+
+  private async command(
+    line: string,
+    expected: number[],
+    { redacted = false }: { redacted?: boolean } = {},
+  ): Promise<SmtpReply> {
+    const reply = await this.exchange(line);
+    const name = redacted ? 'AUTH' : line.split(/[\s:]/, 1)[0];
+    return this.expect(line.includes('\r\n') ? 'DATA' : name, reply, expected);
+  }
+
+  private expect(
+    command: string,
+    reply: SmtpReply,
+    expected: number[],
+  ): SmtpReply {
+    if (!expected.includes(reply.code)) {
+      throw reply.code < 500
+        ? new SmtpTransientError(command, reply)
+        : new SmtpError(command, reply);
+    }
+    return reply;
+  }
+
+  private exchange(line: string): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.read();
+  }
+
+  private read(): Promise<SmtpReply> {
+    if (this.replies.length > 0) {
+      return Promise.resolve(this.replies.shift());
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  private connect(): Promise<void> {
+    const { host, port, secure, rejectUnauthorized } = this.options;
+    this.secure = secure;
+    const socket = secure
+      ? tlsConnect({ host, port, servername: host, rejectUnauthorized })
+      : netConnect({ host, port });
+    return this.attach(socket, secure ? 'secureConnect' : 'connect');
+  }
+
+  private upgrade(): Promise<void> {
+    const { host, rejectUnauthorized } = this.options;
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('timeout');
+    this.secure = true;
+    return this.attach(
+      tlsConnect({ socket: plain, servername: host, rejectUnauthorized }),
+      'secureConnect',
+    );
+  }
+
+  /** Wires up the socket and resolves once it's connected. */
+  private attach(socket: Socket, event: string): Promise<void> {
+    this.socket = socket;
+    socket.setTimeout(this.options.timeoutMs);
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString()));
+    socket.on('timeout', () =>
+      this.fail(
+        Object.assign(new Error('SMTP connection timed out'), {
+          code: 'ETIMEDOUT',
+        }),
+      ),
+    );
+    socket.on('close', () =>
+      this.fail(new Error('SMTP connection closed unexpectedly')),
+    );
+
+    const onAbort = () => this.fail(this.signal.reason);
+    this.signal.addEventListener('abort', onAbort, { once: true });
+    socket.on('close', () => this.signal.removeEventListener('abort', onAbort));
+    if (this.signal.aborted) {
+      onAbort();
+    }
+
+    return new Promise((resolve, reject) => {
+      socket.once(event, resolve);
+      socket.on('error', (error) => {
+        this.fail(error);
+        reject(error);
+      });
+    });
+  }
+
+  /** Splits incoming data into replies; a reply's last line has a space after its code. */
+  private receive(data: string): void {
+    this.buffer += data;
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.lines.push(line);
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = {
+          code: Number(line.slice(0, 3)),
+          message: this.lines.map((part) => part.slice(4)).join('\n'),
+        };
+        this.lines = [];
+        this.deliver(reply);
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.error ??= error;
+    this.socket.destroy();
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(this.error);
+    }
+  }
+}
@@ -1,10 +1,23 @@
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import { AppModule } from './app.module';
+import { JobHandlerRegistry } from './scheduler/handlers/job-handler.registry';
+import { addJobTypeSchemas } from './scheduler/job-types.swagger';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Behind a proxy, client addresses (e.g. in the audit log) are taken from
+  // X-Forwarded-For: TRUST_PROXY is a hop count, or the proxies' addresses
+  const trustProxy = process.env.TRUST_PROXY;
+  if (trustProxy) {
+    app.set(
+      'trust proxy',
+      /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy.split(','),
+    );
+  }
 
   // Global validation pipe
   app.useGlobalPipes(
@@ -15,11 +28,13 @@ async function bootstrap() {
     }),
   );
 
-  // CORS configuration for scalability
+  // CORS configuration for scalability. Requests authenticate with headers,
+  // not cookies, so browsers are not sent credentials
   app.enableCors({
-    origin: '*',
+    origin: process.env.CORS_ORIGINS?.split(',') ?? '*',
     methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
-    credentials: true,
+    allowedHeaders: 'Authorization,Content-Type,Last-Event-ID,X-API-Key',
+    credentials: false,
   });
 
   // Swagger API Documentation
@@ -28,8 +43,35 @@ async function bootstrap() {
     .setDescription('Job Scheduler Microservice API Documentation')
     .setVersion('1.0')
     .addTag('jobs')
+    .addTag('runs')
+    .addTag('job-types')
+    .addTag('scheduler')
+    .addTag('workflows')
+    .addTag('artifacts')
+    .addTag('subscriptions')
+    .addTag('events')
+    .addTag('metrics')
+    .addTag('health')
+    .addTag('api-keys')
+    .addTag('audit')
+    .addApiKey({ type: 'apiKey', in: 'header', name: 'X-API-Key' }, 'api-key')
+    .addBearerAuth(
+      {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'An API key, or a JWT when JWT_SECRET is set',
+      },
+      'bearer',
+    )
+    .addSecurityRequirements('api-key')
+    .addSecurityRequirements('bearer')
     .build();
-  const document = SwaggerModule.createDocument(app, config);
+  // Job handlers are discovered during initialization
+  await app.init();
+  const document = addJobTypeSchemas(
+    SwaggerModule.createDocument(app, config),
+    app.get(JobHandlerRegistry).list(),
+  );
   SwaggerModule.setup('api', app, document);
 
   const port = process.env.PORT || 3000;
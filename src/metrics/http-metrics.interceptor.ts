@@ -0,0 +1,46 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { Observable, tap } from 'rxjs';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Records the count and duration of the requests a controller handles, by
+ * method, route pattern (e.g. `/jobs/:id`, to keep the number of series
+ * bounded) and response status.
+ */
+@Injectable()
+export class HttpMetricsInterceptor implements NestInterceptor {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const start = process.hrtime.bigint();
+    const record = (status: number) =>
+      this.metricsService.recordHttpRequest(
+        request.method,
+        request.route?.path ?? request.path,
+        status,
+        Number(process.hrtime.bigint() - start) / 1e9,
+      );
+
+    return next.handle().pipe(
+      tap({
+        complete: () => record(http.getResponse<Response>().statusCode),
+        error: (error) =>
+          record(
+            error instanceof HttpException
+              ? error.getStatus()
+              : HttpStatus.INTERNAL_SERVER_ERROR,
+          ),
+      }),
+    );
+  }
+}
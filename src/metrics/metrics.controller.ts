@@ -0,0 +1,31 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiProduces,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { MetricsService } from './metrics.service';
+import { RequireScopes } from '../auth/auth.decorators';
+import { ApiScope } from '../auth/entities/api-key.entity';
+
+@ApiTags('metrics')
+@RequireScopes(ApiScope.METRICS_READ)
+@Controller('metrics')
+export class MetricsController {
+  constructor(private readonly metricsService: MetricsService) {}
+
+  @Get()
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  @ApiOperation({
+    summary: "This instance's metrics, for Prometheus to scrape",
+  })
+  @ApiProduces('text/plain')
+  @ApiResponse({
+    status: 200,
+    description: 'Metrics in the Prometheus text exposition format',
+  })
+  getMetrics(): string {
+    return this.metricsService.render();
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { MetricsService } from './metrics.service';
+import { MetricsController } from './metrics.controller';
+import { HttpMetricsInterceptor } from './http-metrics.interceptor';
+import { EventsModule } from '../events/events.module';
+
+@Module({
+  imports: [EventsModule],
+  controllers: [MetricsController],
+  providers: [MetricsService, HttpMetricsInterceptor],
+  exports: [MetricsService, HttpMetricsInterceptor],
+})
+export class MetricsModule {}
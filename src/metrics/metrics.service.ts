@@ -0,0 +1,134 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { Counter, Gauge, Histogram, MetricsRegistry } from './metrics';
+import {
+  JobEvent,
+  JobEventType,
+  JobEventsService,
+} from '../events/job-events.service';
+
+// Bucket bounds in seconds, for requests and queries, and for job runs
+const LATENCY_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+const RUN_BUCKETS = [0.1, 0.5, 1, 5, 10, 30, 60, 300, 600, 1800, 3600];
+const LAG_BUCKETS = [0.01, 0.05, 0.1, 0.5, 1, 5, 10, 30, 60, 300];
+
+/**
+ * Metrics of this instance, exposed at `GET /metrics` for Prometheus. Run
+ * metrics are taken from job events; other modules record theirs through
+ * this service.
+ */
+@Injectable()
+export class MetricsService implements OnModuleInit, OnModuleDestroy {
+  private readonly registry = new MetricsRegistry();
+  private subscription: Subscription;
+
+  private readonly jobRuns = this.registry.register(
+    new Counter('scheduler_job_runs_total', 'Finished job runs', [
+      'type',
+      'status',
+    ]),
+  );
+  private readonly jobRunDuration = this.registry.register(
+    new Histogram(
+      'scheduler_job_run_duration_seconds',
+      'Duration of finished job runs',
+      ['type', 'status'],
+      RUN_BUCKETS,
+    ),
+  );
+  private readonly scheduleLag = this.registry.register(
+    new Histogram(
+      'scheduler_schedule_lag_seconds',
+      'Delay between the time a job run was due and its start',
+      ['type'],
+      LAG_BUCKETS,
+    ),
+  );
+  private readonly queryDuration = this.registry.register(
+    new Histogram(
+      'scheduler_db_query_duration_seconds',
+      "Duration of the scheduler's database queries",
+      ['operation'],
+      LATENCY_BUCKETS,
+    ),
+  );
+  private readonly httpRequests = this.registry.register(
+    new Counter('http_requests_total', 'Handled HTTP requests', [
+      'method',
+      'route',
+      'status',
+    ]),
+  );
+  private readonly httpRequestDuration = this.registry.register(
+    new Histogram(
+      'http_request_duration_seconds',
+      'Duration of handled HTTP requests',
+      ['method', 'route', 'status'],
+      LATENCY_BUCKETS,
+    ),
+  );
+
+  constructor(private readonly jobEventsService: JobEventsService) {}
+
+  onModuleInit() {
+    this.subscription = this.jobEventsService.events$.subscribe((event) =>
+      this.onJobEvent(event),
+    );
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /** Adds a gauge whose value is read each time metrics are collected. */
+  addGauge(name: string, help: string, collect: () => number): void {
+    this.registry.register(new Gauge(name, help, collect));
+  }
+
+  /** Runs a query, recording its duration, failed or not, under `operation`. */
+  async timeQuery<T>(operation: string, query: () => Promise<T>): Promise<T> {
+    const start = process.hrtime.bigint();
+    try {
+      return await query();
+    } finally {
+      this.queryDuration.observe({ operation }, secondsSince(start));
+    }
+  }
+
+  recordHttpRequest(
+    method: string,
+    route: string,
+    status: number,
+    durationSeconds: number,
+  ): void {
+    const labels = { method, route, status: String(status) };
+    this.httpRequests.inc(labels);
+    this.httpRequestDuration.observe(labels, durationSeconds);
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+
+  private onJobEvent({ type, job, run }: JobEvent): void {
+    if (type === JobEventType.RUN_STARTED) {
+      if (run.scheduledAt) {
+        this.scheduleLag.observe(
+          { type: job.type },
+          Math.max(0, run.startedAt.getTime() - run.scheduledAt.getTime()) /
+            1000,
+        );
+      }
+    } else if (run?.finishedAt) {
+      const labels = { type: job.type, status: run.status };
+      this.jobRuns.inc(labels);
+      this.jobRunDuration.observe(labels, (run.durationMs ?? 0) / 1000);
+    }
+  }
+}
+
+function secondsSince(start: bigint): number {
+  return Number(process.hrtime.bigint() - start) / 1e9;
+}
@@ -0,0 +1,174 @@
+export type Labels = Record<string, string>;
+
+// A line of a metric's exposition: name suffix, labels and value
+type Sample = [suffix: string, labels: Labels, value: number];
+
+/**
+ * A metric in the Prometheus text exposition format (version 0.0.4).
+ * Series are kept per combination of label values.
+ */
+abstract class Metric {
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[] = [],
+  ) {}
+
+  protected abstract samples(): Sample[];
+
+  render(): string {
+    const lines = [
+      `# HELP ${this.name} ${escapeHelp(this.help)}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const [suffix, labels, value] of this.samples()) {
+      lines.push(
+        `${this.name}${suffix}${formatLabels(labels)} ${formatValue(value)}`,
+      );
+    }
+    return lines.join('\n');
+  }
+
+  // Key of the series with the given labels; unknown labels are ignored
+  protected key(labels: Labels): string {
+    return JSON.stringify(this.labelNames.map((name) => labels[name] ?? ''));
+  }
+
+  protected labelsOf(key: string): Labels {
+    const values: string[] = JSON.parse(key);
+    return Object.fromEntries(
+      this.labelNames.map((name, index) => [name, values[index]]),
+    );
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private readonly values = new Map<string, number>();
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  protected samples(): Sample[] {
+    return [...this.values].map(([key, value]) => [
+      '',
+      this.labelsOf(key),
+      value,
+    ]);
+  }
+}
+
+/** A gauge read when metrics are collected. */
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+
+  constructor(
+    name: string,
+    help: string,
+    private readonly collect: () => number,
+  ) {
+    super(name, help);
+  }
+
+  protected samples(): Sample[] {
+    return [['', {}, this.collect()]];
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private readonly series = new Map<
+    string,
+    { counts: number[]; sum: number; count: number }
+  >();
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[],
+    // Upper bounds of the buckets, ascending; +Inf is implied
+    readonly buckets: number[],
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = this.key(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index] += 1;
+      }
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  protected samples(): Sample[] {
+    return [...this.series].flatMap(([key, { counts, sum, count }]) => {
+      const labels = this.labelsOf(key);
+      return [
+        ...this.buckets.map(
+          (bound, index): Sample => [
+            '_bucket',
+            { ...labels, le: String(bound) },
+            counts[index],
+          ],
+        ),
+        ['_bucket', { ...labels, le: '+Inf' }, count],
+        ['_sum', labels, sum],
+        ['_count', labels, count],
+      ];
+    });
+  }
+}
+
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  /** All metrics, in the Prometheus text format. */
+  render(): string {
+    return (
+      [...this.metrics.values()].map((metric) => metric.render()).join('\n') +
+      '\n'
+    );
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,124 @@
+import { createReadStream } from 'fs';
+
+/** Thrown when an input file holds something that isn't a valid record. */
+export class RecordParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordParseError';
+  }
+}
+
+/**
+ * Reads the file's lines from byte `start` on, with the byte offset just
+ * past each line, so that reading can later resume from there.
+ */
+export async function* readLines(
+  path: string,
+  start: number,
+  signal?: AbortSignal,
+): AsyncGenerator<{ line: string; end: number }> {
+  const stream = createReadStream(path, { start, signal });
+  let pending: Buffer = Buffer.alloc(0);
+  let offset = start;
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+    let index: number;
+    while ((index = pending.indexOf(0x0a)) !== -1) {
+      offset += index + 1;
+      const line = pending.subarray(0, index).toString('utf8');
+      pending = pending.subarray(index + 1);
+      yield { line: line.replace(/\r$/, ''), end: offset };
+    }
+  }
+  if (pending.length > 0) {
+    const line = pending.toString('utf8');
+    yield { line: line.replace(/\r$/, ''), end: offset + pending.length };
+  }
+}
+
+/**
+ * Reads CSV records (RFC 4180) from byte `start` on. Quoted fields may
+ * contain delimiters, doubled quotes and line breaks; blank lines are skipped.
+ */
+export async function* readCsvRecords(
+  path: string,
+  start: number,
+  delimiter: string,
+  signal?: AbortSignal,
+): AsyncGenerator<{ fields: string[]; end: number }> {
+  let text: string | null = null;
+  for await (const { line, end } of readLines(path, start, signal)) {
+    text = text === null ? line : `${text}\n${line}`;
+    // An odd number of quotes means a quoted field goes on on the next line
+    if ((text.match(/"/g)?.length ?? 0) % 2 === 1) {
+      continue;
+    }
+    if (text !== '') {
+      yield { fields: parseCsvRecord(text, delimiter), end };
+    }
+    text = null;
+  }
+  if (text !== null) {
+    throw new RecordParseError('Unterminated quoted field at end of file');
+  }
+}
+
+export function parseCsvRecord(text: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/** Reads NDJSON records, one JSON object per line, from byte `start` on. */
+export async function* readNdjsonRecords(
+  path: string,
+  start: number,
+  signal?: AbortSignal,
+): AsyncGenerator<{ record: Record<string, any>; end: number }> {
+  for await (const { line, end } of readLines(path, start, signal)) {
+    if (line.trim() === '') {
+      continue;
+    }
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      throw new RecordParseError(
+        `Invalid JSON in line ending at byte ${end}: ${error.message}`,
+      );
+    }
+    if (
+      typeof record !== 'object' ||
+      record === null ||
+      Array.isArray(record)
+    ) {
+      throw new RecordParseError(
+        `Line ending at byte ${end} is not a JSON object`,
+      );
+    }
+    yield { record: record as Record<string, any>, end };
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ReportsModule } from '../reports/reports.module';
+import { RecordSourcesService } from './record-sources.service';
+
+@Module({
+  imports: [ReportsModule],
+  providers: [RecordSourcesService],
+  exports: [RecordSourcesService],
+})
+export class RecordSourcesModule {}
@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { resolve, sep } from 'path';
+import { ReportDataService } from '../reports/report-data.service';
+import {
+  CsvRecordSource,
+  GeneratedRecordSource,
+  NdjsonRecordSource,
+  RecordSource,
+  RecordSourceType,
+  SqlRecordSource,
+} from './record-sources';
+
+export interface RecordSourceSpec {
+  type: RecordSourceType;
+  path?: string; // csv, ndjson: file relative to DATA_SOURCES_DIR
+  delimiter?: string; // csv
+  header?: boolean; // csv: whether the first record names the columns
+  query?: string; // sql: named query, as for reports
+  params?: any[]; // sql
+}
+
+/**
+ * Opens the inputs of data processing jobs. Files are read from
+ * DATA_SOURCES_DIR (./data) only, and queries are the named report queries,
+ * so jobs can't read arbitrary files or run arbitrary SQL.
+ */
+@Injectable()
+export class RecordSourcesService {
+  private readonly root: string;
+
+  constructor(
+    private readonly reportDataService: ReportDataService,
+    configService: ConfigService,
+  ) {
+    this.root = resolve(configService.get('DATA_SOURCES_DIR', 'data'));
+  }
+
+  /** Opens the input of a job of the tenant; queries only see its rows. */
+  open(tenantId: string, spec: RecordSourceSpec): RecordSource {
+    switch (spec.type) {
+      case RecordSourceType.CSV:
+        return new CsvRecordSource(
+          this.resolve(spec.path),
+          spec.delimiter ?? ',',
+          spec.header ?? true,
+        );
+      case RecordSourceType.NDJSON:
+        return new NdjsonRecordSource(this.resolve(spec.path));
+      case RecordSourceType.SQL:
+        return new SqlRecordSource(
+          this.reportDataService,
+          tenantId,
+          spec.query,
+          spec.params ?? [],
+        );
+    }
+  }
+
+  generate(total: number): RecordSource {
+    return new GeneratedRecordSource(total);
+  }
+
+  private resolve(path: string): string {
+    const resolved = resolve(this.root, path);
+    if (!resolved.startsWith(this.root + sep)) {
+      throw new Error(`Path "${path}" is outside DATA_SOURCES_DIR`);
+    }
+    return resolved;
+  }
+}
@@ -0,0 +1,195 @@
+import { ReportDataService } from '../reports/report-data.service';
+import { readCsvRecords, readLines, readNdjsonRecords } from './record-readers';
+
+export enum RecordSourceType {
+  CSV = 'csv',
+  NDJSON = 'ndjson',
+  SQL = 'sql',
+}
+
+// Where reading stopped; opaque to callers, who save it to resume from
+export type RecordSourcePosition = Record<string, any>;
+
+export interface RecordBatch {
+  records: Record<string, any>[];
+  position: RecordSourcePosition; // Just past the batch
+}
+
+/** Input records, read in batches from a position reached earlier. */
+export interface RecordSource {
+  // Records in total
+  count(signal?: AbortSignal): Promise<number>;
+  read(
+    position: RecordSourcePosition | null,
+    batchSize: number,
+    signal?: AbortSignal,
+  ): AsyncGenerator<RecordBatch>;
+}
+
+/** Records of a CSV file; a position is a byte offset, plus the columns. */
+export class CsvRecordSource implements RecordSource {
+  constructor(
+    private readonly path: string,
+    private readonly delimiter: string,
+    private readonly header: boolean,
+  ) {}
+
+  async count(signal?: AbortSignal): Promise<number> {
+    let count = 0;
+    const records = readCsvRecords(this.path, 0, this.delimiter, signal);
+    while (!(await records.next()).done) {
+      count++;
+    }
+    return this.header ? Math.max(count - 1, 0) : count;
+  }
+
+  async *read(
+    position: RecordSourcePosition | null,
+    batchSize: number,
+    signal?: AbortSignal,
+  ): AsyncGenerator<RecordBatch> {
+    let columns: string[] | undefined = position?.columns;
+    let records: Record<string, any>[] = [];
+    let offset: number = position?.offset ?? 0;
+
+    for await (const { fields, end } of readCsvRecords(
+      this.path,
+      offset,
+      this.delimiter,
+      signal,
+    )) {
+      offset = end;
+      if (!columns) {
+        columns = this.header
+          ? fields
+          : fields.map((_, index) => `column${index + 1}`);
+        if (this.header) {
+          continue;
+        }
+      }
+      records.push(
+        Object.fromEntries(
+          columns.map((column, index) => [column, fields[index] ?? null]),
+        ),
+      );
+      if (records.length === batchSize) {
+        yield { records, position: { offset, columns } };
+        records = [];
+      }
+    }
+    if (records.length > 0) {
+      yield { records, position: { offset, columns } };
+    }
+  }
+}
+
+/** Records of an NDJSON file; a position is a byte offset. */
+export class NdjsonRecordSource implements RecordSource {
+  constructor(private readonly path: string) {}
+
+  // Counts non-blank lines; invalid ones fail the run once it reaches them
+  async count(signal?: AbortSignal): Promise<number> {
+    let count = 0;
+    for await (const { line } of readLines(this.path, 0, signal)) {
+      if (line.trim() !== '') {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async *read(
+    position: RecordSourcePosition | null,
+    batchSize: number,
+    signal?: AbortSignal,
+  ): AsyncGenerator<RecordBatch> {
+    let records: Record<string, any>[] = [];
+    let offset: number = position?.offset ?? 0;
+
+    for await (const { record, end } of readNdjsonRecords(
+      this.path,
+      offset,
+      signal,
+    )) {
+      offset = end;
+      records.push(record);
+      if (records.length === batchSize) {
+        yield { records, position: { offset } };
+        records = [];
+      }
+    }
+    if (records.length > 0) {
+      yield { records, position: { offset } };
+    }
+  }
+}
+
+/**
+ * Rows of a named query, as run for reports; a position is a row offset,
+ * so the query needs an ORDER BY to resume reliably.
+ */
+export class SqlRecordSource implements RecordSource {
+  constructor(
+    private readonly reportDataService: ReportDataService,
+    private readonly tenantId: string,
+    private readonly query: string,
+    private readonly params: any[],
+  ) {}
+
+  count(): Promise<number> {
+    return this.reportDataService.count(this.tenantId, this.query, this.params);
+  }
+
+  async *read(
+    position: RecordSourcePosition | null,
+    batchSize: number,
+    signal?: AbortSignal,
+  ): AsyncGenerator<RecordBatch> {
+    let offset: number = position?.offset ?? 0;
+    for (;;) {
+      signal?.throwIfAborted();
+      const { rows } = await this.reportDataService.fetch(
+        this.tenantId,
+        this.query,
+        this.params,
+        { offset, limit: batchSize },
+      );
+      if (rows.length === 0) {
+        return;
+      }
+      offset += rows.length;
+      yield { records: rows, position: { offset } };
+      if (rows.length < batchSize) {
+        return;
+      }
+    }
+  }
+}
+
+/** Generated records `{ id: 1 }`, `{ id: 2 }`, ..., for trying jobs out. */
+export class GeneratedRecordSource implements RecordSource {
+  constructor(private readonly total: number) {}
+
+  async count(): Promise<number> {
+    return this.total;
+  }
+
+  async *read(
+    position: RecordSourcePosition | null,
+    batchSize: number,
+  ): AsyncGenerator<RecordBatch> {
+    for (
+      let offset: number = position?.offset ?? 0;
+      offset < this.total;
+      offset += batchSize
+    ) {
+      const size = Math.min(batchSize, this.total - offset);
+      yield {
+        records: Array.from({ length: size }, (_, index) => ({
+          id: offset + index + 1,
+        })),
+        position: { offset: offset + size },
+      };
+    }
+  }
+}
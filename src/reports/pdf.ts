@@ -0,0 +1,75 @@
+// A4 landscape, in points
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const FONT_SIZE = 9;
+const LINE_HEIGHT = 11;
+// Courier glyphs are 0.6em wide
+const CHARS_PER_LINE = Math.floor(
+  (PAGE_WIDTH - 2 * MARGIN) / (FONT_SIZE * 0.6),
+);
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+
+/**
+ * Lays out lines of monospaced text as a PDF document, with as many pages
+ * as needed. Lines too long for the page are cut off; characters outside
+ * Latin-1 are replaced with "?".
+ */
+export function renderTextPdf(lines: string[]): Buffer {
+  const pages: string[][] = [];
+  for (let i = 0; i < Math.max(lines.length, 1); i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+
+  // Objects 1-3 are the catalog, page tree and font; each page then has
+  // a page object followed by its content stream
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((pageLines, index) => {
+    const content = [
+      'BT',
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LINE_HEIGHT} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN - FONT_SIZE} Td`,
+      ...pageLines.map(
+        (line) => `(${escapeText(line.slice(0, CHARS_PER_LINE))}) Tj T*`,
+      ),
+      'ET',
+    ].join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    `${xrefOffset}`,
+    '%%EOF',
+    '',
+  ].join('\n');
+  return Buffer.from(pdf, 'latin1');
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+}
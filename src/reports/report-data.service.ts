@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectDataSource } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { REPORT_QUERIES } from './report-queries';
+
+// Refers to the tenant parameter, which Postgres can't type in queries that
+// don't use it
+const TENANT_PARAM_CHECK = 'WHERE $1::varchar IS NOT NULL';
+
+/** Thrown when no report query of the given name exists. */
+export class ReportQueryNotFoundError extends Error {
+  constructor(name: string) {
+    super(`Unknown report type "${name}"`);
+    this.name = 'ReportQueryNotFoundError';
+  }
+}
+
+/**
+ * Fetches the rows of a report by running its query: a file `<name>.sql` in
+ * REPORT_QUERIES_DIR, else a built-in query. Only queries configured on the
+ * server can run; jobs merely pick one and pass its `$2`, `$3`, ...
+ * parameters. `$1` is always the tenant of the job, so that a query can
+ * only read that tenant's rows and the job's parameters can't change it.
+ * Queries run in a read-only transaction, with a statement
+ * timeout and a cap on the rows returned. Data processing jobs page through
+ * the same queries.
+ */
+@Injectable()
+export class ReportDataService {
+  private readonly directory: string | undefined;
+  private readonly maxRows: number;
+  private readonly statementTimeout: number;
+
+  constructor(
+    @InjectDataSource()
+    private readonly dataSource: DataSource,
+    configService: ConfigService,
+  ) {
+    this.directory = configService.get('REPORT_QUERIES_DIR');
+    this.maxRows = Number(configService.get('REPORT_MAX_ROWS', 10000));
+    this.statementTimeout = Number(
+      configService.get('REPORT_STATEMENT_TIMEOUT_MS', 60000),
+    );
+  }
+
+  /**
+   * Runs the query; `offset` and `limit` page through its rows, which is
+   * only stable if the query has an ORDER BY. The limit is capped at
+   * REPORT_MAX_ROWS.
+   */
+  async fetch(
+    tenantId: string,
+    reportType: string,
+    params: any[] = [],
+    {
+      offset = 0,
+      limit = this.maxRows,
+    }: { offset?: number; limit?: number } = {},
+  ): Promise<{ columns: string[]; rows: Record<string, any>[] }> {
+    const query = await this.getQuery(reportType);
+    const rows: Record<string, any>[] = await this.query(
+      // Wrapped in a subquery to cap the rows and allow a single statement
+      `SELECT * FROM (\n${query}\n) AS report ${TENANT_PARAM_CHECK} OFFSET ${Math.floor(offset)} LIMIT ${Math.floor(Math.min(limit, this.maxRows))}`,
+      [tenantId, ...params],
+    );
+    return { columns: Object.keys(rows[0] ?? {}), rows };
+  }
+
+  /** Counts the rows the query returns. */
+  async count(
+    tenantId: string,
+    reportType: string,
+    params: any[] = [],
+  ): Promise<number> {
+    const query = await this.getQuery(reportType);
+    const [{ count }] = await this.query(
+      `SELECT COUNT(*) AS count FROM (\n${query}\n) AS report ${TENANT_PARAM_CHECK}`,
+      [tenantId, ...params],
+    );
+    return Number(count);
+  }
+
+  private query(sql: string, params: any[]): Promise<any[]> {
+    return this.dataSource.transaction(async (manager) => {
+      await manager.query('SET TRANSACTION READ ONLY');
+      await manager.query(
+        `SET LOCAL statement_timeout = ${Math.floor(this.statementTimeout)}`,
+      );
+      return manager.query(sql, params);
+    });
+  }
+
+  private async getQuery(name: string): Promise<string> {
+    return (await this.readQuery(name)).trim().replace(/;+$/, '');
+  }
+
+  private async readQuery(name: string): Promise<string> {
+    if (this.directory) {
+      try {
+        return await readFile(join(this.directory, `${name}.sql`), 'utf8');
+      } catch (error) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+
+    const query = REPORT_QUERIES[name];
+    if (!query) {
+      throw new ReportQueryNotFoundError(name);
+    }
+    return query;
+  }
+}
@@ -0,0 +1,21 @@
+// Built-in report queries, selected by a report job's `reportType`. `$1` is
+// the tenant of the job running the query
+export const REPORT_QUERIES: Record<string, string> = {
+  // Jobs per type and status
+  summary: `
+    SELECT type, status, COUNT(*)::int AS jobs
+    FROM jobs
+    WHERE "tenantId" = $1
+    GROUP BY type, status
+    ORDER BY type, status`,
+  // Outcomes of each job's runs over the last day
+  runs: `
+    SELECT j.name AS job, r.status, COUNT(*)::int AS runs,
+      ROUND(AVG(r."durationMs"))::int AS "avgDurationMs"
+    FROM job_runs r
+    JOIN jobs j ON j.id = r."jobId"
+    WHERE j."tenantId" = $1
+      AND r."startedAt" >= NOW() - INTERVAL '1 day'
+    GROUP BY j.name, r.status
+    ORDER BY j.name, r.status`,
+};
@@ -0,0 +1,152 @@
+import { renderTextPdf } from './pdf';
+
+export enum ReportFormat {
+  CSV = 'csv',
+  JSON = 'json',
+  HTML = 'html',
+  PDF = 'pdf',
+}
+
+export interface ReportData {
+  title: string;
+  generatedAt: Date;
+  columns: string[];
+  rows: Record<string, any>[];
+}
+
+export interface RenderedReport {
+  data: Buffer;
+  contentType: string;
+  extension: string;
+}
+
+/** Renders the report's rows as a file of the given format. */
+export function renderReport(
+  format: ReportFormat,
+  report: ReportData,
+): RenderedReport {
+  switch (format) {
+    case ReportFormat.CSV:
+      return {
+        data: Buffer.from(renderCsv(report)),
+        contentType: 'text/csv; charset=utf-8',
+        extension: 'csv',
+      };
+    case ReportFormat.JSON:
+      return {
+        data: Buffer.from(JSON.stringify(report, null, 2)),
+        contentType: 'application/json',
+        extension: 'json',
+      };
+    case ReportFormat.HTML:
+      return {
+        data: Buffer.from(renderHtml(report)),
+        contentType: 'text/html; charset=utf-8',
+        extension: 'html',
+      };
+    case ReportFormat.PDF:
+      return {
+        data: renderTextPdf(renderTextTable(report)),
+        contentType: 'application/pdf',
+        extension: 'pdf',
+      };
+  }
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : `${value}`;
+}
+
+/** RFC 4180: fields with commas, quotes or line breaks are quoted. */
+function renderCsv({ columns, rows }: ReportData): string {
+  const field = (value: any) => {
+    const text = formatValue(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [
+    columns.map(field).join(','),
+    ...rows.map((row) => columns.map((column) => field(row[column])).join(',')),
+  ]
+    .map((line) => `${line}\r\n`)
+    .join('');
+}
+
+function renderHtml({ title, generatedAt, columns, rows }: ReportData): string {
+  const cell = (tag: string, value: any) =>
+    `<${tag}>${escapeHtml(formatValue(value))}</${tag}>`;
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: sans-serif; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>Generated at ${generatedAt.toISOString()}</p>
+<table>
+<thead><tr>${columns.map((column) => cell('th', column)).join('')}</tr></thead>
+<tbody>
+${rows.map((row) => `<tr>${columns.map((column) => cell('td', row[column])).join('')}</tr>`).join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+/** The report as lines of a plain-text table with padded columns. */
+function renderTextTable({
+  title,
+  generatedAt,
+  columns,
+  rows,
+}: ReportData): string[] {
+  const cells = rows.map((row) =>
+    columns.map((column) => formatValue(row[column]).replace(/\s+/g, ' ')),
+  );
+  const widths = columns.map((column, index) =>
+    Math.min(
+      40,
+      Math.max(column.length, ...cells.map((row) => row[index].length)),
+    ),
+  );
+  const line = (values: string[]) =>
+    values
+      .map((value, index) =>
+        value.length > widths[index]
+          ? `${value.slice(0, widths[index] - 1)}~`
+          : value.padEnd(widths[index]),
+      )
+      .join('  ')
+      .trimEnd();
+
+  return [
+    title,
+    `Generated at ${generatedAt.toISOString()}`,
+    '',
+    line(columns),
+    widths.map((width) => '-'.repeat(width)).join('  '),
+    ...cells.map(line),
+    '',
+    `${rows.length} row(s)`,
+  ];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
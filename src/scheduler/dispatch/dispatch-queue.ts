@@ -0,0 +1,190 @@
+import { Job } from '../../jobs/entities/job.entity';
+
+// Which concurrency limit keeps a queued job from being dispatched
+export enum QueueWaitReason {
+  JOB_LIMIT = 'job_limit',
+  TYPE_LIMIT = 'type_limit',
+  TENANT_LIMIT = 'tenant_limit',
+  GLOBAL_LIMIT = 'global_limit',
+}
+
+export interface ConcurrencyLimits {
+  // Runs allowed at once on this instance
+  global: number;
+  // Runs of a type allowed at once; undefined leaves only the global limit
+  forType: (type: string) => number | undefined;
+  // Runs of a tenant's jobs allowed at once; undefined if unlimited
+  forTenant: (tenantId: string) => number | undefined;
+}
+
+export type DispatchRequest = Pick<
+  Job,
+  | 'id'
+  | 'tenantId'
+  | 'name'
+  | 'type'
+  | 'priority'
+  | 'maxConcurrency'
+  | 'nextRunAt'
+>;
+
+export interface QueuedDispatch {
+  job: DispatchRequest;
+  enqueuedAt: Date;
+  sequence: number;
+}
+
+/**
+ * Due jobs waiting for a free slot, in dispatch order: highest priority
+ * first, then earliest due. A job is dispatched once the global slots, its
+ * type's and its tenant's slots and its own `maxConcurrency` all allow
+ * another run, so jobs held back by one of those limits don't block others
+ * behind them.
+ */
+export class DispatchQueue {
+  private readonly queue: QueuedDispatch[] = [];
+  private sequence = 0;
+  private running = 0;
+  private readonly runningByType = new Map<string, number>();
+  private readonly runningByTenant = new Map<string, number>();
+  private readonly runningByJob = new Map<string, number>();
+
+  constructor(private readonly limits: ConcurrencyLimits) {}
+
+  get length(): number {
+    return this.queue.length;
+  }
+
+  get runningTotal(): number {
+    return this.running;
+  }
+
+  /** Queues the job; returns false if it is already waiting. */
+  enqueue(job: DispatchRequest): boolean {
+    if (this.queue.some((queued) => queued.job.id === job.id)) {
+      return false;
+    }
+
+    const entry = { job, enqueuedAt: new Date(), sequence: this.sequence++ };
+    const index = this.queue.findIndex(
+      (queued) => compareQueued(entry, queued) < 0,
+    );
+    this.queue.splice(index === -1 ? this.queue.length : index, 0, entry);
+    return true;
+  }
+
+  /** Drops the job from the queue, e.g. because it was paused or deleted. */
+  remove(jobId: string): void {
+    const index = this.queue.findIndex((queued) => queued.job.id === jobId);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    }
+  }
+
+  /**
+   * Removes the first queued job that fits every limit and reserves its
+   * slots, which must be freed with `release()` once its run is over.
+   */
+  take(): QueuedDispatch | null {
+    const index = this.queue.findIndex(
+      (queued) => this.getWaitReason(queued.job) === null,
+    );
+    if (index === -1) {
+      return null;
+    }
+
+    const [queued] = this.queue.splice(index, 1);
+    const { job } = queued;
+    this.running++;
+    increment(this.runningByType, job.type, 1);
+    increment(this.runningByTenant, job.tenantId, 1);
+    increment(this.runningByJob, job.id, 1);
+    return queued;
+  }
+
+  release(job: DispatchRequest): void {
+    this.running--;
+    increment(this.runningByType, job.type, -1);
+    increment(this.runningByTenant, job.tenantId, -1);
+    increment(this.runningByJob, job.id, -1);
+  }
+
+  /** Runs of the job holding a slot, including ones still being claimed. */
+  runningCount(jobId: string): number {
+    return this.runningByJob.get(jobId) ?? 0;
+  }
+
+  runningCountOfType(type: string): number {
+    return this.runningByType.get(type) ?? 0;
+  }
+
+  runningCountOfTenant(tenantId: string): number {
+    return this.runningByTenant.get(tenantId) ?? 0;
+  }
+
+  /** The limit the job is waiting on, or null if it can run now. */
+  getWaitReason(job: DispatchRequest): QueueWaitReason | null {
+    if (this.runningCount(job.id) >= Math.max(1, job.maxConcurrency ?? 1)) {
+      return QueueWaitReason.JOB_LIMIT;
+    }
+    const typeLimit = this.limits.forType(job.type);
+    if (
+      typeLimit !== undefined &&
+      this.runningCountOfType(job.type) >= typeLimit
+    ) {
+      return QueueWaitReason.TYPE_LIMIT;
+    }
+    const tenantLimit = this.limits.forTenant(job.tenantId);
+    if (
+      tenantLimit !== undefined &&
+      this.runningCountOfTenant(job.tenantId) >= tenantLimit
+    ) {
+      return QueueWaitReason.TENANT_LIMIT;
+    }
+    if (this.running >= this.limits.global) {
+      return QueueWaitReason.GLOBAL_LIMIT;
+    }
+    return null;
+  }
+
+  /** Queued jobs in dispatch order. */
+  list(): QueuedDispatch[] {
+    return [...this.queue];
+  }
+}
+
+function compareQueued(a: QueuedDispatch, b: QueuedDispatch): number {
+  return (
+    (b.job.priority ?? 0) - (a.job.priority ?? 0) ||
+    (a.job.nextRunAt?.getTime() ?? 0) - (b.job.nextRunAt?.getTime() ?? 0) ||
+    a.sequence - b.sequence
+  );
+}
+
+function increment(counts: Map<string, number>, key: string, by: number) {
+  const count = (counts.get(key) ?? 0) + by;
+  if (count > 0) {
+    counts.set(key, count);
+  } else {
+    counts.delete(key);
+  }
+}
+
+/**
+ * Parses per-type concurrency limits given as `type=limit` pairs separated
+ * by commas, e.g. `report_generation=2,data_processing=4`.
+ */
+export function parseTypeConcurrency(value: string): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const entry of value.split(',')) {
+    if (!entry.trim()) {
+      continue;
+    }
+    const [type, limit] = entry.split('=').map((part) => part?.trim());
+    if (!type || !/^\d+$/.test(limit ?? '')) {
+      throw new Error(`Invalid job type concurrency limit "${entry}"`);
+    }
+    limits[type] = Number(limit);
+  }
+  return limits;
+}
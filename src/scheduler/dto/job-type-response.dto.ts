@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RegisteredJobHandler } from '../handlers/job-handler.interface';
+import { RetryPolicyDto } from '../../jobs/dto/retry-policy.dto';
+
+export class JobTypeResponseDto {
+  @ApiProperty({ example: 'email_notification' })
+  type: string;
+
+  @ApiProperty({
+    example: 'Sends an email notification to a list of recipients',
+    required: false,
+  })
+  description?: string;
+
+  @ApiProperty({
+    description: 'JSON Schema of the metadata accepted by this job type',
+    example: {
+      type: 'object',
+      properties: { recipients: { type: 'array', items: { type: 'string' } } },
+    },
+    required: false,
+  })
+  metadataSchema?: Record<string, any>;
+
+  @ApiProperty({ example: 30000, required: false })
+  timeoutMs?: number;
+
+  @ApiProperty({
+    description: 'Default retry policy of jobs of this type',
+    type: RetryPolicyDto,
+    required: false,
+  })
+  retry?: RetryPolicyDto;
+
+  @ApiProperty({
+    description:
+      'Runs of this type allowed at once on an instance, unless SCHEDULER_TYPE_CONCURRENCY overrides it; unset if only the global limit applies',
+    example: 2,
+    required: false,
+  })
+  maxConcurrency?: number;
+
+  static fromRegistration({
+    type,
+    options,
+  }: RegisteredJobHandler): JobTypeResponseDto {
+    return { type, ...options };
+  }
+}
@@ -0,0 +1,115 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { QueueWaitReason } from '../dispatch/dispatch-queue';
+import { QueueStatus } from '../scheduler.service';
+
+export class QueuedJobDto {
+  @ApiProperty({ example: '123e4567-e89b-12d3-a456-426614174000' })
+  jobId: string;
+
+  @ApiProperty({ example: 'Daily Email Report' })
+  name: string;
+
+  @ApiProperty({ example: 'report_generation' })
+  type: string;
+
+  @ApiProperty({ example: 0 })
+  priority: number;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  dueAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  enqueuedAt: Date;
+
+  @ApiProperty({
+    enum: QueueWaitReason,
+    nullable: true,
+    description:
+      'Concurrency limit the job is waiting on; null if it is being dispatched',
+    example: QueueWaitReason.TYPE_LIMIT,
+  })
+  reason: QueueWaitReason | null;
+}
+
+export class JobTypeConcurrencyDto {
+  @ApiProperty({ example: 'report_generation' })
+  type: string;
+
+  @ApiProperty({ example: 2 })
+  running: number;
+
+  @ApiProperty({
+    example: 2,
+    required: false,
+    description:
+      'Runs of the type allowed at once; unset if only the global limit applies',
+  })
+  maxConcurrency?: number;
+}
+
+export class TenantConcurrencyDto {
+  @ApiProperty({ example: 'analytics' })
+  id: string;
+
+  @ApiProperty({ example: 1 })
+  running: number;
+
+  @ApiProperty({
+    example: 4,
+    required: false,
+    description:
+      "Runs of the tenant's jobs allowed at once, per its quota; unset if unlimited",
+  })
+  maxConcurrency?: number;
+}
+
+export class SchedulerQueueResponseDto {
+  @ApiProperty({
+    example: 'scheduler-7f9c4:4211',
+    description: 'Scheduler instance the queue belongs to',
+  })
+  instanceId: string;
+
+  @ApiProperty({ example: 10, description: 'Runs allowed at once' })
+  maxConcurrency: number;
+
+  @ApiProperty({ example: 4 })
+  running: number;
+
+  @ApiProperty({
+    type: TenantConcurrencyDto,
+    description: "The caller's tenant",
+  })
+  tenant: TenantConcurrencyDto;
+
+  @ApiProperty({ type: [JobTypeConcurrencyDto] })
+  types: JobTypeConcurrencyDto[];
+
+  @ApiProperty({
+    type: [QueuedJobDto],
+    description: "The tenant's due jobs waiting for a slot, in dispatch order",
+  })
+  queued: QueuedJobDto[];
+
+  static fromStatus(
+    instanceId: string,
+    { maxConcurrency, running, tenant, types, queued }: QueueStatus,
+  ): SchedulerQueueResponseDto {
+    return {
+      instanceId,
+      maxConcurrency,
+      running,
+      tenant,
+      types,
+      queued: queued.map(({ job, enqueuedAt, reason }) => ({
+        jobId: job.id,
+        name: job.name,
+        type: job.type,
+        priority: job.priority,
+        dueAt: job.nextRunAt,
+        enqueuedAt,
+        reason,
+      })),
+    };
+  }
+}
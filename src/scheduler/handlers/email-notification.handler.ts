@@ -0,0 +1,183 @@
+import { Logger } from '@nestjs/common';
+import { Job, JobType } from '../../jobs/entities/job.entity';
+import { JobHandler } from './job-handler.decorator';
+import {
+  JobOutput,
+  JobTypeHandler,
+  UPSTREAM_METADATA_KEY,
+} from './job-handler.interface';
+import { MailService } from '../../mail/mail.service';
+import { MailTemplatesService } from '../../mail/mail-templates.service';
+import { MailTemplate, renderTemplate } from '../../mail/mail-templates';
+import { RecipientStatus } from '../../mail/smtp-client';
+
+/**
+ * Thrown when recipients were refused: all of them, or any with
+ * `requireAllRecipients`. Only retried by default if nobody got the message
+ * and some refusals were temporary, as a retry sends it to all recipients.
+ */
+export class EmailDeliveryError extends Error {
+  readonly code: string;
+
+  constructor(
+    message: string,
+    readonly output: JobOutput,
+    transient: boolean,
+  ) {
+    super(message);
+    this.name = 'EmailDeliveryError';
+    this.code = transient ? 'RECIPIENTS_DEFERRED' : 'RECIPIENTS_REFUSED';
+  }
+}
+
+@JobHandler(JobType.EMAIL_NOTIFICATION, {
+  description: 'Sends an email notification to a list of recipients',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      recipients: {
+        type: 'array',
+        items: { type: 'string', format: 'email' },
+        minItems: 1,
+        description: 'Email addresses to notify',
+      },
+      template: {
+        type: 'string',
+        pattern: '^[\\w-]+$',
+        default: 'default-template',
+        description:
+          'Name of the email template: a file <name>.json in MAIL_TEMPLATES_DIR, or a built-in one (default-template, alert)',
+      },
+      subject: {
+        type: 'string',
+        minLength: 1,
+        description: "Subject template, instead of the named template's",
+      },
+      text: {
+        type: 'string',
+        description:
+          "Plain-text body template, instead of the named template's",
+      },
+      html: {
+        type: 'string',
+        description: "HTML body template, instead of the named template's",
+      },
+      variables: {
+        type: 'object',
+        description: 'Values for the {{placeholders}} of the templates',
+      },
+      from: {
+        type: 'string',
+        format: 'email',
+        description: 'Sender address; SMTP_FROM if unset',
+      },
+      requireAllRecipients: {
+        type: 'boolean',
+        default: false,
+        description: 'Fail the run if any recipient is refused',
+      },
+    },
+    required: ['recipients'],
+    additionalProperties: false,
+  },
+  timeoutMs: 30000,
+  retry: {
+    maxAttempts: 5,
+    delayMs: 30000,
+    jitter: 0.2,
+    // Failures before the message went out to anyone
+    retryableErrors: [
+      'JobTimeoutError',
+      'SmtpTransientError',
+      'RECIPIENTS_DEFERRED',
+      'ECONNREFUSED',
+      'ECONNRESET',
+      'ETIMEDOUT',
+      'EAI_AGAIN',
+    ],
+  },
+})
+export class EmailNotificationHandler implements JobTypeHandler {
+  private readonly logger = new Logger(EmailNotificationHandler.name);
+
+  constructor(
+    private readonly mailService: MailService,
+    private readonly mailTemplatesService: MailTemplatesService,
+  ) {}
+
+  async handle(job: Job, signal: AbortSignal): Promise<JobOutput> {
+    const {
+      recipients,
+      template = 'default-template',
+      variables = {},
+      from,
+      requireAllRecipients = false,
+    } = job.metadata;
+
+    // The named template provides whatever the job doesn't set itself
+    const source: Partial<MailTemplate> =
+      job.metadata.subject !== undefined && job.metadata.text !== undefined
+        ? {}
+        : { ...(await this.mailTemplatesService.get(template)) };
+    for (const field of ['subject', 'text', 'html']) {
+      if (job.metadata[field] !== undefined) {
+        source[field] = job.metadata[field];
+      }
+    }
+    const context = {
+      ...variables,
+      upstream: job.metadata[UPSTREAM_METADATA_KEY],
+      job: { id: job.id, name: job.name, type: job.type },
+      sentAt: new Date().toISOString(),
+    };
+
+    this.logger.log(
+      `Sending email notification to ${recipients.join(', ')} using template ${template}`,
+    );
+    const delivery = await this.mailService.send(
+      {
+        from,
+        to: recipients,
+        subject: renderTemplate(source.subject, context),
+        text: renderTemplate(source.text ?? '', context),
+        html:
+          source.html &&
+          renderTemplate(source.html, context, { escapeHtml: true }),
+      },
+      signal,
+    );
+
+    const output: JobOutput = {
+      messageId: delivery.messageId,
+      transport: delivery.transport,
+      recipients: delivery.recipients,
+    };
+    const refused = delivery.recipients.filter(
+      ({ status }) => status !== RecipientStatus.ACCEPTED,
+    );
+    if (refused.length === recipients.length) {
+      const deferred = refused.some(
+        ({ status }) => status === RecipientStatus.DEFERRED,
+      );
+      throw new EmailDeliveryError(
+        'All recipients were refused',
+        output,
+        deferred,
+      );
+    }
+    if (refused.length > 0) {
+      const addresses = refused.map(({ address }) => address).join(', ');
+      if (requireAllRecipients) {
+        throw new EmailDeliveryError(
+          `Recipients were refused: ${addresses}`,
+          output,
+          false,
+        );
+      }
+      this.logger.warn(`Recipients were refused: ${addresses}`);
+    }
+
+    this.logger.log(`Email notification sent successfully for job ${job.name}`);
+    return output;
+  }
+}
@@ -0,0 +1,236 @@
+import { Logger } from '@nestjs/common';
+import { request as httpRequest, IncomingMessage } from 'http';
+import { request as httpsRequest, RequestOptions } from 'https';
+import { Job, JobType } from '../../jobs/entities/job.entity';
+import { JobHandler } from './job-handler.decorator';
+import { JobOutput, JobTypeHandler } from './job-handler.interface';
+import { BackoffStrategy } from '../retry/retry-policy';
+
+const DEFAULT_CAPTURE_BYTES = 4096;
+
+/** Thrown when the response status is not one the job expects. */
+export class HttpStatusError extends Error {
+  readonly code: string;
+
+  constructor(
+    readonly status: number,
+    readonly output: JobOutput,
+  ) {
+    super(`Request failed with unexpected status ${status}`);
+    this.name = 'HttpStatusError';
+    this.code = `HTTP_${status}`; // e.g. HTTP_503, for retryableErrors
+  }
+}
+
+/** Thrown when the server does not respond within the request timeout. */
+export class HttpTimeoutError extends Error {
+  readonly code = 'ETIMEDOUT';
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'HttpTimeoutError';
+  }
+}
+
+@JobHandler(JobType.HTTP_REQUEST, {
+  description: 'Calls an HTTP endpoint and checks the response status',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      method: {
+        type: 'string',
+        enum: ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+        default: 'GET',
+      },
+      url: { type: 'string', format: 'uri', pattern: '^https?://' },
+      headers: {
+        type: 'object',
+        additionalProperties: { type: 'string' },
+      },
+      body: {
+        description: 'Sent as is if a string, else as JSON',
+      },
+      expectedStatus: {
+        type: 'array',
+        items: { type: 'integer', minimum: 100, maximum: 599 },
+        minItems: 1,
+        description: 'Statuses that count as success; any 2xx if unset',
+      },
+      requestTimeoutMs: {
+        type: 'integer',
+        minimum: 1,
+        description: 'Time allowed for the response; the job timeout if unset',
+      },
+      captureBytes: {
+        type: 'integer',
+        minimum: 0,
+        maximum: 65536,
+        default: DEFAULT_CAPTURE_BYTES,
+        description: 'Bytes of the response body recorded on the run',
+      },
+      tls: {
+        type: 'object',
+        properties: {
+          rejectUnauthorized: { type: 'boolean', default: true },
+          ca: { type: 'string', description: 'PEM-encoded CA certificates' },
+          servername: { type: 'string', description: 'SNI server name' },
+        },
+        additionalProperties: false,
+      },
+    },
+    required: ['url'],
+    additionalProperties: false,
+  },
+  timeoutMs: 60000,
+  retry: {
+    maxAttempts: 3,
+    backoff: BackoffStrategy.EXPONENTIAL,
+    delayMs: 30000,
+    // Transient failures only; other client errors won't succeed on retry
+    retryableErrors: [
+      'JobTimeoutError',
+      'HttpTimeoutError',
+      'ECONNREFUSED',
+      'ECONNRESET',
+      'ETIMEDOUT',
+      'EAI_AGAIN',
+      'HTTP_408',
+      'HTTP_429',
+      'HTTP_500',
+      'HTTP_502',
+      'HTTP_503',
+      'HTTP_504',
+    ],
+  },
+})
+export class HttpRequestHandler implements JobTypeHandler {
+  private readonly logger = new Logger(HttpRequestHandler.name);
+
+  async handle(job: Job, signal: AbortSignal): Promise<JobOutput> {
+    const {
+      method = 'GET',
+      url,
+      headers = {},
+      body,
+      expectedStatus,
+      requestTimeoutMs,
+      captureBytes = DEFAULT_CAPTURE_BYTES,
+      tls = {},
+    } = job.metadata;
+
+    const requestHeaders: Record<string, string> = { ...headers };
+    let payload: string | undefined;
+    if (body !== undefined) {
+      payload = typeof body === 'string' ? body : JSON.stringify(body);
+      const hasContentType = Object.keys(requestHeaders).some(
+        (name) => name.toLowerCase() === 'content-type',
+      );
+      if (typeof body !== 'string' && !hasContentType) {
+        requestHeaders['Content-Type'] = 'application/json';
+      }
+    }
+
+    this.logger.log(`Sending ${method} ${url}`);
+    const startedAt = Date.now();
+    const response = await this.send(
+      url,
+      {
+        method,
+        headers: requestHeaders,
+        rejectUnauthorized: tls.rejectUnauthorized ?? true,
+        ca: tls.ca,
+        servername: tls.servername,
+      },
+      payload,
+      { captureBytes, requestTimeoutMs, signal },
+    );
+
+    const output: JobOutput = {
+      status: response.status,
+      body: response.body,
+      bodyTruncated: response.truncated,
+      latencyMs: Date.now() - startedAt,
+    };
+    const ok = expectedStatus
+      ? expectedStatus.includes(response.status)
+      : response.status >= 200 && response.status < 300;
+    if (!ok) {
+      throw new HttpStatusError(response.status, output);
+    }
+
+    this.logger.log(
+      `${method} ${url} responded ${response.status} in ${output.latencyMs}ms`,
+    );
+    return output;
+  }
+
+  /**
+   * Sends the request and reads up to `captureBytes` of the response body;
+   * the connection is dropped rather than downloading the rest.
+   */
+  private send(
+    url: string,
+    options: RequestOptions,
+    payload: string | undefined,
+    {
+      captureBytes,
+      requestTimeoutMs,
+      signal,
+    }: {
+      captureBytes: number;
+      requestTimeoutMs?: number;
+      signal: AbortSignal;
+    },
+  ): Promise<{ status: number; body: string; truncated: boolean }> {
+    const request = url.startsWith('https:') ? httpsRequest : httpRequest;
+
+    return new Promise((resolve, reject) => {
+      const req = request(url, options, (res: IncomingMessage) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        const finish = (truncated: boolean) => {
+          clearTimeout(timeoutId);
+          signal.removeEventListener('abort', onAbort);
+          resolve({
+            status: res.statusCode,
+            body: Buffer.concat(chunks).subarray(0, captureBytes).toString(),
+            truncated,
+          });
+        };
+
+        res.on('data', (chunk: Buffer) => {
+          chunks.push(chunk);
+          size += chunk.length;
+          if (size > captureBytes) {
+            res.removeAllListeners('end');
+            req.destroy();
+            finish(true);
+          }
+        });
+        res.on('end', () => finish(false));
+        res.on('error', reject);
+      });
+
+      const fail = (error: Error) => {
+        clearTimeout(timeoutId);
+        signal.removeEventListener('abort', onAbort);
+        req.destroy();
+        reject(error);
+      };
+      const onAbort = () => fail(signal.reason);
+      const timeoutId = requestTimeoutMs
+        ? setTimeout(
+            () => fail(new HttpTimeoutError(requestTimeoutMs)),
+            requestTimeoutMs,
+          )
+        : undefined;
+
+      signal.addEventListener('abort', onAbort);
+      if (signal.aborted) {
+        return onAbort();
+      }
+      req.on('error', fail);
+      req.end(payload);
+    });
+  }
+}
@@ -0,0 +1,27 @@
+import { Injectable, SetMetadata, applyDecorators } from '@nestjs/common';
+import { JobHandlerOptions } from './job-handler.interface';
+
+export const JOB_HANDLER_METADATA = 'scheduler:job-handler';
+
+export interface JobHandlerMetadata {
+  type: string;
+  options: JobHandlerOptions;
+}
+
+/**
+ * Registers a provider as the handler for jobs of `type`. The class must
+ * implement JobTypeHandler and be listed in its module's providers; it is
+ * discovered when the application starts.
+ */
+export function JobHandler(
+  type: string,
+  options: JobHandlerOptions = {},
+): ClassDecorator {
+  return applyDecorators(
+    Injectable(),
+    SetMetadata<string, JobHandlerMetadata>(JOB_HANDLER_METADATA, {
+      type,
+      options,
+    }),
+  );
+}
@@ -0,0 +1,62 @@
+import { Job } from '../../jobs/entities/job.entity';
+import { RetryPolicy } from '../retry/retry-policy';
+
+// Metadata key under which a workflow passes the outputs of upstream jobs;
+// it is exempt from the type's metadata schema
+export const UPSTREAM_METADATA_KEY = 'upstream';
+
+// What a handler reports about a successful run, recorded on the run
+export type JobOutput = Record<string, any>;
+
+// Errors a handler throws may carry an output too, recorded on the failed run
+export type JobError = Error & { output?: JobOutput };
+
+// The run a handler is executing
+export interface JobExecutionContext {
+  runId: string;
+  // State saved by an earlier attempt of the occurrence that didn't finish
+  checkpoint: Record<string, any> | null;
+  // Persists the handler's state and progress, so that a retry, or another
+  // instance after a crash, resumes from there. Rejects if this instance
+  // lost the job's lease; the run must not carry on then.
+  saveCheckpoint(
+    checkpoint: Record<string, any>,
+    progress: { processed: number; total?: number | null },
+  ): Promise<void>;
+}
+
+export interface JobHandlerOptions {
+  description?: string;
+  // JSON Schema describing the job's metadata
+  metadataSchema?: Record<string, any>;
+  // Default timeout of jobs of this type; runs exceeding it are aborted
+  timeoutMs?: number;
+  // Default retry policy of jobs of this type
+  retry?: Partial<RetryPolicy>;
+  // Runs of jobs of this type allowed at once on an instance
+  maxConcurrency?: number;
+  // Jobs of this type are only created by the service itself, never through
+  // the jobs or workflows API
+  internal?: boolean;
+}
+
+/**
+ * Executes jobs of one type. Implementations are marked with @JobHandler.
+ * `signal` aborts when the run times out or is cancelled; handlers should
+ * stop their work and reject when it does. The output a handler resolves
+ * with is recorded on the run and handed to downstream workflow jobs;
+ * `context` identifies the run and lets long-running handlers checkpoint.
+ */
+export interface JobTypeHandler {
+  handle(
+    job: Job,
+    signal: AbortSignal,
+    context: JobExecutionContext,
+  ): Promise<JobOutput | void>;
+}
+
+export interface RegisteredJobHandler {
+  type: string;
+  options: JobHandlerOptions;
+  handler: JobTypeHandler;
+}
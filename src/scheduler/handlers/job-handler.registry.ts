@@ -0,0 +1,116 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, Reflector } from '@nestjs/core';
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import {
+  JOB_HANDLER_METADATA,
+  JobHandlerMetadata,
+} from './job-handler.decorator';
+import {
+  RegisteredJobHandler,
+  UPSTREAM_METADATA_KEY,
+} from './job-handler.interface';
+
+/** Job handlers discovered from @JobHandler providers, keyed by job type. */
+@Injectable()
+export class JobHandlerRegistry implements OnModuleInit {
+  private readonly logger = new Logger(JobHandlerRegistry.name);
+  private readonly handlers: Map<string, RegisteredJobHandler> = new Map();
+  private readonly metadataValidators: Map<string, ValidateFunction> =
+    new Map();
+  private readonly ajv = addFormats(new Ajv({ allErrors: true }));
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly reflector: Reflector,
+  ) {}
+
+  onModuleInit() {
+    for (const wrapper of this.discoveryService.getProviders()) {
+      if (!wrapper.metatype || !wrapper.instance) {
+        continue;
+      }
+
+      const metadata = this.reflector.get<JobHandlerMetadata>(
+        JOB_HANDLER_METADATA,
+        wrapper.metatype,
+      );
+      if (metadata) {
+        this.register({ ...metadata, handler: wrapper.instance });
+      }
+    }
+
+    this.logger.log(
+      `Registered job handlers: ${[...this.handlers.keys()].join(', ')}`,
+    );
+  }
+
+  register(registration: RegisteredJobHandler): void {
+    if (this.handlers.has(registration.type)) {
+      throw new Error(
+        `A handler for job type "${registration.type}" is already registered`,
+      );
+    }
+    if (typeof registration.handler.handle !== 'function') {
+      throw new Error(
+        `Handler for job type "${registration.type}" must implement handle()`,
+      );
+    }
+    const { metadataSchema } = registration.options;
+    if (metadataSchema) {
+      try {
+        this.metadataValidators.set(
+          registration.type,
+          this.ajv.compile(metadataSchema),
+        );
+      } catch (error) {
+        throw new Error(
+          `Invalid metadata schema for job type "${registration.type}": ${error.message}`,
+        );
+      }
+    }
+    this.handlers.set(registration.type, registration);
+  }
+
+  get(type: string): RegisteredJobHandler | undefined {
+    return this.handlers.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.handlers.has(type);
+  }
+
+  /**
+   * Checks job metadata against the schema declared by the type's handler.
+   * Returns one message per invalid field, or an empty array if valid.
+   */
+  validateMetadata(type: string, metadata: Record<string, any>): string[] {
+    const validate = this.metadataValidators.get(type);
+    const validated = { ...metadata };
+    delete validated[UPSTREAM_METADATA_KEY];
+    if (!validate || validate(validated)) {
+      return [];
+    }
+    return validate.errors.map(formatMetadataError);
+  }
+
+  list(): RegisteredJobHandler[] {
+    return [...this.handlers.values()].sort((a, b) =>
+      a.type.localeCompare(b.type),
+    );
+  }
+}
+
+// e.g. metadata.recipients[0] must match format "email"
+function formatMetadataError(error: ErrorObject): string {
+  const segments = error.instancePath.split('/').slice(1);
+  let message = error.message;
+  if (error.keyword === 'additionalProperties') {
+    segments.push(error.params.additionalProperty);
+    message = 'is not allowed';
+  }
+  const path = segments
+    .map((segment) => (/^\d+$/.test(segment) ? `[${segment}]` : `.${segment}`))
+    .join('');
+  return `metadata${path} ${message}`;
+}
@@ -0,0 +1,50 @@
+import { Logger } from '@nestjs/common';
+import { join } from 'path';
+import { Job, JobType } from '../../jobs/entities/job.entity';
+import { JobHandler } from './job-handler.decorator';
+import { JobOutput, JobTypeHandler } from './job-handler.interface';
+import { NumberCrunchingPayload } from './number-crunching.task';
+import { WorkerPoolService } from '../workers/worker-pool.service';
+
+const NUMBER_CRUNCHING_TASK = join(__dirname, 'number-crunching.task');
+
+@JobHandler(JobType.NUMBER_CRUNCHING, {
+  description: 'Runs a CPU-bound computation in the worker thread pool',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      iterations: { type: 'integer', minimum: 1, default: 1000 },
+      complexity: { type: 'integer', minimum: 1, default: 1 },
+    },
+    additionalProperties: false,
+  },
+  timeoutMs: 300000,
+})
+export class NumberCrunchingHandler implements JobTypeHandler {
+  private readonly logger = new Logger(NumberCrunchingHandler.name);
+
+  constructor(private readonly workerPool: WorkerPoolService) {}
+
+  async handle(job: Job, signal: AbortSignal): Promise<JobOutput> {
+    // Simulate number crunching
+    const payload: NumberCrunchingPayload = {
+      iterations: job.metadata?.iterations || 1000,
+      complexity: job.metadata?.complexity || 1,
+    };
+    const { iterations, complexity } = payload;
+
+    this.logger.log(
+      `Performing number crunching: ${iterations} iterations with complexity ${complexity}`,
+    );
+
+    // The computation is synchronous, so keep it off the event loop
+    const result = await this.workerPool.run<number>(
+      NUMBER_CRUNCHING_TASK,
+      payload,
+      signal,
+    );
+
+    this.logger.log(`Number crunching completed. Result: ${result.toFixed(2)}`);
+    return { result };
+  }
+}
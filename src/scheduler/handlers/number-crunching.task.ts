@@ -0,0 +1,18 @@
+// Runs in a worker thread (see WorkerPoolService); keep it free of Nest
+// dependencies
+
+export interface NumberCrunchingPayload {
+  iterations: number;
+  complexity: number;
+}
+
+export default function crunchNumbers({
+  iterations,
+  complexity,
+}: NumberCrunchingPayload): number {
+  let result = 0;
+  for (let i = 0; i < iterations * complexity; i++) {
+    result += Math.sqrt(i) * Math.random();
+  }
+  return result;
+}
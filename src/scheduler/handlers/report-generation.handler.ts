@@ -0,0 +1,99 @@
+import { Logger } from '@nestjs/common';
+import { Job, JobType } from '../../jobs/entities/job.entity';
+import { JobHandler } from './job-handler.decorator';
+import {
+  JobExecutionContext,
+  JobOutput,
+  JobTypeHandler,
+} from './job-handler.interface';
+import { ReportDataService } from '../../reports/report-data.service';
+import { ReportFormat, renderReport } from '../../reports/report-renderers';
+import { ArtifactsService } from '../../artifacts/artifacts.service';
+
+@JobHandler(JobType.REPORT_GENERATION, {
+  description: 'Generates a report and stores it as an artifact of the job',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      reportType: {
+        type: 'string',
+        pattern: '^[\\w-]+$',
+        default: 'summary',
+        description:
+          'Query producing the rows: a file <name>.sql in REPORT_QUERIES_DIR, or a built-in one (summary, runs)',
+      },
+      format: {
+        type: 'string',
+        enum: Object.values(ReportFormat),
+        default: ReportFormat.PDF,
+      },
+      params: {
+        type: 'array',
+        items: { type: ['string', 'number', 'boolean', 'null'] },
+        description:
+          "Values of the query parameters $2, $3, ...; $1 is the job's tenant",
+      },
+      title: { type: 'string', minLength: 1 },
+    },
+    additionalProperties: false,
+  },
+  timeoutMs: 300000,
+  retry: { maxAttempts: 3, delayMs: 120000 },
+  maxConcurrency: 2,
+})
+export class ReportGenerationHandler implements JobTypeHandler {
+  private readonly logger = new Logger(ReportGenerationHandler.name);
+
+  constructor(
+    private readonly reportDataService: ReportDataService,
+    private readonly artifactsService: ArtifactsService,
+  ) {}
+
+  async handle(
+    job: Job,
+    signal: AbortSignal,
+    { runId }: JobExecutionContext,
+  ): Promise<JobOutput> {
+    const {
+      reportType = 'summary',
+      format = ReportFormat.PDF,
+      params = [],
+      title = `${job.name}: ${reportType}`,
+    } = job.metadata ?? {};
+
+    this.logger.log(`Generating ${reportType} report in ${format} format`);
+
+    const { columns, rows } = await this.reportDataService.fetch(
+      job.tenantId,
+      reportType,
+      params,
+    );
+    signal.throwIfAborted();
+    const report = renderReport(format, {
+      title,
+      generatedAt: new Date(),
+      columns,
+      rows,
+    });
+    const artifact = await this.artifactsService.create({
+      jobId: job.id,
+      jobRunId: runId,
+      filename: reportType,
+      extension: report.extension,
+      contentType: report.contentType,
+      data: report.data,
+    });
+
+    this.logger.log(
+      `Report generated successfully for job ${job.name}: ${artifact.filename}`,
+    );
+    return {
+      reportType,
+      format,
+      rows: rows.length,
+      artifactId: artifact.id,
+      version: artifact.version,
+      size: artifact.size,
+    };
+  }
+}
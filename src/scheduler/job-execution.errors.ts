@@ -0,0 +1,31 @@
+/** Thrown into a run that exceeded its job's timeout. */
+export class JobTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Job timed out after ${timeoutMs}ms`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+/** Thrown into a run that was cancelled through the API. */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+/** Thrown into a run whose worker thread crashed or ran out of memory. */
+export class WorkerCrashedError extends Error {
+  constructor(reason: string) {
+    super(`Worker thread crashed: ${reason}`);
+    this.name = 'WorkerCrashedError';
+  }
+}
+
+/** Thrown into a run whose instance lost the job's lease to another one. */
+export class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lost lease on job ${jobId}`);
+    this.name = 'LeaseLostError';
+  }
+}
@@ -1,97 +1,92 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { Job, JobType } from '../jobs/entities/job.entity';
+import { ConfigService } from '@nestjs/config';
+import { Job } from '../jobs/entities/job.entity';
+import { JobHandlerRegistry } from './handlers/job-handler.registry';
+import { JobTimeoutError } from './job-execution.errors';
+import {
+  JobExecutionContext,
+  JobOutput,
+} from './handlers/job-handler.interface';
 
 @Injectable()
 export class JobExecutorService {
   private readonly logger = new Logger(JobExecutorService.name);
-
-  async execute(job: Job): Promise<void> {
-    this.logger.log(`Executing job ${job.name} of type ${job.type}`);
-
-    switch (job.type) {
-      case JobType.EMAIL_NOTIFICATION:
-        await this.executeEmailNotification(job);
-        break;
-      case JobType.NUMBER_CRUNCHING:
-        await this.executeNumberCrunching(job);
-        break;
-      case JobType.DATA_PROCESSING:
-        await this.executeDataProcessing(job);
-        break;
-      case JobType.REPORT_GENERATION:
-        await this.executeReportGeneration(job);
-        break;
-      default:
-        throw new Error(`Unknown job type: ${job.type}`);
-    }
-  }
-
-  private async executeEmailNotification(job: Job): Promise<void> {
-    // Simulate email notification
-    const recipients = job.metadata?.recipients || ['default@example.com'];
-    const template = job.metadata?.template || 'default-template';
-
-    this.logger.log(
-      `Sending email notification to ${recipients.join(', ')} using template ${template}`,
+  private readonly defaultTimeout: number;
+
+  constructor(
+    private readonly jobHandlerRegistry: JobHandlerRegistry,
+    configService: ConfigService,
+  ) {
+    this.defaultTimeout = Number(
+      configService.get('SCHEDULER_DEFAULT_TIMEOUT_MS', 3600000),
     );
-
-    // Simulate async operation
-    await new Promise((resolve) => setTimeout(resolve, 100));
-
-    this.logger.log(`Email notification sent successfully for job ${job.name}`);
   }
 
-  private async executeNumberCrunching(job: Job): Promise<void> {
-    // Simulate number crunching
-    const iterations = job.metadata?.iterations || 1000;
-    const complexity = job.metadata?.complexity || 1;
-
-    this.logger.log(
-      `Performing number crunching: ${iterations} iterations with complexity ${complexity}`,
-    );
+  /**
+   * Runs the job's handler. The handler is aborted through its AbortSignal
+   * when `signal` fires or the job's timeout elapses; the returned promise
+   * then rejects with the abort reason even if the handler ignores the
+   * signal, so a hung handler cannot hold up the scheduler. Resolves with
+   * the handler's output, if any.
+   */
+  async execute(
+    job: Job,
+    signal: AbortSignal,
+    context: JobExecutionContext,
+  ): Promise<JobOutput | null> {
+    this.logger.log(`Executing job ${job.name} of type ${job.type}`);
 
-    // Simulate computation
-    let result = 0;
-    for (let i = 0; i < iterations * complexity; i++) {
-      result += Math.sqrt(i) * Math.random();
+    const registration = this.jobHandlerRegistry.get(job.type);
+    if (!registration) {
+      throw new Error(`Unknown job type: ${job.type}`);
     }
 
-    this.logger.log(
-      `Number crunching completed. Result: ${result.toFixed(2)}`,
+    // Jobs stored before their type's schema changed may no longer conform
+    const metadataErrors = this.jobHandlerRegistry.validateMetadata(
+      job.type,
+      job.metadata,
     );
-  }
-
-  private async executeDataProcessing(job: Job): Promise<void> {
-    // Simulate data processing
-    const batchSize = job.metadata?.batchSize || 100;
-    const records = job.metadata?.records || 1000;
+    if (metadataErrors.length > 0) {
+      throw new Error(`Invalid metadata: ${metadataErrors.join('; ')}`);
+    }
 
-    this.logger.log(
-      `Processing ${records} records in batches of ${batchSize}`,
+    const timeoutMs = this.getTimeout(job);
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal.reason);
+    const timeoutId = setTimeout(
+      () => controller.abort(new JobTimeoutError(timeoutMs)),
+      timeoutMs,
     );
-
-    // Simulate batch processing
-    for (let i = 0; i < records; i += batchSize) {
-      await new Promise((resolve) => setTimeout(resolve, 50));
-      this.logger.debug(`Processed batch ${Math.floor(i / batchSize) + 1}`);
+    signal.addEventListener('abort', abort);
+    if (signal.aborted) {
+      abort();
     }
 
-    this.logger.log(`Data processing completed for job ${job.name}`);
+    let onAbort: () => void;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(controller.signal.reason);
+      controller.signal.addEventListener('abort', onAbort);
+    });
+    try {
+      controller.signal.throwIfAborted();
+      const output = await Promise.race([
+        registration.handler.handle(job, controller.signal, context),
+        aborted,
+      ]);
+      return output || null;
+    } finally {
+      clearTimeout(timeoutId);
+      signal.removeEventListener('abort', abort);
+      controller.signal.removeEventListener('abort', onAbort);
+    }
   }
 
-  private async executeReportGeneration(job: Job): Promise<void> {
-    // Simulate report generation
-    const reportType = job.metadata?.reportType || 'summary';
-    const format = job.metadata?.format || 'pdf';
-
-    this.logger.log(
-      `Generating ${reportType} report in ${format} format`,
+  /** The job's own timeout, else its type's, else the scheduler default. */
+  getTimeout(job: Pick<Job, 'type' | 'timeoutMs'>): number {
+    return (
+      job.timeoutMs ??
+      this.jobHandlerRegistry.get(job.type)?.options.timeoutMs ??
+      this.defaultTimeout
     );
-
-    // Simulate report generation
-    await new Promise((resolve) => setTimeout(resolve, 200));
-
-    this.logger.log(`Report generated successfully for job ${job.name}`);
   }
 }
-
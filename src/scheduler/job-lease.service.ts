@@ -0,0 +1,200 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Job, JobStatus } from '../jobs/entities/job.entity';
+import { getInstanceId } from '../common/instance-id';
+import { MetricsService } from '../metrics/metrics.service';
+
+export interface LeasedJob {
+  job: Job;
+  // Owner of the expired lease this claim took over, if any
+  previousOwner: string | null;
+}
+
+/**
+ * Coordinates job execution across scheduler instances sharing the
+ * database. An instance must hold a job's lease to run it: due jobs are
+ * claimed with `SELECT ... FOR UPDATE SKIP LOCKED`, the lease is renewed by
+ * a heartbeat while the job runs, and a lease left behind by a crashed
+ * instance expires and can be claimed by another one.
+ */
+@Injectable()
+export class JobLeaseService {
+  private readonly logger = new Logger(JobLeaseService.name);
+  readonly instanceId: string;
+  readonly leaseTtl: number;
+
+  constructor(
+    @InjectRepository(Job)
+    private readonly jobRepository: Repository<Job>,
+    private readonly metricsService: MetricsService,
+    configService: ConfigService,
+  ) {
+    this.instanceId = getInstanceId(configService);
+    this.leaseTtl = Number(configService.get('SCHEDULER_LEASE_TTL_MS', 60000));
+  }
+
+  /**
+   * Up to `limit` due jobs that no live instance holds, highest priority
+   * first. They still have to be claimed before they can run.
+   */
+  async findDueJobs(limit: number): Promise<Job[]> {
+    const now = new Date();
+    return this.metricsService.timeQuery('find_due_jobs', () =>
+      this.jobRepository
+        .createQueryBuilder('job')
+        .where('job.status = :status', { status: JobStatus.ACTIVE })
+        .andWhere('job.nextRunAt <= :now', { now })
+        .andWhere('(job.leaseExpiresAt IS NULL OR job.leaseExpiresAt < :now)', {
+          now,
+        })
+        .orderBy('job.priority', 'DESC')
+        .addOrderBy('job.nextRunAt', 'ASC')
+        .limit(limit)
+        .getMany(),
+    );
+  }
+
+  /** Claims a single job if it is due and not held by a live instance. */
+  async claimJob(jobId: string): Promise<LeasedJob | null> {
+    const [leased] = await this.metricsService.timeQuery('claim_job', () =>
+      this.claim(1, jobId),
+    );
+    return leased ?? null;
+  }
+
+  /**
+   * The job, if this instance holds its lease, for starting another
+   * overlapping run without claiming it again.
+   */
+  async findOwnedJob(jobId: string): Promise<Job | null> {
+    return this.metricsService.timeQuery('find_owned_job', () =>
+      this.jobRepository
+        .createQueryBuilder('job')
+        .where('job.id = :jobId', { jobId })
+        .andWhere('job.status = :status', { status: JobStatus.ACTIVE })
+        .andWhere('job.nextRunAt <= :now', { now: new Date() })
+        .andWhere('job.leaseOwner = :owner', { owner: this.instanceId })
+        .getOne(),
+    );
+  }
+
+  /** Extends the lease; returns false if this instance no longer holds it. */
+  async renew(jobId: string): Promise<boolean> {
+    return this.updateIfOwned(jobId, {
+      leaseExpiresAt: new Date(Date.now() + this.leaseTtl),
+    });
+  }
+
+  /**
+   * Asks the instance running the job to abort it. Returns false if the job
+   * is not running.
+   */
+  async requestCancel(jobId: string): Promise<boolean> {
+    const result = await this.metricsService.timeQuery('request_cancel', () =>
+      this.jobRepository
+        .createQueryBuilder()
+        .update(Job)
+        .set({ cancelRequestedAt: new Date() })
+        .where('id = :jobId', { jobId })
+        .andWhere('leaseOwner IS NOT NULL')
+        .andWhere('leaseExpiresAt > :now', { now: new Date() })
+        .execute(),
+    );
+    return result.affected > 0;
+  }
+
+  async isCancelRequested(jobId: string): Promise<boolean> {
+    const job = await this.metricsService.timeQuery('check_cancel', () =>
+      this.jobRepository
+        .createQueryBuilder('job')
+        .select(['job.id', 'job.cancelRequestedAt'])
+        .where('job.id = :jobId', { jobId })
+        .getOne(),
+    );
+    return !!job?.cancelRequestedAt;
+  }
+
+  /**
+   * Applies `changes` only if this instance still holds the lease; returns
+   * false if the lease was lost (expired and claimed elsewhere).
+   */
+  async updateIfOwned(jobId: string, changes: Partial<Job>): Promise<boolean> {
+    const result = await this.metricsService.timeQuery('update_owned_job', () =>
+      this.jobRepository
+        .createQueryBuilder()
+        .update(Job)
+        .set(changes)
+        .where('id = :jobId', { jobId })
+        .andWhere('leaseOwner = :owner', { owner: this.instanceId })
+        .execute(),
+    );
+    return result.affected > 0;
+  }
+
+  /** Persists `changes` and releases the lease in the same conditional update. */
+  async release(jobId: string, changes: Partial<Job>): Promise<boolean> {
+    return this.updateIfOwned(jobId, {
+      ...changes,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      cancelRequestedAt: null,
+    });
+  }
+
+  private async claim(limit: number, jobId?: string): Promise<LeasedJob[]> {
+    const now = new Date();
+    const leaseExpiresAt = new Date(now.getTime() + this.leaseTtl);
+
+    return this.jobRepository.manager.transaction(async (manager) => {
+      const queryBuilder = manager
+        .createQueryBuilder(Job, 'job')
+        .where('job.status = :status', { status: JobStatus.ACTIVE })
+        .andWhere('job.nextRunAt <= :now', { now })
+        .andWhere('(job.leaseExpiresAt IS NULL OR job.leaseExpiresAt < :now)', {
+          now,
+        });
+
+      if (jobId) {
+        queryBuilder.andWhere('job.id = :jobId', { jobId });
+      }
+
+      const jobs = await queryBuilder
+        .orderBy('job.priority', 'DESC')
+        .addOrderBy('job.nextRunAt', 'ASC')
+        .limit(limit)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      if (jobs.length === 0) {
+        return [];
+      }
+
+      await manager
+        .createQueryBuilder()
+        .update(Job)
+        .set({
+          leaseOwner: this.instanceId,
+          leaseExpiresAt,
+          cancelRequestedAt: null,
+        })
+        .whereInIds(jobs.map((job) => job.id))
+        .execute();
+
+      return jobs.map((job) => {
+        const previousOwner = job.leaseOwner;
+        if (previousOwner) {
+          this.logger.warn(
+            `Reclaimed job ${job.id} from expired lease of ${previousOwner}`,
+          );
+        }
+        job.leaseOwner = this.instanceId;
+        job.leaseExpiresAt = leaseExpiresAt;
+        job.cancelRequestedAt = null;
+        return { job, previousOwner };
+      });
+    });
+  }
+}
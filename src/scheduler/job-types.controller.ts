@@ -0,0 +1,26 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { JobHandlerRegistry } from './handlers/job-handler.registry';
+import { JobTypeResponseDto } from './dto/job-type-response.dto';
+import { RequireScopes } from '../auth/auth.decorators';
+import { ApiScope } from '../auth/entities/api-key.entity';
+
+@ApiTags('job-types')
+@RequireScopes(ApiScope.JOBS_READ)
+@Controller('job-types')
+export class JobTypesController {
+  constructor(private readonly jobHandlerRegistry: JobHandlerRegistry) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the job types handlers are registered for' })
+  @ApiResponse({
+    status: 200,
+    description: 'Registered job types',
+    type: [JobTypeResponseDto],
+  })
+  findAll(): JobTypeResponseDto[] {
+    return this.jobHandlerRegistry
+      .list()
+      .map(JobTypeResponseDto.fromRegistration);
+  }
+}
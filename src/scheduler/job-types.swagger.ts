@@ -0,0 +1,62 @@
+import { OpenAPIObject } from '@nestjs/swagger';
+import {
+  ReferenceObject,
+  RequestBodyObject,
+  SchemaObject,
+} from '@nestjs/swagger/dist/interfaces/open-api-spec.interface';
+import { RegisteredJobHandler } from './handlers/job-handler.interface';
+
+/**
+ * Publishes each job type's metadata schema in the Swagger document, and
+ * describes POST /jobs as one variant per job type, discriminated by `type`.
+ */
+export function addJobTypeSchemas(
+  document: OpenAPIObject,
+  registrations: RegisteredJobHandler[],
+): OpenAPIObject {
+  const schemas = document.components.schemas;
+  const variants: ReferenceObject[] = [];
+  const mapping: Record<string, string> = {};
+
+  for (const { type, options } of registrations) {
+    const name = toSchemaName(type);
+    const properties: Record<string, SchemaObject | ReferenceObject> = {
+      type: { type: 'string', enum: [type] },
+    };
+    if (options.metadataSchema) {
+      schemas[`${name}JobMetadata`] = options.metadataSchema;
+      properties.metadata = {
+        $ref: `#/components/schemas/${name}JobMetadata`,
+      };
+    }
+
+    schemas[`Create${name}JobDto`] = {
+      allOf: [
+        { $ref: '#/components/schemas/CreateJobDto' },
+        { type: 'object', properties },
+      ],
+    };
+    variants.push({ $ref: `#/components/schemas/Create${name}JobDto` });
+    mapping[type] = `#/components/schemas/Create${name}JobDto`;
+  }
+
+  const createJob = document.paths['/jobs']?.post?.requestBody as
+    | RequestBodyObject
+    | undefined;
+  if (createJob && variants.length > 0) {
+    createJob.content['application/json'].schema = {
+      oneOf: variants,
+      discriminator: { propertyName: 'type', mapping },
+    };
+  }
+  return document;
+}
+
+// email_notification -> EmailNotification
+function toSchemaName(type: string): string {
+  return type
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+}
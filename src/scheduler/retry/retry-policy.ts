@@ -0,0 +1,90 @@
+export enum BackoffStrategy {
+  FIXED = 'fixed',
+  LINEAR = 'linear',
+  EXPONENTIAL = 'exponential',
+}
+
+export interface RetryPolicy {
+  maxAttempts: number; // Attempts per occurrence, including the first one
+  backoff: BackoffStrategy;
+  delayMs: number; // Delay before the first retry
+  maxDelayMs: number;
+  jitter: number; // Fraction of the delay randomised in either direction, 0-1
+  retryableErrors?: string[]; // Error class names or codes worth retrying; all if unset
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  backoff: BackoffStrategy.EXPONENTIAL,
+  delayMs: 60000,
+  maxDelayMs: 3600000,
+  jitter: 0,
+};
+
+/**
+ * Effective retry policy of a job: the job's own settings override its
+ * handler's defaults, which override the scheduler-wide defaults.
+ */
+export function resolveRetryPolicy(
+  ...overrides: (Partial<RetryPolicy> | null | undefined)[]
+): RetryPolicy {
+  const policy = { ...DEFAULT_RETRY_POLICY };
+  for (const override of overrides) {
+    for (const [key, value] of Object.entries(override ?? {})) {
+      if (value !== undefined && value !== null) {
+        policy[key] = value;
+      }
+    }
+  }
+  return policy;
+}
+
+/** Delay before retrying after the given (1-based) attempt failed. */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  let delay: number;
+  switch (policy.backoff) {
+    case BackoffStrategy.FIXED:
+      delay = policy.delayMs;
+      break;
+    case BackoffStrategy.LINEAR:
+      delay = policy.delayMs * attempt;
+      break;
+    case BackoffStrategy.EXPONENTIAL:
+      delay = policy.delayMs * Math.pow(2, attempt - 1);
+      break;
+  }
+
+  delay = Math.min(delay, policy.maxDelayMs);
+  if (policy.jitter > 0) {
+    delay *= 1 + policy.jitter * (2 * random() - 1);
+  }
+  return Math.round(Math.min(Math.max(delay, 0), policy.maxDelayMs));
+}
+
+/**
+ * Whether `error` is worth retrying under `policy`. Matches the error's name,
+ * the names of the classes it inherits from (so `retryableErrors: ['Error']`
+ * retries everything) and Node.js error codes such as `ECONNRESET`.
+ */
+export function isRetryableError(
+  policy: RetryPolicy,
+  error: Error & { code?: string },
+): boolean {
+  if (!policy.retryableErrors?.length) {
+    return true;
+  }
+
+  const names = new Set<string>([error?.name, error?.code]);
+  for (
+    let prototype = Object.getPrototypeOf(error ?? {});
+    prototype && prototype !== Object.prototype;
+    prototype = Object.getPrototypeOf(prototype)
+  ) {
+    names.add(prototype.constructor.name);
+  }
+  return policy.retryableErrors.some((name) => names.has(name));
+}
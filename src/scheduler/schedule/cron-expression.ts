@@ -0,0 +1,536 @@
+import { findOffsetTransition, getTimeZoneOffset } from './time-zone';
+
+interface CronFieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: Record<string, number>;
+}
+
+const MONTH_NAMES: Record<string, number> = {
+  JAN: 1,
+  FEB: 2,
+  MAR: 3,
+  APR: 4,
+  MAY: 5,
+  JUN: 6,
+  JUL: 7,
+  AUG: 8,
+  SEP: 9,
+  OCT: 10,
+  NOV: 11,
+  DEC: 12,
+};
+
+const DAY_NAMES: Record<string, number> = {
+  SUN: 0,
+  MON: 1,
+  TUE: 2,
+  WED: 3,
+  THU: 4,
+  FRI: 5,
+  SAT: 6,
+};
+
+const SECOND: CronFieldSpec = { name: 'second', min: 0, max: 59 };
+const MINUTE: CronFieldSpec = { name: 'minute', min: 0, max: 59 };
+const HOUR: CronFieldSpec = { name: 'hour', min: 0, max: 23 };
+const DAY_OF_MONTH: CronFieldSpec = { name: 'day of month', min: 1, max: 31 };
+const MONTH: CronFieldSpec = {
+  name: 'month',
+  min: 1,
+  max: 12,
+  aliases: MONTH_NAMES,
+};
+const DAY_OF_WEEK: CronFieldSpec = {
+  name: 'day of week',
+  min: 0,
+  max: 7, // 0 and 7 are both Sunday
+  aliases: DAY_NAMES,
+};
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+// Long enough to reach rare dates such as "the fifth Friday of February"
+const MAX_SEARCH_YEARS = 50;
+
+interface DayOfMonthField {
+  days: boolean[];
+  lastDayOffsets: number[]; // "L" and "L-n"
+  nearestWeekdays: number[]; // "nW"
+  lastWeekday: boolean; // "LW"
+}
+
+interface DayOfWeekField {
+  weekdays: boolean[];
+  nthWeekdays: Array<{ weekday: number; nth: number }>; // "n#k"
+  lastWeekdays: number[]; // "nL"
+}
+
+/**
+ * Cron expression with Vixie cron semantics plus the common Quartz
+ * extensions (L, W and #).
+ *
+ * Format: `[second] minute hour day-of-month month day-of-week`, or one of
+ * the `@yearly`, `@monthly`, `@weekly`, `@daily` and `@hourly` macros.
+ * Occurrences are matched against wall-clock time and computed field by
+ * field rather than by scanning every minute.
+ */
+export class CronExpression {
+  private constructor(
+    readonly source: string,
+    private readonly seconds: number[],
+    private readonly minutes: number[],
+    private readonly hours: number[],
+    private readonly months: number[],
+    private readonly dayOfMonth: DayOfMonthField,
+    private readonly dayOfWeek: DayOfWeekField,
+    private readonly dayOfMonthRestricted: boolean,
+    private readonly dayOfWeekRestricted: boolean,
+  ) {}
+
+  static parse(expression: string): CronExpression {
+    const source = expression.trim();
+    const expanded = source.startsWith('@')
+      ? MACROS[source.toLowerCase()]
+      : source;
+
+    if (!expanded) {
+      throw new Error(`Unsupported cron macro: ${source}`);
+    }
+
+    const parts = expanded.split(/\s+/);
+    if (parts.length !== 5 && parts.length !== 6) {
+      throw new Error(
+        `Invalid cron expression "${source}": expected 5 or 6 fields, got ${parts.length}`,
+      );
+    }
+    if (parts.length === 5) {
+      parts.unshift('0');
+    }
+
+    const [second, minute, hour, day, month, weekday] = parts;
+    const cron = new CronExpression(
+      source,
+      parseStandardField(second, SECOND),
+      parseStandardField(minute, MINUTE),
+      parseStandardField(hour, HOUR),
+      parseStandardField(month, MONTH),
+      parseDayOfMonthField(day),
+      parseDayOfWeekField(weekday),
+      !isUnrestricted(day),
+      !isUnrestricted(weekday),
+    );
+
+    if (!cron.nextWallTime(Date.UTC(2000, 0, 1))) {
+      throw new Error(`Cron expression "${source}" never matches any date`);
+    }
+
+    return cron;
+  }
+
+  /**
+   * Returns the first occurrence strictly after `from`, evaluated in the
+   * wall-clock time of `timeZone`, or null if there is none within the search
+   * horizon.
+   *
+   * Daylight saving transitions are resolved deterministically:
+   * - wall-clock times skipped when clocks jump forward fire at the instant
+   *   they would have had with the old offset, i.e. shifted later by the gap
+   *   (02:30 on a 02:00 -> 03:00 transition fires at 03:30);
+   * - wall-clock times repeated when clocks fall back fire only on their first
+   *   pass, unless the expression fires every hour, in which case it fires on
+   *   both passes so that the repeated hour is not left empty.
+   */
+  next(from: Date, timeZone = 'UTC'): Date | null {
+    let cursor = from.getTime();
+
+    // Each iteration either returns or moves past one offset transition
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const offset = getTimeZoneOffset(cursor, timeZone);
+      const wallTime = this.nextWallTime(cursor + offset);
+      if (wallTime === null) {
+        return null;
+      }
+
+      const candidate = wallTime - offset;
+      if (getTimeZoneOffset(candidate, timeZone) === offset) {
+        if (
+          !this.firesEveryHour &&
+          isRepeatedWallTime(candidate, wallTime, timeZone)
+        ) {
+          cursor = candidate;
+          continue;
+        }
+        return new Date(candidate);
+      }
+
+      const transition = findOffsetTransition(cursor, candidate, timeZone);
+      const newOffset = getTimeZoneOffset(transition, timeZone);
+
+      if (newOffset > offset) {
+        // Clocks jumped forward: wall times before transition + newOffset
+        // do not exist and fire shifted by the gap
+        if (wallTime < transition + newOffset) {
+          return new Date(candidate);
+        }
+      } else if (this.firesEveryHour) {
+        // Clocks fell back: wall times from transition + newOffset repeat
+        const repeated = this.nextWallTime(transition + newOffset - 1000);
+        if (repeated !== null && repeated < transition + offset) {
+          return new Date(repeated - newOffset);
+        }
+      }
+
+      const actual = wallTime - newOffset;
+      if (getTimeZoneOffset(actual, timeZone) === newOffset) {
+        return new Date(actual);
+      }
+      cursor = transition;
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds the first matching wall-clock time strictly after `after`. Wall
+   * times are encoded as UTC milliseconds so no time zone is involved.
+   */
+  nextWallTime(after: number): number | null {
+    const start = new Date(Math.floor(after / 1000) * 1000 + 1000);
+    const startYear = start.getUTCFullYear();
+    const startMonth = start.getUTCMonth() + 1;
+    const startDay = start.getUTCDate();
+    const startHour = start.getUTCHours();
+    const startMinute = start.getUTCMinutes();
+    const startSecond = start.getUTCSeconds();
+
+    for (let year = startYear; year <= startYear + MAX_SEARCH_YEARS; year++) {
+      const sameYear = year === startYear;
+
+      for (const month of this.months) {
+        if (sameYear && month < startMonth) {
+          continue;
+        }
+        const sameMonth = sameYear && month === startMonth;
+
+        for (const day of this.matchingDays(year, month)) {
+          if (sameMonth && day < startDay) {
+            continue;
+          }
+          const sameDay = sameMonth && day === startDay;
+
+          for (const hour of this.hours) {
+            if (sameDay && hour < startHour) {
+              continue;
+            }
+            const sameHour = sameDay && hour === startHour;
+
+            for (const minute of this.minutes) {
+              if (sameHour && minute < startMinute) {
+                continue;
+              }
+              const sameMinute = sameHour && minute === startMinute;
+
+              const second = this.seconds.find(
+                (value) => !sameMinute || value >= startSecond,
+              );
+              if (second !== undefined) {
+                return Date.UTC(year, month - 1, day, hour, minute, second);
+              }
+            }
+          }
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * True when every hour of the day matches, i.e. the expression fires
+   * hourly or more often.
+   */
+  get firesEveryHour(): boolean {
+    return this.hours.length === HOUR.max - HOUR.min + 1;
+  }
+
+  private matchingDays(year: number, month: number): number[] {
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const fromDayOfMonth = this.matchDaysOfMonth(year, month, daysInMonth);
+    const fromDayOfWeek = this.matchDaysOfWeek(year, month, daysInMonth);
+
+    const result: number[] = [];
+    for (let day = 1; day <= daysInMonth; day++) {
+      // Vixie cron: when both day fields are restricted, either may match
+      const matches =
+        this.dayOfMonthRestricted && this.dayOfWeekRestricted
+          ? fromDayOfMonth[day] || fromDayOfWeek[day]
+          : fromDayOfMonth[day] && fromDayOfWeek[day];
+      if (matches) {
+        result.push(day);
+      }
+    }
+    return result;
+  }
+
+  private matchDaysOfMonth(
+    year: number,
+    month: number,
+    daysInMonth: number,
+  ): boolean[] {
+    const field = this.dayOfMonth;
+    const matches = field.days.slice(0, daysInMonth + 1);
+
+    for (const offset of field.lastDayOffsets) {
+      if (daysInMonth - offset >= 1) {
+        matches[daysInMonth - offset] = true;
+      }
+    }
+    for (const day of field.nearestWeekdays) {
+      if (day <= daysInMonth) {
+        matches[nearestWeekday(year, month, day, daysInMonth)] = true;
+      }
+    }
+    if (field.lastWeekday) {
+      matches[nearestWeekday(year, month, daysInMonth, daysInMonth)] = true;
+    }
+
+    return matches;
+  }
+
+  private matchDaysOfWeek(
+    year: number,
+    month: number,
+    daysInMonth: number,
+  ): boolean[] {
+    const field = this.dayOfWeek;
+    const firstWeekday = weekdayOf(year, month, 1);
+    const matches: boolean[] = [];
+
+    for (let day = 1; day <= daysInMonth; day++) {
+      const weekday = (firstWeekday + day - 1) % 7;
+      const nth = Math.ceil(day / 7);
+      const isLast = day + 7 > daysInMonth;
+
+      matches[day] =
+        field.weekdays[weekday] ||
+        field.nthWeekdays.some(
+          (spec) => spec.weekday === weekday && spec.nth === nth,
+        ) ||
+        (isLast && field.lastWeekdays.includes(weekday));
+    }
+
+    return matches;
+  }
+}
+
+/**
+ * True when `wallTime`, observed at `instant`, already occurred earlier
+ * under a larger offset (the second pass through a fall-back transition).
+ */
+function isRepeatedWallTime(
+  instant: number,
+  wallTime: number,
+  timeZone: string,
+): boolean {
+  const earlierOffset = getTimeZoneOffset(instant - 86400000, timeZone);
+  const offset = getTimeZoneOffset(instant, timeZone);
+  return (
+    earlierOffset > offset &&
+    getTimeZoneOffset(wallTime - earlierOffset, timeZone) === earlierOffset
+  );
+}
+
+function isUnrestricted(field: string): boolean {
+  return field.startsWith('*') || field === '?';
+}
+
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/** Nearest Monday-Friday to `day` without leaving the month (Quartz "W"). */
+function nearestWeekday(
+  year: number,
+  month: number,
+  day: number,
+  daysInMonth: number,
+): number {
+  const weekday = weekdayOf(year, month, day);
+  if (weekday === 6) {
+    return day === 1 ? day + 2 : day - 1;
+  }
+  if (weekday === 0) {
+    return day === daysInMonth ? day - 2 : day + 1;
+  }
+  return day;
+}
+
+function parseValue(token: string, spec: CronFieldSpec): number {
+  const alias = spec.aliases?.[token.toUpperCase()];
+  if (alias !== undefined) {
+    return alias;
+  }
+
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`Invalid ${spec.name} value: "${token}"`);
+  }
+
+  const value = parseInt(token, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(
+      `${capitalize(spec.name)} value ${value} is out of range ${spec.min}-${spec.max}`,
+    );
+  }
+  return value;
+}
+
+/** Parses `*`, `n`, `n-m`, any of them with `/step`, and comma lists. */
+function parseRangeInto(
+  item: string,
+  spec: CronFieldSpec,
+  target: boolean[],
+): void {
+  const [range, stepToken, ...rest] = item.split('/');
+  if (rest.length > 0 || range === '') {
+    throw new Error(`Invalid ${spec.name} expression: "${item}"`);
+  }
+
+  let step = 1;
+  if (stepToken !== undefined) {
+    if (!/^\d+$/.test(stepToken) || parseInt(stepToken, 10) === 0) {
+      throw new Error(`Invalid ${spec.name} step: "${item}"`);
+    }
+    step = parseInt(stepToken, 10);
+  }
+
+  let start: number;
+  let end: number;
+  if (range === '*' || range === '?') {
+    start = spec.min;
+    end = spec.max;
+  } else if (range.includes('-')) {
+    const [startToken, endToken, ...extra] = range.split('-');
+    if (extra.length > 0) {
+      throw new Error(`Invalid ${spec.name} range: "${item}"`);
+    }
+    start = parseValue(startToken, spec);
+    end = parseValue(endToken, spec);
+    if (start > end) {
+      throw new Error(
+        `Invalid ${spec.name} range "${item}": start is after end`,
+      );
+    }
+  } else {
+    start = parseValue(range, spec);
+    // "n/step" means from n to the end of the range
+    end = stepToken !== undefined ? spec.max : start;
+  }
+
+  for (let value = start; value <= end; value += step) {
+    target[value] = true;
+  }
+}
+
+function splitList(field: string, spec: CronFieldSpec): string[] {
+  const items = field.split(',');
+  if (items.some((item) => item === '')) {
+    throw new Error(`Invalid ${spec.name} list: "${field}"`);
+  }
+  return items;
+}
+
+function parseStandardField(field: string, spec: CronFieldSpec): number[] {
+  const matches: boolean[] = [];
+  for (const item of splitList(field, spec)) {
+    if (item.includes('?')) {
+      throw new Error(`"?" is only allowed in day fields, got "${field}"`);
+    }
+    parseRangeInto(item, spec, matches);
+  }
+
+  const values: number[] = [];
+  matches.forEach((matched, value) => matched && values.push(value));
+  return values;
+}
+
+function parseDayOfMonthField(field: string): DayOfMonthField {
+  const result: DayOfMonthField = {
+    days: [],
+    lastDayOffsets: [],
+    nearestWeekdays: [],
+    lastWeekday: false,
+  };
+
+  for (const item of splitList(field, DAY_OF_MONTH)) {
+    const upper = item.toUpperCase();
+    const lastOffset = upper.match(/^L(?:-(\d+))?$/);
+    const nearest = upper.match(/^(\d+)W$/);
+
+    if (upper === 'LW') {
+      result.lastWeekday = true;
+    } else if (lastOffset) {
+      const offset = parseInt(lastOffset[1] || '0', 10);
+      if (offset > 30) {
+        throw new Error(`Invalid day of month offset: "${item}"`);
+      }
+      result.lastDayOffsets.push(offset);
+    } else if (nearest) {
+      result.nearestWeekdays.push(parseValue(nearest[1], DAY_OF_MONTH));
+    } else {
+      parseRangeInto(item, DAY_OF_MONTH, result.days);
+    }
+  }
+
+  return result;
+}
+
+function parseDayOfWeekField(field: string): DayOfWeekField {
+  const result: DayOfWeekField = {
+    weekdays: [],
+    nthWeekdays: [],
+    lastWeekdays: [],
+  };
+  const normalize = (weekday: number) => weekday % 7;
+
+  for (const item of splitList(field, DAY_OF_WEEK)) {
+    const nth = item.match(/^(\w+)#(\d+)$/);
+    const last = item.match(/^(\w+)L$/i);
+
+    if (nth) {
+      const occurrence = parseInt(nth[2], 10);
+      if (occurrence < 1 || occurrence > 5) {
+        throw new Error(`Invalid day of week occurrence: "${item}"`);
+      }
+      result.nthWeekdays.push({
+        weekday: normalize(parseValue(nth[1], DAY_OF_WEEK)),
+        nth: occurrence,
+      });
+    } else if (last) {
+      result.lastWeekdays.push(normalize(parseValue(last[1], DAY_OF_WEEK)));
+    } else {
+      const weekdays: boolean[] = [];
+      parseRangeInto(item, DAY_OF_WEEK, weekdays);
+      weekdays.forEach((matched, weekday) => {
+        if (matched) {
+          result.weekdays[normalize(weekday)] = true;
+        }
+      });
+    }
+  }
+
+  return result;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
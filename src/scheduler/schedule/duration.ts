@@ -0,0 +1,105 @@
+import { getTimeZoneOffset, wallTimeToInstant } from './time-zone';
+
+export interface Duration {
+  years: number;
+  months: number;
+  weeks: number;
+  days: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+const DURATION_PATTERN =
+  /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+/**
+ * Parses an ISO 8601 duration such as `PT5M`, `P1D`, `P1W` or `P1DT12H`.
+ */
+export function parseDuration(text: string): Duration {
+  const match = text.match(DURATION_PATTERN);
+  if (!match || text === 'P' || text.endsWith('T')) {
+    throw new Error(`Invalid interval format: ${text}`);
+  }
+
+  const [years, months, weeks, days, hours, minutes, seconds] = match
+    .slice(1)
+    .map((value) => parseInt(value || '0', 10));
+  const duration = { years, months, weeks, days, hours, minutes, seconds };
+
+  if (Object.values(duration).every((value) => value === 0)) {
+    throw new Error('Interval must be greater than 0');
+  }
+
+  return duration;
+}
+
+export function scaleDuration(duration: Duration, factor: number): Duration {
+  return {
+    years: duration.years * factor,
+    months: duration.months * factor,
+    weeks: duration.weeks * factor,
+    days: duration.days * factor,
+    hours: duration.hours * factor,
+    minutes: duration.minutes * factor,
+    seconds: duration.seconds * factor,
+  };
+}
+
+/** Rough length of a duration, for estimates only. */
+export function approximateDurationMs(duration: Duration): number {
+  const days =
+    duration.years * 365.2425 +
+    duration.months * 30.436875 +
+    duration.weeks * 7 +
+    duration.days;
+  return (
+    days * 86400000 +
+    duration.hours * 3600000 +
+    duration.minutes * 60000 +
+    duration.seconds * 1000
+  );
+}
+
+/**
+ * Adds a duration to an instant. Calendar components (years, months, weeks
+ * and days) move the wall-clock date in `timeZone`, keeping the local time
+ * of day across daylight saving changes and clamping to the end of shorter
+ * months; time components add elapsed time.
+ */
+export function addDuration(
+  from: Date,
+  duration: Duration,
+  timeZone = 'UTC',
+): Date {
+  let instant = from.getTime();
+
+  if (duration.years || duration.months || duration.weeks || duration.days) {
+    const wall = new Date(instant + getTimeZoneOffset(instant, timeZone));
+    const totalMonths =
+      wall.getUTCMonth() + duration.years * 12 + duration.months;
+    const year = wall.getUTCFullYear() + Math.floor(totalMonths / 12);
+    const month = ((totalMonths % 12) + 12) % 12;
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+    const wallTime =
+      Date.UTC(
+        year,
+        month,
+        Math.min(wall.getUTCDate(), daysInMonth),
+        wall.getUTCHours(),
+        wall.getUTCMinutes(),
+        wall.getUTCSeconds(),
+        wall.getUTCMilliseconds(),
+      ) +
+      (duration.weeks * 7 + duration.days) * 86400000;
+    instant = wallTimeToInstant(wallTime, timeZone);
+  }
+
+  instant +=
+    duration.hours * 3600000 +
+    duration.minutes * 60000 +
+    duration.seconds * 1000;
+
+  return new Date(instant);
+}
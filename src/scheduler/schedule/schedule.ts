@@ -0,0 +1,204 @@
+import { CronExpression } from './cron-expression';
+import {
+  Duration,
+  addDuration,
+  approximateDurationMs,
+  parseDuration,
+  scaleDuration,
+} from './duration';
+
+export type Schedule =
+  | { kind: 'cron'; cron: CronExpression }
+  | { kind: 'interval'; duration: Duration }
+  | {
+      kind: 'repeating';
+      start: Date;
+      duration: Duration;
+      repetitions: number | null;
+    }
+  | { kind: 'once'; at: Date };
+
+export interface ScheduleOptions {
+  timezone?: string;
+  startAt?: Date | null;
+  endAt?: Date | null;
+  maxRuns?: number | null;
+  runCount?: number;
+}
+
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+function parseTimestamp(text: string): Date {
+  const date = new Date(text);
+  if (!TIMESTAMP_PATTERN.test(text) || isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid timestamp "${text}": expected ISO 8601 date-time with a UTC offset`,
+    );
+  }
+  return date;
+}
+
+/**
+ * Parses a schedule expression. Supported forms:
+ * - cron expressions (`*\/5 * * * *`, `@daily`, ...)
+ * - ISO 8601 durations repeating forever (`PT5M`, `P1D`, `P1DT12H`)
+ * - ISO 8601 repeating intervals (`R5/2026-01-01T00:00:00Z/PT1H`, `R/...`)
+ * - a single ISO 8601 timestamp to run once (`2026-01-01T09:00:00Z`)
+ */
+export function parseSchedule(expression: string): Schedule {
+  const text = expression.trim();
+
+  if (text.startsWith('R') && text.includes('/')) {
+    const parts = text.split('/');
+    const repetitions = parts[0].match(/^R(\d*)$/);
+    if (parts.length !== 3 || !repetitions) {
+      throw new Error(
+        `Invalid repeating interval "${text}": expected R[n]/<start>/<duration>`,
+      );
+    }
+    const count = repetitions[1] === '' ? null : parseInt(repetitions[1], 10);
+    if (count === 0) {
+      throw new Error('Repeating interval must repeat at least once');
+    }
+    return {
+      kind: 'repeating',
+      start: parseTimestamp(parts[1]),
+      duration: parseDuration(parts[2]),
+      repetitions: count,
+    };
+  }
+
+  if (text.startsWith('P')) {
+    return { kind: 'interval', duration: parseDuration(text) };
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(text)) {
+    return { kind: 'once', at: parseTimestamp(text) };
+  }
+
+  return { kind: 'cron', cron: CronExpression.parse(text) };
+}
+
+/**
+ * Next time a schedule fires after `from`, honouring the job's start and
+ * end bounds and run limit. Returns null once the schedule is exhausted.
+ */
+export function getNextOccurrence(
+  schedule: Schedule,
+  from: Date,
+  options: ScheduleOptions = {},
+): Date | null {
+  const { timezone = 'UTC', startAt, endAt, maxRuns, runCount = 0 } = options;
+
+  if (maxRuns && runCount >= maxRuns) {
+    return null;
+  }
+
+  // Occurrences at startAt itself are included
+  const after =
+    startAt && startAt.getTime() > from.getTime()
+      ? new Date(startAt.getTime() - 1)
+      : from;
+
+  let next: Date | null;
+  switch (schedule.kind) {
+    case 'cron':
+      next = schedule.cron.next(after, timezone);
+      break;
+    case 'interval':
+      next =
+        after === from
+          ? addDuration(from, schedule.duration, timezone)
+          : startAt;
+      break;
+    case 'repeating':
+      next = nextRepetition(schedule, after, timezone);
+      break;
+    case 'once':
+      // Fires once even if the timestamp is already in the past
+      next = runCount === 0 ? schedule.at : null;
+      break;
+  }
+
+  if (next && endAt && next.getTime() > endAt.getTime()) {
+    return null;
+  }
+  return next;
+}
+
+function nextRepetition(
+  schedule: Extract<Schedule, { kind: 'repeating' }>,
+  after: Date,
+  timezone: string,
+): Date | null {
+  const occurrence = (index: number) =>
+    addDuration(
+      schedule.start,
+      scaleDuration(schedule.duration, index),
+      timezone,
+    );
+
+  // Estimate the index, then step to the first occurrence after `after`
+  const elapsed = after.getTime() - schedule.start.getTime();
+  let index = Math.max(
+    0,
+    Math.floor(elapsed / approximateDurationMs(schedule.duration)) - 1,
+  );
+  while (occurrence(index).getTime() <= after.getTime()) {
+    index++;
+  }
+
+  if (schedule.repetitions !== null && index >= schedule.repetitions) {
+    return null;
+  }
+  return occurrence(index);
+}
+
+// Bounds the sampling of a cron schedule's occurrences
+const INTERVAL_SAMPLE_SIZE = 1000;
+const INTERVAL_SAMPLE_SPAN_MS = 366 * 86400000;
+
+/**
+ * Shortest time between consecutive occurrences of a schedule, in
+ * milliseconds, or null if it fires at most once. Calendar durations count
+ * at their average length, and cron schedules are sampled over their next
+ * occurrences, up to a year ahead of `from`.
+ */
+export function getShortestInterval(
+  schedule: Schedule,
+  from: Date = new Date(),
+  timezone = 'UTC',
+): number | null {
+  switch (schedule.kind) {
+    case 'once':
+      return null;
+    case 'interval':
+      return approximateDurationMs(schedule.duration);
+    case 'repeating':
+      return schedule.repetitions === 1
+        ? null
+        : approximateDurationMs(schedule.duration);
+    case 'cron': {
+      let shortest: number | null = null;
+      let previous = schedule.cron.next(from, timezone);
+      for (
+        let sampled = 1;
+        previous &&
+        sampled < INTERVAL_SAMPLE_SIZE &&
+        previous.getTime() - from.getTime() < INTERVAL_SAMPLE_SPAN_MS &&
+        shortest !== 1000; // Cron's resolution
+        sampled++
+      ) {
+        const next = schedule.cron.next(previous, timezone);
+        if (next) {
+          const interval = next.getTime() - previous.getTime();
+          shortest =
+            shortest === null ? interval : Math.min(shortest, interval);
+        }
+        previous = next;
+      }
+      return shortest;
+    }
+  }
+}
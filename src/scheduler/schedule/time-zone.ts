@@ -0,0 +1,104 @@
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Offset of `timeZone` from UTC at the given instant, in milliseconds
+ * (wall-clock time minus UTC).
+ */
+export function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const values: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') {
+      values[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  const wallTime = Date.UTC(
+    values.year,
+    values.month - 1,
+    values.day,
+    values.hour,
+    values.minute,
+    values.second,
+  );
+  return wallTime - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * First instant in (`from`, `to`] at which the offset of `timeZone` differs
+ * from its offset at `from`. The caller guarantees the offsets differ.
+ */
+export function findOffsetTransition(
+  from: number,
+  to: number,
+  timeZone: string,
+): number {
+  const offset = getTimeZoneOffset(from, timeZone);
+  let low = from;
+  let high = to;
+  while (high - low > 1) {
+    const middle = low + Math.floor((high - low) / 2);
+    if (getTimeZoneOffset(middle, timeZone) === offset) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return high;
+}
+
+/**
+ * Formats an instant as ISO 8601 local time with its UTC offset, e.g.
+ * `2024-03-10T09:00:00-04:00`.
+ */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  const offset = getTimeZoneOffset(date.getTime(), timeZone);
+  const wallTime = new Date(Math.floor(date.getTime() / 1000) * 1000 + offset)
+    .toISOString()
+    .slice(0, 19);
+
+  const offsetMinutes = Math.round(Math.abs(offset) / 60000);
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(offsetMinutes / 60)).padStart(2, '0');
+  const minutes = String(offsetMinutes % 60).padStart(2, '0');
+
+  return `${wallTime}${sign}${hours}:${minutes}`;
+}
+
+/**
+ * Converts a wall-clock time in `timeZone` (encoded as UTC milliseconds) to
+ * an instant. Ambiguous times resolve to their first occurrence; times
+ * skipped by a forward transition are shifted later by the gap.
+ */
+export function wallTimeToInstant(wallTime: number, timeZone: string): number {
+  const offsetBefore = getTimeZoneOffset(wallTime - 86400000, timeZone);
+  const offsetAfter = getTimeZoneOffset(wallTime + 86400000, timeZone);
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map((offset) => wallTime - offset)
+    .filter(
+      (instant) => getTimeZoneOffset(instant, timeZone) === wallTime - instant,
+    );
+
+  if (candidates.length === 0) {
+    return wallTime - offsetBefore;
+  }
+  return Math.min(...candidates);
+}
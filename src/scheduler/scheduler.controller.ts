@@ -0,0 +1,34 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SchedulerService } from './scheduler.service';
+import { JobLeaseService } from './job-lease.service';
+import { SchedulerQueueResponseDto } from './dto/scheduler-queue-response.dto';
+import { CurrentTenant, RequireScopes } from '../auth/auth.decorators';
+import { ApiScope } from '../auth/entities/api-key.entity';
+
+@ApiTags('scheduler')
+@RequireScopes(ApiScope.JOBS_READ)
+@Controller('scheduler')
+export class SchedulerController {
+  constructor(
+    private readonly schedulerService: SchedulerService,
+    private readonly jobLeaseService: JobLeaseService,
+  ) {}
+
+  @Get('queue')
+  @ApiOperation({
+    summary:
+      "Show the caller's jobs waiting for a free slot on this instance, and why they're waiting",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Dispatch queue and slot usage',
+    type: SchedulerQueueResponseDto,
+  })
+  getQueue(@CurrentTenant() tenantId: string): SchedulerQueueResponseDto {
+    return SchedulerQueueResponseDto.fromStatus(
+      this.jobLeaseService.instanceId,
+      this.schedulerService.getQueueStatus(tenantId),
+    );
+  }
+}
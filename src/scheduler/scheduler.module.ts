@@ -1,13 +1,55 @@
 import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { SchedulerService } from './scheduler.service';
 import { JobExecutorService } from './job-executor.service';
+import { JobLeaseService } from './job-lease.service';
+import { JobTypesController } from './job-types.controller';
+import { SchedulerController } from './scheduler.controller';
+import { JobHandlerRegistry } from './handlers/job-handler.registry';
+import { WorkerPoolService } from './workers/worker-pool.service';
+import { EmailNotificationHandler } from './handlers/email-notification.handler';
+import { NumberCrunchingHandler } from './handlers/number-crunching.handler';
+import { DataProcessingHandler } from './handlers/data-processing.handler';
+import { ReportGenerationHandler } from './handlers/report-generation.handler';
+import { HttpRequestHandler } from './handlers/http-request.handler';
 import { Job } from '../jobs/entities/job.entity';
+import { JobRunsModule } from '../job-runs/job-runs.module';
+import { EventsModule } from '../events/events.module';
+import { MailModule } from '../mail/mail.module';
+import { ReportsModule } from '../reports/reports.module';
+import { ArtifactsModule } from '../artifacts/artifacts.module';
+import { RecordSourcesModule } from '../record-sources/record-sources.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { TenantsModule } from '../tenants/tenants.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Job])],
-  providers: [SchedulerService, JobExecutorService],
-  exports: [SchedulerService],
+  imports: [
+    TypeOrmModule.forFeature([Job]),
+    DiscoveryModule,
+    JobRunsModule,
+    EventsModule,
+    MailModule,
+    ReportsModule,
+    ArtifactsModule,
+    RecordSourcesModule,
+    MetricsModule,
+    TenantsModule,
+  ],
+  controllers: [JobTypesController, SchedulerController],
+  providers: [
+    SchedulerService,
+    JobExecutorService,
+    JobLeaseService,
+    JobHandlerRegistry,
+    WorkerPoolService,
+    // Built-in job handlers
+    EmailNotificationHandler,
+    NumberCrunchingHandler,
+    DataProcessingHandler,
+    ReportGenerationHandler,
+    HttpRequestHandler,
+  ],
+  exports: [SchedulerService, JobHandlerRegistry, WorkerPoolService],
 })
 export class SchedulerModule {}
-
@@ -1,8 +1,46 @@
 import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { Job, JobStatus } from '../jobs/entities/job.entity';
+import { Job, JobStatus, MisfirePolicy } from '../jobs/entities/job.entity';
+import { ConfigService } from '@nestjs/config';
 import { JobExecutorService } from './job-executor.service';
+import { JobLeaseService, LeasedJob } from './job-lease.service';
+import { JobHandlerRegistry } from './handlers/job-handler.registry';
+import {
+  JobCancelledError,
+  JobTimeoutError,
+  LeaseLostError,
+} from './job-execution.errors';
+import { JobExecutionContext } from './handlers/job-handler.interface';
+import { JobRunsService } from '../job-runs/job-runs.service';
+import { JobRun } from '../job-runs/entities/job-run.entity';
+import { JobEventType, JobEventsService } from '../events/job-events.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { TenantQuotasService } from '../tenants/tenant-quotas.service';
+import { getNextOccurrence, parseSchedule } from './schedule/schedule';
+import {
+  DispatchQueue,
+  QueuedDispatch,
+  QueueWaitReason,
+  parseTypeConcurrency,
+} from './dispatch/dispatch-queue';
+import {
+  RetryPolicy,
+  getRetryDelay,
+  isRetryableError,
+  resolveRetryPolicy,
+} from './retry/retry-policy';
+
+type JobScheduleDefinition = Pick<
+  Job,
+  'schedule' | 'timezone' | 'startAt' | 'endAt' | 'maxRuns' | 'runCount'
+>;
+
+// Bounds the work of enumerating occurrences missed during long downtime
+const MAX_MISSED_OCCURRENCES = 1000;
+
+// Due jobs queued per poll of the database
+const POLL_BATCH_SIZE = 100;
 
 interface ScheduledJob {
   id: string;
@@ -13,21 +51,103 @@ interface ScheduledJob {
 interface ExecutingJob {
   id: string;
   startTime: Date;
+  abortController: AbortController;
+}
+
+export interface QueueStatus {
+  maxConcurrency: number;
+  running: number;
+  tenant: { id: string; running: number; maxConcurrency?: number };
+  types: { type: string; running: number; maxConcurrency?: number }[];
+  queued: (QueuedDispatch & { reason: QueueWaitReason | null })[];
+}
+
+export interface SchedulerLoopStatus {
+  // Whether the active jobs were loaded since startup; retried until they are
+  loaded: boolean;
+  startedAt: Date | null;
+  lastTickAt: Date | null;
+  // Last poll of the database for due jobs that succeeded
+  lastPollAt: Date | null;
+  checkInterval: number;
 }
 
 @Injectable()
 export class SchedulerService implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(SchedulerService.name);
   private scheduledJobs: Map<string, ScheduledJob> = new Map();
-  private executingJobs: Map<string, ExecutingJob> = new Map(); // Track currently executing jobs
-  private readonly checkInterval = 60000; // Check every minute
+  private executingJobs: Map<string, ExecutingJob[]> = new Map(); // Track currently executing jobs
+  private readonly dispatchQueue: DispatchQueue;
+  private readonly maxConcurrency: number;
+  private readonly typeConcurrency: Record<string, number>;
+  private readonly checkInterval: number;
+  private readonly misfireGrace: number;
+  private readonly catchUpLimit: number;
+  private readonly catchUpStagger: number;
+  private nextCatchUpSlot = 0;
   private intervalId: NodeJS.Timeout;
+  private loaded = false;
+  private startedAt: Date | null = null;
+  private lastTickAt: Date | null = null;
+  private lastPollAt: Date | null = null;
 
   constructor(
     @InjectRepository(Job)
     private readonly jobRepository: Repository<Job>,
     private readonly jobExecutorService: JobExecutorService,
-  ) {}
+    private readonly jobRunsService: JobRunsService,
+    private readonly jobLeaseService: JobLeaseService,
+    private readonly jobHandlerRegistry: JobHandlerRegistry,
+    private readonly jobEventsService: JobEventsService,
+    private readonly metricsService: MetricsService,
+    private readonly tenantQuotasService: TenantQuotasService,
+    configService: ConfigService,
+  ) {
+    // Due jobs scheduled by other instances are picked up on this interval
+    this.checkInterval = Number(
+      configService.get('SCHEDULER_POLL_INTERVAL_MS', 60000),
+    );
+    this.misfireGrace = Number(
+      configService.get('SCHEDULER_MISFIRE_GRACE_MS', 60000),
+    );
+    this.catchUpLimit = Number(
+      configService.get('SCHEDULER_MISFIRE_CATCH_UP_LIMIT', 10),
+    );
+    this.catchUpStagger = Number(
+      configService.get('SCHEDULER_CATCH_UP_STAGGER_MS', 1000),
+    );
+    this.maxConcurrency = Number(
+      configService.get('SCHEDULER_MAX_CONCURRENCY', 10),
+    );
+    this.typeConcurrency = parseTypeConcurrency(
+      configService.get('SCHEDULER_TYPE_CONCURRENCY', ''),
+    );
+    this.dispatchQueue = new DispatchQueue({
+      global: this.maxConcurrency,
+      forType: (type) => this.getTypeConcurrency(type),
+      forTenant: (tenantId) => this.getTenantConcurrency(tenantId),
+    });
+
+    metricsService.addGauge(
+      'scheduler_scheduled_jobs',
+      'Jobs with their next occurrence timed on this instance',
+      () => this.scheduledJobs.size,
+    );
+    metricsService.addGauge(
+      'scheduler_executing_jobs',
+      'Job runs executing on this instance',
+      () =>
+        [...this.executingJobs.values()].reduce(
+          (total, executions) => total + executions.length,
+          0,
+        ),
+    );
+    metricsService.addGauge(
+      'scheduler_dispatch_queue_depth',
+      'Due jobs waiting for a free slot on this instance',
+      () => this.dispatchQueue.length,
+    );
+  }
 
   async onModuleInit() {
     // Load all active jobs from database on startup
@@ -55,25 +175,33 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
   private async loadActiveJobs() {
     try {
       // Use query builder with index for better performance
-      const activeJobs = await this.jobRepository
-        .createQueryBuilder('job')
-        .where('job.status = :status', { status: JobStatus.ACTIVE })
-        .getMany();
+      const activeJobs = await this.metricsService.timeQuery(
+        'load_active_jobs',
+        () =>
+          this.jobRepository
+            .createQueryBuilder('job')
+            .where('job.status = :status', { status: JobStatus.ACTIVE })
+            .getMany(),
+      );
 
       // Batch update jobs without nextRunAt
       const jobsToUpdate = activeJobs.filter((job) => !job.nextRunAt);
       if (jobsToUpdate.length > 0) {
         for (const job of jobsToUpdate) {
-          job.nextRunAt = this.calculateNextRun(job.schedule);
+          job.nextRunAt = this.calculateNextRun(job);
+          if (!job.nextRunAt) {
+            job.status = JobStatus.COMPLETED;
+          }
         }
         await this.jobRepository.save(jobsToUpdate);
       }
 
-      // Schedule all jobs
+      // Time all jobs; loading them on startup doesn't reschedule them
       for (const job of activeJobs) {
-        await this.scheduleJob(job);
+        this.setTimer(job);
       }
 
+      this.loaded = true;
       this.logger.log(`Loaded ${activeJobs.length} active jobs`);
     } catch (error) {
       this.logger.error(`Error loading active jobs: ${error.message}`);
@@ -81,6 +209,7 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
   }
 
   private startScheduler() {
+    this.startedAt = new Date();
     // Run scheduler check every minute
     this.intervalId = setInterval(() => {
       this.checkAndExecuteJobs();
@@ -88,60 +217,103 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
   }
 
   private async checkAndExecuteJobs() {
-    const now = new Date();
-    const jobsToExecute: Job[] = [];
+    this.lastTickAt = new Date();
+    if (!this.loaded) {
+      await this.loadActiveJobs();
+    }
+
+    // Queue due jobs from the database, including jobs scheduled by other
+    // instances and jobs whose lease expired with a crashed instance
+    let dueJobs: Job[];
+    try {
+      dueJobs = await this.jobLeaseService.findDueJobs(POLL_BATCH_SIZE);
+    } catch (error) {
+      this.logger.error(`Error finding due jobs: ${error.message}`);
+      return;
+    }
+    this.lastPollAt = new Date();
+
+    dueJobs.forEach((job) => this.dispatchQueue.enqueue(job));
+    this.drainQueue();
+  }
 
-    // Find jobs that should run now (only if not already executing)
-    for (const [jobId, scheduledJob] of this.scheduledJobs.entries()) {
-      // Skip if already executing
-      if (this.executingJobs.has(jobId)) {
-        continue;
+  /** Dispatches queued jobs for as long as their limits leave slots free. */
+  private drainQueue(): void {
+    for (
+      let queued = this.dispatchQueue.take();
+      queued;
+      queued = this.dispatchQueue.take()
+    ) {
+      this.dispatch(queued);
+    }
+  }
+
+  /** Runs a dispatched job if no other instance has it, then frees its slot. */
+  private async dispatch({ job, enqueuedAt }: QueuedDispatch): Promise<void> {
+    try {
+      const leasedJob = await this.leaseForDispatch(job.id);
+      if (leasedJob) {
+        await this.executeJob(leasedJob, enqueuedAt);
       }
+    } catch (error) {
+      this.logger.error(`Error claiming job ${job.id}: ${error.message}`);
+    } finally {
+      this.dispatchQueue.release(job);
+      this.drainQueue();
+    }
+  }
 
-      if (scheduledJob.nextRunAt <= now) {
-        try {
-          // Use query builder for better performance
-          const job = await this.jobRepository
-            .createQueryBuilder('job')
-            .where('job.id = :id', { id: jobId })
-            .andWhere('job.status = :status', { status: JobStatus.ACTIVE })
-            .getOne();
-          
-          if (job) {
-            // Remove from scheduled jobs to prevent duplicate execution
-            this.unscheduleJob(jobId);
-            jobsToExecute.push(job);
-          }
-        } catch (error) {
-          this.logger.error(`Error fetching job ${jobId}: ${error.message}`);
-        }
+  /**
+   * Claims the job, unless this instance already holds its lease for an
+   * overlapping run of it.
+   */
+  private async leaseForDispatch(jobId: string): Promise<LeasedJob | null> {
+    if (this.dispatchQueue.runningCount(jobId) > 1) {
+      const job = await this.jobLeaseService.findOwnedJob(jobId);
+      if (job) {
+        return { job, previousOwner: null };
       }
     }
 
-    // Execute jobs in parallel for better performance (with concurrency limit)
-    const concurrencyLimit = 10;
-    for (let i = 0; i < jobsToExecute.length; i += concurrencyLimit) {
-      const batch = jobsToExecute.slice(i, i + concurrencyLimit);
-      await Promise.all(batch.map((job) => this.executeJob(job)));
+    const leasedJob = await this.jobLeaseService.claimJob(jobId);
+    if (leasedJob) {
+      // The occurrence is running now, its timer is no longer needed
+      this.unscheduleJob(jobId);
     }
+    return leasedJob;
   }
 
   async scheduleJob(job: Job): Promise<void> {
+    const nextRunAt = this.setTimer(job);
+    if (nextRunAt) {
+      this.jobEventsService.emit({
+        type: JobEventType.SCHEDULED,
+        job: { ...job, nextRunAt },
+      });
+    }
+  }
+
+  /** Times the job's next occurrence on this instance, returning when it's due. */
+  private setTimer(job: Job): Date | null {
     if (job.status !== JobStatus.ACTIVE) {
-      return;
+      return null;
     }
 
     // Unschedule if already scheduled
     this.unscheduleJob(job.id);
 
-    const nextRunAt = job.nextRunAt || this.calculateNextRun(job.schedule);
+    const nextRunAt = job.nextRunAt || this.calculateNextRun(job);
+    if (!nextRunAt) {
+      return null;
+    }
     const now = new Date();
     const delay = Math.max(0, nextRunAt.getTime() - now.getTime());
 
-    const timeoutId = setTimeout(async () => {
+    const timeoutId = setTimeout(() => {
       // Remove from scheduled jobs before executing to prevent duplicate execution
       this.scheduledJobs.delete(job.id);
-      await this.executeJob(job);
+      this.dispatchQueue.enqueue({ ...job, nextRunAt });
+      this.drainQueue();
     }, delay);
 
     this.scheduledJobs.set(job.id, {
@@ -153,6 +325,7 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
     this.logger.log(
       `Scheduled job ${job.name} (${job.id}) to run at ${nextRunAt.toISOString()}`,
     );
+    return nextRunAt;
   }
 
   async unscheduleJob(jobId: string): Promise<void> {
@@ -162,191 +335,513 @@ export class SchedulerService implements OnModuleInit, OnModuleDestroy {
       this.scheduledJobs.delete(jobId);
       this.logger.log(`Unscheduled job ${jobId}`);
     }
+    this.dispatchQueue.remove(jobId);
   }
 
-  private async executeJob(job: Job): Promise<void> {
-    // Prevent duplicate execution
-    if (this.executingJobs.has(job.id)) {
-      this.logger.warn(`Job ${job.id} is already executing, skipping duplicate execution`);
-      return;
-    }
-
+  /**
+   * Runs the leased job. `dueAt` is when it was found due, before it waited
+   * in the dispatch queue for slots.
+   */
+  private async executeJob(
+    { job, previousOwner }: LeasedJob,
+    dueAt: Date,
+  ): Promise<void> {
     // Mark as executing
-    this.executingJobs.set(job.id, { id: job.id, startTime: new Date() });
+    const abortController = new AbortController();
+    const execution: ExecutingJob = {
+      id: job.id,
+      startTime: new Date(),
+      abortController,
+    };
+    this.executingJobs.set(job.id, [
+      ...(this.executingJobs.get(job.id) ?? []),
+      execution,
+    ]);
+    const heartbeat = this.startHeartbeat(job.id, abortController);
+    // Jobs allowing overlapping runs move on to their next occurrence as
+    // soon as a run starts, rather than when it finishes
+    const overlapping = job.maxConcurrency > 1;
+    let run: JobRun;
 
     try {
       this.logger.log(`Executing job ${job.name} (${job.id})`);
 
-      // Reload job from database to get latest state
-      const freshJob = await this.jobRepository.findOne({ where: { id: job.id } });
-      if (!freshJob || freshJob.status !== JobStatus.ACTIVE) {
-        this.logger.warn(`Job ${job.id} is no longer active, skipping execution`);
-        this.executingJobs.delete(job.id);
+      if (previousOwner) {
+        await this.jobRunsService.abandon(job.id, previousOwner);
+      }
+
+      // Occurrences missed while this or every instance was down or behind
+      // are handled by the job's misfire policy instead. Time spent waiting
+      // for slots doesn't count, as the job was started as soon as it could
+      if (this.isMisfire(job, dueAt)) {
+        await this.handleMisfire(job);
         return;
       }
 
-      // Update last run time
-      freshJob.lastRunAt = new Date();
-      freshJob.runCount += 1;
+      // Update last run time before executing so that failed runs also
+      // count towards the job's run limit
+      job.lastRunAt = new Date();
+      job.runCount += 1;
+      const stillOwned = await this.jobLeaseService.updateIfOwned(job.id, {
+        lastRunAt: job.lastRunAt,
+        runCount: job.runCount,
+      });
+      if (!stillOwned) {
+        this.logger.warn(`Lost lease on job ${job.id}, skipping execution`);
+        return;
+      }
+      run = await this.jobRunsService.start(job);
+      this.jobEventsService.emit({ type: JobEventType.RUN_STARTED, job, run });
+
+      if (overlapping) {
+        const next = this.getNextRunAfterOccurrence(job);
+        Object.assign(job, next);
+        await this.jobLeaseService.updateIfOwned(job.id, next);
+        if (next.nextRunAt) {
+          await this.scheduleJob(job);
+        }
+      }
 
       // Execute the job
-      await this.jobExecutorService.execute(freshJob);
+      const output = await this.jobExecutorService.execute(
+        job,
+        abortController.signal,
+        this.createExecutionContext(
+          job,
+          run,
+          overlapping,
+          abortController.signal,
+        ),
+      );
+      await this.jobRunsService.succeed(run, output);
 
       // Calculate next run time
-      const nextRunAt = this.calculateNextRun(freshJob.schedule);
-      freshJob.nextRunAt = nextRunAt;
-      freshJob.lastError = null;
+      const changes: Partial<Job> = {
+        ...(overlapping ? {} : this.getNextRunAfterOccurrence(job)),
+        lastError: null,
+        attempt: 1,
+        failureCount: 0,
+        checkpoint: null,
+        progress: null,
+      };
+      const nextRunAt = overlapping ? job.nextRunAt : changes.nextRunAt;
+      if (!nextRunAt) {
+        changes.status = JobStatus.COMPLETED;
+      }
 
-      // Save job state
-      await this.jobRepository.save(freshJob);
+      // Save job state, unless another instance took the job over meanwhile
+      if (!(await this.releaseLease(job, changes))) {
+        return;
+      }
+      Object.assign(job, changes);
+      this.jobEventsService.emit({
+        type: JobEventType.RUN_SUCCEEDED,
+        job,
+        run,
+      });
+
+      if (!nextRunAt) {
+        this.logger.log(
+          `Job ${job.name} executed successfully. Schedule exhausted, job completed`,
+        );
+        return;
+      }
 
       // Reschedule for next run
-      await this.scheduleJob(freshJob);
+      if (!overlapping) {
+        await this.scheduleJob(job);
+      }
 
       this.logger.log(
-        `Job ${freshJob.name} executed successfully. Next run: ${nextRunAt.toISOString()}`,
+        `Job ${job.name} executed successfully. Next run: ${nextRunAt.toISOString()}`,
       );
     } catch (error) {
+      if (error instanceof JobCancelledError && run) {
+        await this.cancelRun(job, run, overlapping);
+        return;
+      }
+
       this.logger.error(`Error executing job ${job.id}: ${error.message}`);
-      
-      // Reload job to get latest state
-      const freshJob = await this.jobRepository.findOne({ where: { id: job.id } });
-      if (freshJob) {
-        // Update failure count
-        freshJob.failureCount += 1;
-        freshJob.lastError = error.message;
-        await this.jobRepository.save(freshJob);
-
-        // Reschedule even on failure (with exponential backoff for repeated failures)
-        const backoffDelay = Math.min(
-          Math.pow(2, freshJob.failureCount) * 60000,
-          3600000,
-        ); // Max 1 hour
-        const nextRunAt = new Date(Date.now() + backoffDelay);
-        freshJob.nextRunAt = nextRunAt;
-        await this.jobRepository.save(freshJob);
-        await this.scheduleJob(freshJob);
+      if (run && error instanceof JobTimeoutError) {
+        await this.jobRunsService.timeOut(run, error);
+      } else if (run) {
+        await this.jobRunsService.fail(run, error);
+      }
+
+      // Update failure count
+      const changes: Partial<Job> = {
+        failureCount: job.failureCount + 1,
+        lastError: error.message,
+      };
+
+      // Retry the occurrence until the job's retry policy gives up on it,
+      // then dead-letter the job
+      const retryPolicy = this.getRetryPolicy(job);
+      if (
+        job.attempt < retryPolicy.maxAttempts &&
+        isRetryableError(retryPolicy, error)
+      ) {
+        const retryDelay = getRetryDelay(retryPolicy, job.attempt);
+        changes.attempt = job.attempt + 1;
+        changes.nextRunAt = new Date(Date.now() + retryDelay);
+
+        // A retry never holds back an overlapping job's next occurrence,
+        // which then runs as the retry
+        const pending = this.scheduledJobs.get(job.id)?.nextRunAt;
+        if (overlapping && pending && pending < changes.nextRunAt) {
+          changes.nextRunAt = pending;
+        }
+        this.logger.log(
+          `Retrying job ${job.name} (attempt ${changes.attempt} of ${retryPolicy.maxAttempts}) at ${changes.nextRunAt.toISOString()}`,
+        );
+      } else {
+        changes.status = JobStatus.FAILED;
+        changes.failedAt = new Date();
+        changes.nextRunAt = null;
+        this.unscheduleJob(job.id);
+        this.logger.warn(
+          `Job ${job.name} failed after ${job.attempt} attempt(s), moved to the dead-letter queue`,
+        );
+      }
+
+      if (!(await this.releaseLease(job, changes))) {
+        return;
+      }
+      Object.assign(job, changes);
+      if (run) {
+        this.jobEventsService.emit({
+          type: JobEventType.RUN_FAILED,
+          job,
+          run,
+          willRetry: changes.status !== JobStatus.FAILED,
+        });
+      }
+      if (changes.nextRunAt) {
+        await this.scheduleJob(job);
       }
     } finally {
+      clearInterval(heartbeat);
       // Remove from executing jobs
-      this.executingJobs.delete(job.id);
+      const executions = this.executingJobs
+        .get(job.id)
+        .filter((executing) => executing !== execution);
+      if (executions.length > 0) {
+        this.executingJobs.set(job.id, executions);
+      } else {
+        this.executingJobs.delete(job.id);
+      }
     }
   }
 
-  calculateNextRun(schedule: string): Date {
-    const now = new Date();
+  /**
+   * Checkpoints are kept on the job until its occurrence succeeds or is
+   * cancelled, so retries and a dead-lettered job's requeue resume from the
+   * last one. Overlapping runs would share one checkpoint, so runs of jobs
+   * that allow them start over and only report progress.
+   */
+  private createExecutionContext(
+    job: Job,
+    run: JobRun,
+    overlapping: boolean,
+    signal: AbortSignal,
+  ): JobExecutionContext {
+    return {
+      runId: run.id,
+      checkpoint: overlapping ? null : (job.checkpoint ?? null),
+      saveCheckpoint: async (checkpoint, { processed, total = null }) => {
+        // The run's outcome may have been recorded already
+        signal.throwIfAborted();
+        const changes: Partial<Job> = {
+          progress: { processed, total, updatedAt: new Date().toISOString() },
+        };
+        if (!overlapping) {
+          changes.checkpoint = checkpoint;
+        }
+        if (!(await this.jobLeaseService.updateIfOwned(job.id, changes))) {
+          throw new LeaseLostError(job.id);
+        }
+        Object.assign(job, changes);
+      },
+    };
+  }
 
-    // Check if it's an ISO 8601 duration (e.g., PT5M, PT1H)
-    if (schedule.startsWith('PT')) {
-      return this.calculateNextRunFromInterval(schedule, now);
+  /**
+   * Aborts the job's running executions. Executions on other instances are
+   * aborted by their next heartbeat. Returns false if the job is not running.
+   */
+  async cancelExecution(jobId: string): Promise<boolean> {
+    const executions = this.executingJobs.get(jobId);
+    if (executions) {
+      executions.forEach((executing) =>
+        executing.abortController.abort(new JobCancelledError()),
+      );
+      return true;
     }
-
-    // Parse cron-like expression
-    return this.calculateNextRunFromCron(schedule, now);
+    return this.jobLeaseService.requestCancel(jobId);
   }
 
-  private calculateNextRunFromInterval(interval: string, from: Date): Date {
-    // Parse ISO 8601 duration (PT5M = 5 minutes, PT1H = 1 hour, etc.)
-    const match = interval.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
-    if (!match) {
-      throw new Error(`Invalid interval format: ${interval}`);
+  /**
+   * A cancelled run is neither retried nor counted as a failure; the job
+   * moves on to its next occurrence.
+   */
+  private async cancelRun(
+    job: Job,
+    run: JobRun,
+    overlapping: boolean,
+  ): Promise<void> {
+    this.logger.log(`Job ${job.name} (${job.id}) was cancelled`);
+    await this.jobRunsService.cancel(run);
+
+    // An overlapping job has moved on to its next occurrence already
+    const changes: Partial<Job> = overlapping
+      ? { progress: null }
+      : {
+          ...this.getNextRunAfterOccurrence(job),
+          attempt: 1,
+          checkpoint: null,
+          progress: null,
+        };
+    if (!overlapping && !changes.nextRunAt) {
+      changes.status = JobStatus.COMPLETED;
     }
-
-    const hours = parseInt(match[1] || '0', 10);
-    const minutes = parseInt(match[2] || '0', 10);
-    const seconds = parseInt(match[3] || '0', 10);
-
-    const totalMs =
-      hours * 3600000 + minutes * 60000 + seconds * 1000;
-
-    if (totalMs === 0) {
-      throw new Error('Interval must be greater than 0');
+    if (!(await this.releaseLease(job, changes))) {
+      return;
+    }
+    Object.assign(job, changes);
+    this.jobEventsService.emit({ type: JobEventType.RUN_CANCELLED, job, run });
+    if (!overlapping && changes.nextRunAt) {
+      await this.scheduleJob(job);
     }
+  }
 
-    return new Date(from.getTime() + totalMs);
+  /**
+   * Whether the job is due for a scheduled occurrence that is later than its
+   * grace threshold. Retries, catch-up runs and triggered runs of jobs
+   * without a schedule are never misfires.
+   */
+  private isMisfire(job: Job, now: Date): boolean {
+    const grace = job.misfireGraceMs ?? this.misfireGrace;
+    return (
+      !!job.schedule &&
+      job.attempt === 1 &&
+      job.catchUpRemaining === 0 &&
+      now.getTime() - job.nextRunAt.getTime() > grace
+    );
   }
 
-  private calculateNextRunFromCron(cronExpression: string, from: Date): Date {
-    // Simple cron parser: "*/5 * * * *" format
-    // Format: minute hour day month weekday
-    const parts = cronExpression.trim().split(/\s+/);
-    
-    if (parts.length !== 5) {
-      throw new Error(`Invalid cron expression: ${cronExpression}`);
+  /**
+   * Applies the job's misfire policy to the occurrences it missed: records
+   * the skipped ones and schedules catch-up runs in staggered slots, so jobs
+   * that fell behind together don't all run at once.
+   */
+  private async handleMisfire(job: Job): Promise<void> {
+    const now = new Date();
+    const missed = this.findMissedOccurrences(job, now);
+
+    // The most recent missed occurrences are the ones caught up on
+    let catchUpRuns: number;
+    switch (job.misfirePolicy) {
+      case MisfirePolicy.SKIP_TO_NEXT:
+        catchUpRuns = 0;
+        break;
+      case MisfirePolicy.FIRE_ALL:
+        catchUpRuns = Math.min(missed.length, this.catchUpLimit);
+        break;
+      default:
+        catchUpRuns = 1;
+    }
+    const skipped = missed.slice(0, missed.length - catchUpRuns);
+    await this.jobRunsService.skip(job, skipped);
+
+    const changes: Partial<Job> = {};
+    if (catchUpRuns > 0) {
+      changes.nextRunAt = this.reserveCatchUpSlot(0);
+      changes.catchUpRemaining = catchUpRuns - 1;
+    } else {
+      changes.nextRunAt = this.calculateNextRun(job, now);
+      // A one-shot job's only occurrence stays in the past
+      if (changes.nextRunAt && changes.nextRunAt <= now) {
+        changes.nextRunAt = null;
+      }
+      if (!changes.nextRunAt) {
+        changes.status = JobStatus.COMPLETED;
+      }
     }
 
-    const [minute, hour, day, month, weekday] = parts;
-    const nextRun = new Date(from);
-    nextRun.setSeconds(0, 0);
+    this.logger.warn(
+      `Job ${job.name} (${job.id}) missed ${missed.length} occurrence(s): ` +
+        `skipped ${skipped.length}, catching up on ${catchUpRuns} (${job.misfirePolicy})`,
+    );
+    if ((await this.releaseLease(job, changes)) && changes.nextRunAt) {
+      await this.scheduleJob(Object.assign(job, changes));
+    }
+  }
 
-    // Increment by 1 minute initially
-    nextRun.setMinutes(nextRun.getMinutes() + 1);
+  /** Due occurrences of the job, oldest first, starting at nextRunAt. */
+  private findMissedOccurrences(job: Job, now: Date): Date[] {
+    const missed: Date[] = [];
+    let occurrence = job.nextRunAt;
+    while (
+      occurrence &&
+      occurrence <= now &&
+      missed.length < MAX_MISSED_OCCURRENCES
+    ) {
+      missed.push(occurrence);
+      const next = this.calculateNextRun(job, occurrence);
+      occurrence = next && next > occurrence ? next : null;
+    }
+    return missed;
+  }
 
-    let attempts = 0;
-    const maxAttempts = 10080; // 7 days in minutes
+  /**
+   * Next run once an occurrence has been dealt with: a pending catch-up run,
+   * or else the next scheduled occurrence.
+   */
+  private getNextRunAfterOccurrence(
+    job: Job,
+  ): Pick<Job, 'nextRunAt' | 'catchUpRemaining'> {
+    const runLimitReached = job.maxRuns && job.runCount >= job.maxRuns;
+    if (job.catchUpRemaining > 0 && !runLimitReached) {
+      return {
+        nextRunAt: this.reserveCatchUpSlot(this.catchUpStagger),
+        catchUpRemaining: job.catchUpRemaining - 1,
+      };
+    }
+    return { nextRunAt: this.calculateNextRun(job), catchUpRemaining: 0 };
+  }
 
-    while (attempts < maxAttempts) {
-      const matchesMinute = this.matchesCronField(minute, nextRun.getMinutes());
-      const matchesHour = this.matchesCronField(hour, nextRun.getHours());
-      const matchesDay = this.matchesCronField(day, nextRun.getDate());
-      const matchesMonth = this.matchesCronField(month, nextRun.getMonth() + 1);
-      const matchesWeekday = this.matchesCronField(
-        weekday,
-        nextRun.getDay(),
-      );
+  /**
+   * Hands out catch-up times at least SCHEDULER_CATCH_UP_STAGGER_MS apart,
+   * and at least `minDelay` from now.
+   */
+  private reserveCatchUpSlot(minDelay: number): Date {
+    const slot = Math.max(Date.now() + minDelay, this.nextCatchUpSlot);
+    this.nextCatchUpSlot = slot + this.catchUpStagger;
+    return new Date(slot);
+  }
 
-      if (
-        matchesMinute &&
-        matchesHour &&
-        matchesDay &&
-        matchesMonth &&
-        matchesWeekday
-      ) {
-        return nextRun;
+  /**
+   * Keeps the job's lease alive while it executes, and aborts the execution
+   * when cancellation was requested through another instance.
+   */
+  private startHeartbeat(
+    jobId: string,
+    abortController: AbortController,
+  ): NodeJS.Timeout {
+    return setInterval(async () => {
+      try {
+        if (!(await this.jobLeaseService.renew(jobId))) {
+          this.logger.warn(`Lost lease on job ${jobId} while executing`);
+        } else if (await this.jobLeaseService.isCancelRequested(jobId)) {
+          abortController.abort(new JobCancelledError());
+        }
+      } catch (error) {
+        this.logger.error(
+          `Error renewing lease on job ${jobId}: ${error.message}`,
+        );
       }
+    }, this.jobLeaseService.leaseTtl / 3);
+  }
 
-      nextRun.setMinutes(nextRun.getMinutes() + 1);
-      attempts++;
+  /**
+   * Saves the outcome of an execution and releases the job's lease, which
+   * is kept while overlapping runs of the job are still going.
+   */
+  private async releaseLease(
+    job: Job,
+    changes: Partial<Job>,
+  ): Promise<boolean> {
+    const released =
+      this.dispatchQueue.runningCount(job.id) > 1
+        ? await this.jobLeaseService.updateIfOwned(job.id, changes)
+        : await this.jobLeaseService.release(job.id, changes);
+    if (!released) {
+      this.logger.warn(
+        `Lost lease on job ${job.id}; discarding results of this execution`,
+      );
     }
+    return released;
+  }
 
-    throw new Error(
-      `Could not find next run time for cron: ${cronExpression}`,
+  /** Runs of the type allowed at once: configured, else the handler's. */
+  getTypeConcurrency(type: string): number | undefined {
+    return (
+      this.typeConcurrency[type] ??
+      this.jobHandlerRegistry.get(type)?.options.maxConcurrency
     );
   }
 
-  private matchesCronField(field: string, value: number): boolean {
-    // "*" matches all values
-    if (field === '*') {
-      return true;
-    }
+  /** Runs of the tenant's jobs allowed at once, per its quota. */
+  getTenantConcurrency(tenantId: string): number | undefined {
+    return (
+      this.tenantQuotasService.getQuotas(tenantId).maxConcurrentRuns ??
+      undefined
+    );
+  }
 
-    // "*/n" matches every n values
-    const stepMatch = field.match(/^\*\/(\d+)$/);
-    if (stepMatch) {
-      const step = parseInt(stepMatch[1], 10);
-      return value % step === 0;
-    }
+  /**
+   * The tenant's jobs waiting for a slot on this instance, and the slots in
+   * use.
+   */
+  getQueueStatus(tenantId: string): QueueStatus {
+    return {
+      maxConcurrency: this.maxConcurrency,
+      running: this.dispatchQueue.runningTotal,
+      tenant: {
+        id: tenantId,
+        running: this.dispatchQueue.runningCountOfTenant(tenantId),
+        maxConcurrency: this.getTenantConcurrency(tenantId),
+      },
+      types: this.jobHandlerRegistry.list().map(({ type }) => ({
+        type,
+        running: this.dispatchQueue.runningCountOfType(type),
+        maxConcurrency: this.getTypeConcurrency(type),
+      })),
+      queued: this.dispatchQueue
+        .list()
+        .filter((queued) => queued.job.tenantId === tenantId)
+        .map((queued) => ({
+          ...queued,
+          reason: this.dispatchQueue.getWaitReason(queued.job),
+        })),
+    };
+  }
 
-    // Exact number
-    if (field.match(/^\d+$/)) {
-      return parseInt(field, 10) === value;
-    }
+  getLoopStatus(): SchedulerLoopStatus {
+    return {
+      loaded: this.loaded,
+      startedAt: this.startedAt,
+      lastTickAt: this.lastTickAt,
+      lastPollAt: this.lastPollAt,
+      checkInterval: this.checkInterval,
+    };
+  }
 
-    // Range: "n-m"
-    const rangeMatch = field.match(/^(\d+)-(\d+)$/);
-    if (rangeMatch) {
-      const start = parseInt(rangeMatch[1], 10);
-      const end = parseInt(rangeMatch[2], 10);
-      return value >= start && value <= end;
-    }
+  getRetryPolicy(job: Pick<Job, 'type' | 'retryPolicy'>): RetryPolicy {
+    return resolveRetryPolicy(
+      this.jobHandlerRegistry.get(job.type)?.options.retry,
+      job.retryPolicy,
+    );
+  }
 
-    // List: "n,m,o"
-    if (field.includes(',')) {
-      const values = field.split(',').map((v) => parseInt(v.trim(), 10));
-      return values.includes(value);
+  /**
+   * Next time the job should run after `from`, or null when its schedule is
+   * exhausted (one-shot already run, past its end, or run limit reached).
+   * Jobs without a schedule only run when their workflow triggers them.
+   */
+  calculateNextRun(
+    job: JobScheduleDefinition,
+    from: Date = new Date(),
+  ): Date | null {
+    if (!job.schedule) {
+      return null;
     }
-
-    return false;
+    return getNextOccurrence(parseSchedule(job.schedule), from, {
+      timezone: job.timezone,
+      startAt: job.startAt,
+      endAt: job.endAt,
+      maxRuns: job.maxRuns,
+      runCount: job.runCount,
+    });
   }
 }
-
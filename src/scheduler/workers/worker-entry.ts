@@ -0,0 +1,27 @@
+import { parentPort } from 'worker_threads';
+import {
+  WorkerResultMessage,
+  WorkerTaskMessage,
+  serializeError,
+} from './worker-protocol';
+
+// Runs tasks sent by WorkerPoolService, one at a time
+parentPort.on(
+  'message',
+  async ({ id, taskPath, payload }: WorkerTaskMessage) => {
+    let message: WorkerResultMessage;
+    try {
+      const task = await import(taskPath);
+      message = { id, result: await task.default(payload) };
+    } catch (error) {
+      message = { id, error: serializeError(error) };
+    }
+
+    try {
+      parentPort.postMessage(message);
+    } catch (error) {
+      // The result could not be cloned to the main thread
+      parentPort.postMessage({ id, error: serializeError(error) });
+    }
+  },
+);
@@ -0,0 +1,239 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { availableParallelism } from 'os';
+import { extname, join } from 'path';
+import { ResourceLimits, Worker } from 'worker_threads';
+import { WorkerCrashedError } from '../job-execution.errors';
+import {
+  WorkerResultMessage,
+  WorkerTaskMessage,
+  deserializeError,
+} from './worker-protocol';
+
+// Compiled alongside this file; under ts-node the worker registers it too
+const WORKER_ENTRY = join(__dirname, `worker-entry${extname(__filename)}`);
+const WORKER_EXEC_ARGV = WORKER_ENTRY.endsWith('.ts')
+  ? ['--require', 'ts-node/register/transpile-only']
+  : undefined;
+
+interface WorkerTask {
+  id: number;
+  taskPath: string;
+  payload: unknown;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: WorkerTask | null;
+}
+
+/**
+ * Bounded pool of worker threads for CPU-bound job handlers, keeping them
+ * off the event loop that serves the API and fires scheduler timers.
+ *
+ * A task is a module whose default export takes a structured-cloneable
+ * payload and returns (a promise of) a cloneable result. Each worker runs one
+ * task at a time under a heap limit; a worker that crashes, runs out of
+ * memory or runs an aborted task is terminated and replaced.
+ */
+@Injectable()
+export class WorkerPoolService implements OnModuleDestroy {
+  private readonly logger = new Logger(WorkerPoolService.name);
+  readonly size: number;
+  private readonly resourceLimits: ResourceLimits;
+  private readonly workers: Set<PoolWorker> = new Set();
+  private readonly idleWorkers: PoolWorker[] = [];
+  private readonly queue: WorkerTask[] = [];
+  private nextTaskId = 1;
+
+  constructor(configService: ConfigService) {
+    this.size = Number(
+      configService.get(
+        'WORKER_POOL_SIZE',
+        Math.max(1, availableParallelism() - 1),
+      ),
+    );
+    this.resourceLimits = {
+      maxOldGenerationSizeMb: Number(
+        configService.get('WORKER_MAX_MEMORY_MB', 512),
+      ),
+    };
+  }
+
+  async onModuleDestroy() {
+    this.queue
+      .splice(0)
+      .forEach((task) =>
+        this.settle(task, () =>
+          task.reject(new Error('Worker pool is shutting down')),
+        ),
+      );
+    await Promise.all(
+      [...this.workers].map((poolWorker) => {
+        this.retire(poolWorker, new Error('Worker pool is shutting down'));
+        return poolWorker.worker.terminate();
+      }),
+    );
+  }
+
+  /**
+   * Runs the task module at `taskPath` in a worker thread. Waits for a free
+   * worker if all are busy. Aborting `signal` removes the task from the
+   * queue, or terminates the worker running it, and rejects with the
+   * signal's reason.
+   */
+  run<T>(taskPath: string, payload: unknown, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const task: WorkerTask = {
+        id: this.nextTaskId++,
+        taskPath,
+        payload,
+        signal,
+        resolve,
+        reject,
+      };
+      if (signal) {
+        task.onAbort = () => this.abort(task);
+        signal.addEventListener('abort', task.onAbort);
+      }
+
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  /** Number of tasks waiting for a free worker. */
+  get queueLength(): number {
+    return this.queue.length;
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const poolWorker =
+        this.idleWorkers.pop() ??
+        (this.workers.size < this.size ? this.spawn() : null);
+      if (!poolWorker) {
+        return;
+      }
+
+      const task = this.queue.shift();
+      poolWorker.task = task;
+      // Only busy workers keep the process alive
+      poolWorker.worker.ref();
+      const message: WorkerTaskMessage = {
+        id: task.id,
+        taskPath: task.taskPath,
+        payload: task.payload,
+      };
+      try {
+        poolWorker.worker.postMessage(message);
+      } catch (error) {
+        // The payload could not be cloned to the worker
+        this.release(poolWorker);
+        this.settle(task, () => task.reject(error));
+      }
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const worker = new Worker(WORKER_ENTRY, {
+      execArgv: WORKER_EXEC_ARGV,
+      resourceLimits: this.resourceLimits,
+    });
+
+    const poolWorker: PoolWorker = { worker, task: null };
+    worker.on('message', (message: WorkerResultMessage) =>
+      this.complete(poolWorker, message),
+    );
+    worker.on('error', (error) =>
+      this.retire(poolWorker, new WorkerCrashedError(error.message)),
+    );
+    worker.on('exit', (code) =>
+      this.retire(
+        poolWorker,
+        new WorkerCrashedError(`exited with code ${code}`),
+      ),
+    );
+
+    this.workers.add(poolWorker);
+    return poolWorker;
+  }
+
+  private complete(poolWorker: PoolWorker, message: WorkerResultMessage) {
+    const task = poolWorker.task;
+    if (!task || task.id !== message.id) {
+      return;
+    }
+
+    this.release(poolWorker);
+    this.settle(task, () =>
+      'error' in message
+        ? task.reject(deserializeError(message.error))
+        : task.resolve(message.result),
+    );
+    this.dispatch();
+  }
+
+  private release(poolWorker: PoolWorker): void {
+    poolWorker.task = null;
+    poolWorker.worker.unref();
+    this.idleWorkers.push(poolWorker);
+  }
+
+  /** Removes a worker from the pool, failing the task it was running. */
+  private retire(poolWorker: PoolWorker, error: Error): void {
+    if (!this.workers.delete(poolWorker)) {
+      return;
+    }
+
+    const idleIndex = this.idleWorkers.indexOf(poolWorker);
+    if (idleIndex >= 0) {
+      this.idleWorkers.splice(idleIndex, 1);
+    }
+
+    const task = poolWorker.task;
+    poolWorker.task = null;
+    if (task) {
+      this.logger.error(
+        `Worker running task ${task.id} failed: ${error.message}`,
+      );
+      this.settle(task, () => task.reject(error));
+    }
+    this.dispatch();
+  }
+
+  private abort(task: WorkerTask): void {
+    const queueIndex = this.queue.indexOf(task);
+    if (queueIndex >= 0) {
+      this.queue.splice(queueIndex, 1);
+    } else {
+      const poolWorker = [...this.workers].find(
+        (candidate) => candidate.task === task,
+      );
+      if (!poolWorker) {
+        return;
+      }
+      // Synchronous tasks can only be stopped by terminating their thread
+      poolWorker.task = null;
+      this.retire(poolWorker, task.signal.reason);
+      poolWorker.worker.terminate();
+    }
+    this.settle(task, () => task.reject(task.signal.reason));
+  }
+
+  private settle(task: WorkerTask, callback: () => void): void {
+    if (task.onAbort) {
+      task.signal.removeEventListener('abort', task.onAbort);
+    }
+    callback();
+  }
+}
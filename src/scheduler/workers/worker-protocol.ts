@@ -0,0 +1,38 @@
+/** Messages exchanged between WorkerPoolService and its worker threads. */
+
+export interface WorkerTaskMessage {
+  id: number;
+  taskPath: string; // Module whose default export runs the task
+  payload: unknown;
+}
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  code?: string;
+}
+
+export type WorkerResultMessage =
+  | { id: number; result: unknown }
+  | { id: number; error: SerializedError };
+
+export function serializeError(error: any): SerializedError {
+  return {
+    name: error?.name ?? 'Error',
+    message: error?.message ?? String(error),
+    stack: error?.stack,
+    code: error?.code,
+  };
+}
+
+/** Rebuilds an error thrown in a worker, keeping its name for retry policies. */
+export function deserializeError(serialized: SerializedError): Error {
+  const error: Error & { code?: string } = new Error(serialized.message);
+  error.name = serialized.name;
+  error.stack = serialized.stack;
+  if (serialized.code) {
+    error.code = serialized.code;
+  }
+  return error;
+}
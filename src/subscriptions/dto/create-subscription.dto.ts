@@ -0,0 +1,77 @@
+import {
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsUrl,
+  IsUUID,
+  IsArray,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { JobStatus } from '../../jobs/entities/job.entity';
+import { JobEventType } from '../../events/job-events.service';
+
+export class CreateSubscriptionDto {
+  @ApiProperty({
+    description: 'URL events are POSTed to',
+    example: 'https://hooks.example.com/scheduler',
+    maxLength: 2048,
+  })
+  @IsUrl({ protocols: ['http', 'https'], require_tld: false })
+  @MaxLength(2048)
+  url: string;
+
+  @ApiPropertyOptional({
+    description: 'Subscription description',
+    example: 'Pages the on-call engineer when a job is dead-lettered',
+  })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description: 'Event types to deliver; all if unset',
+    enum: JobEventType,
+    isArray: true,
+    example: [JobEventType.RUN_FAILED],
+  })
+  @IsArray()
+  @IsEnum(JobEventType, { each: true })
+  @IsOptional()
+  eventTypes?: JobEventType[];
+
+  @ApiPropertyOptional({
+    description: 'Jobs whose events to deliver; all if unset',
+    type: [String],
+    example: ['123e4567-e89b-12d3-a456-426614174000'],
+  })
+  @IsArray()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  jobIds?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Job statuses, as of the event, to deliver events for; all if unset. E.g. "failed" for jobs moved to the dead-letter queue',
+    enum: JobStatus,
+    isArray: true,
+    example: [JobStatus.FAILED],
+  })
+  @IsArray()
+  @IsEnum(JobStatus, { each: true })
+  @IsOptional()
+  jobStatuses?: JobStatus[];
+
+  @ApiPropertyOptional({
+    description:
+      'Key of the HMAC-SHA256 signature in the X-Scheduler-Signature header; generated if unset',
+    minLength: 16,
+    maxLength: 255,
+  })
+  @IsString()
+  @MinLength(16)
+  @MaxLength(255)
+  @IsOptional()
+  secret?: string;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SubscriptionDeliveryResponseDto } from './subscription-delivery-response.dto';
+
+export class PaginatedSubscriptionDeliveriesDto {
+  @ApiProperty({ type: [SubscriptionDeliveryResponseDto] })
+  deliveries: SubscriptionDeliveryResponseDto[];
+
+  @ApiProperty({ example: 10 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 50 })
+  limit: number;
+}
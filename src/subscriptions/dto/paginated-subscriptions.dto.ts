@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SubscriptionResponseDto } from './subscription-response.dto';
+
+export class PaginatedSubscriptionsDto {
+  @ApiProperty({ type: [SubscriptionResponseDto] })
+  subscriptions: SubscriptionResponseDto[];
+
+  @ApiProperty({ example: 10 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 50 })
+  limit: number;
+}
@@ -0,0 +1,65 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { DeliveryStatus } from '../entities/subscription-delivery.entity';
+import { JobEventType } from '../../events/job-events.service';
+
+export class SubscriptionDeliveryResponseDto {
+  @ApiProperty({
+    example: 'e4d3c2b1-a0f9-4e8d-8c7b-6a5f4e3d2c1b',
+    description: 'Sent as X-Scheduler-Delivery; the same on every attempt',
+  })
+  id: string;
+
+  @ApiProperty({ example: '7d9e2f1a-4b3c-4d5e-8f6a-1b2c3d4e5f6a' })
+  subscriptionId: string;
+
+  @ApiProperty({ example: '0f1e2d3c-4b5a-4968-8776-a5b4c3d2e1f0' })
+  eventId: string;
+
+  @ApiProperty({ enum: JobEventType, example: JobEventType.RUN_FAILED })
+  eventType: JobEventType;
+
+  @ApiProperty({
+    description: 'The JSON body POSTed to the subscription',
+    example: {
+      id: '0f1e2d3c-4b5a-4968-8776-a5b4c3d2e1f0',
+      type: JobEventType.RUN_FAILED,
+      timestamp: '2024-01-15T10:30:05Z',
+      job: { id: '123e4567-e89b-12d3-a456-426614174000', status: 'failed' },
+      run: { id: '9b2f6c1e-3d4a-4c2b-8f5e-1a2b3c4d5e6f', status: 'failed' },
+      willRetry: false,
+    },
+  })
+  payload: Record<string, any>;
+
+  @ApiProperty({ enum: DeliveryStatus, example: DeliveryStatus.SUCCEEDED })
+  status: DeliveryStatus;
+
+  @ApiProperty({ example: 1 })
+  attempts: number;
+
+  @ApiProperty({
+    example: null,
+    required: false,
+    description: 'When the next attempt of a pending delivery is due',
+  })
+  nextAttemptAt?: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:30:05Z', required: false })
+  lastAttemptAt?: Date;
+
+  @ApiProperty({
+    example: 200,
+    required: false,
+    description: 'HTTP status of the last attempt, if it got a response',
+  })
+  responseStatus?: number;
+
+  @ApiProperty({ example: null, required: false })
+  lastError?: string;
+
+  @ApiProperty({ example: '2024-01-15T10:30:05Z', required: false })
+  deliveredAt?: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:30:05Z' })
+  createdAt: Date;
+}
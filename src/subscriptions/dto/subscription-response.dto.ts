@@ -0,0 +1,71 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { JobStatus } from '../../jobs/entities/job.entity';
+import { JobEventType } from '../../events/job-events.service';
+import { Subscription } from '../entities/subscription.entity';
+
+export class SubscriptionResponseDto {
+  @ApiProperty({ example: '7d9e2f1a-4b3c-4d5e-8f6a-1b2c3d4e5f6a' })
+  id: string;
+
+  @ApiProperty({ example: 'analytics' })
+  tenantId: string;
+
+  @ApiProperty({ example: 'https://hooks.example.com/scheduler' })
+  url: string;
+
+  @ApiProperty({ example: null, required: false })
+  description?: string;
+
+  @ApiProperty({
+    enum: JobEventType,
+    isArray: true,
+    required: false,
+    example: [JobEventType.RUN_FAILED],
+  })
+  eventTypes?: JobEventType[];
+
+  @ApiProperty({ type: [String], required: false, example: null })
+  jobIds?: string[];
+
+  @ApiProperty({
+    enum: JobStatus,
+    isArray: true,
+    required: false,
+    example: [JobStatus.FAILED],
+  })
+  jobStatuses?: JobStatus[];
+
+  @ApiProperty({ example: true })
+  active: boolean;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  updatedAt: Date;
+
+  // The secret is only ever returned when the subscription is created
+  static fromEntity(subscription: Subscription): SubscriptionResponseDto {
+    return {
+      id: subscription.id,
+      tenantId: subscription.tenantId,
+      url: subscription.url,
+      description: subscription.description,
+      eventTypes: subscription.eventTypes,
+      jobIds: subscription.jobIds,
+      jobStatuses: subscription.jobStatuses,
+      active: subscription.active,
+      createdAt: subscription.createdAt,
+      updatedAt: subscription.updatedAt,
+    };
+  }
+}
+
+export class CreatedSubscriptionResponseDto extends SubscriptionResponseDto {
+  @ApiProperty({
+    description:
+      "Key of the deliveries' signatures; store it, as it is not shown again",
+    example: 'whsec_3f2a9c0d8e7b6a5f4e3d2c1b0a9f8e7d',
+  })
+  secret: string;
+}
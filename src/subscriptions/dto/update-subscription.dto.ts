@@ -0,0 +1,13 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { CreateSubscriptionDto } from './create-subscription.dto';
+
+export class UpdateSubscriptionDto extends PartialType(CreateSubscriptionDto) {
+  @ApiPropertyOptional({
+    description: 'Inactive subscriptions receive no new events',
+    example: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
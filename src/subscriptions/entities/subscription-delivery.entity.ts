@@ -0,0 +1,71 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Subscription } from './subscription.entity';
+import { JobEventType } from '../../events/job-events.service';
+import { JobEventPayload } from '../../events/job-event-payload';
+
+export enum DeliveryStatus {
+  PENDING = 'pending', // Not delivered yet; attempted again at nextAttemptAt
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed', // Given up on after the last attempt
+}
+
+@Entity('subscription_deliveries')
+@Index(['status', 'nextAttemptAt']) // Index for picking up due retries
+@Index(['subscriptionId', 'createdAt']) // Index for a subscription's delivery log
+@Index(['createdAt']) // Index for retention pruning
+export class SubscriptionDelivery {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  subscriptionId: string;
+
+  @ManyToOne(() => Subscription, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'subscriptionId' })
+  subscription: Subscription;
+
+  @Column({ type: 'uuid' })
+  eventId: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  eventType: JobEventType;
+
+  @Column({ type: 'jsonb' })
+  payload: JobEventPayload; // Body of each attempt
+
+  @Column({
+    type: 'enum',
+    enum: DeliveryStatus,
+    default: DeliveryStatus.PENDING,
+  })
+  status: DeliveryStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  nextAttemptAt: Date; // An instance attempting the delivery pushes it past the request timeout
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastAttemptAt: Date;
+
+  @Column({ type: 'int', nullable: true })
+  responseStatus: number; // HTTP status of the last attempt, if it got a response
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  deliveredAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
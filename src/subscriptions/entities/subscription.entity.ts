@@ -0,0 +1,48 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+import { JobStatus } from '../../jobs/entities/job.entity';
+import { JobEventType } from '../../events/job-events.service';
+import { DEFAULT_TENANT_ID } from '../../tenants/tenant';
+
+@Entity('subscriptions')
+@Index(['tenantId', 'active']) // Index for matching events to subscriptions
+export class Subscription {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 64, default: DEFAULT_TENANT_ID })
+  tenantId: string; // Only events of this tenant's jobs are delivered
+
+  @Column({ type: 'varchar', length: 2048 })
+  url: string; // Events are POSTed here
+
+  @Column({ type: 'text', nullable: true })
+  description: string;
+
+  @Column({ type: 'jsonb', nullable: true })
+  eventTypes: JobEventType[]; // Delivered event types; all if unset
+
+  @Column({ type: 'jsonb', nullable: true })
+  jobIds: string[]; // Jobs whose events are delivered; all if unset
+
+  @Column({ type: 'jsonb', nullable: true })
+  jobStatuses: JobStatus[]; // Job statuses, as of the event, that are delivered; all if unset
+
+  @Column({ type: 'varchar', length: 255, select: false })
+  secret: string; // Key of the deliveries' HMAC-SHA256 signature
+
+  @Column({ type: 'boolean', default: true })
+  active: boolean; // Inactive subscriptions receive no new events
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,262 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Subscription as RxSubscription } from 'rxjs';
+import { Subscription } from './entities/subscription.entity';
+import {
+  DeliveryStatus,
+  SubscriptionDelivery,
+} from './entities/subscription-delivery.entity';
+import { SIGNATURE_HEADER, signPayload } from './webhook-signature';
+import { JobEvent, JobEventsService } from '../events/job-events.service';
+import { toJobEventPayload } from '../events/job-event-payload';
+import {
+  BackoffStrategy,
+  RetryPolicy,
+  getRetryDelay,
+  resolveRetryPolicy,
+} from '../scheduler/retry/retry-policy';
+
+/**
+ * Delivers job events to the subscriptions whose filters they match. Each
+ * delivery is recorded before it's attempted, so deliveries that fail, or
+ * whose instance goes down, are retried with exponential backoff by
+ * whichever instance polls for them next.
+ */
+@Injectable()
+export class SubscriptionDeliveriesService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(SubscriptionDeliveriesService.name);
+  private readonly timeoutMs: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly pollInterval: number;
+  private readonly retentionDays: number;
+  private readonly pruneInterval: number;
+  private subscription: RxSubscription;
+  private pollIntervalId: NodeJS.Timeout;
+  private pruneIntervalId: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(Subscription)
+    private readonly subscriptionRepository: Repository<Subscription>,
+    @InjectRepository(SubscriptionDelivery)
+    private readonly deliveryRepository: Repository<SubscriptionDelivery>,
+    private readonly jobEventsService: JobEventsService,
+    configService: ConfigService,
+  ) {
+    this.timeoutMs = Number(configService.get('WEBHOOK_TIMEOUT_MS', 10000));
+    this.retryPolicy = resolveRetryPolicy({
+      maxAttempts: Number(configService.get('WEBHOOK_MAX_ATTEMPTS', 8)),
+      backoff: BackoffStrategy.EXPONENTIAL,
+      delayMs: Number(configService.get('WEBHOOK_RETRY_DELAY_MS', 10000)),
+    });
+    this.pollInterval = Number(
+      configService.get('WEBHOOK_POLL_INTERVAL_MS', 5000),
+    );
+    this.retentionDays = Number(
+      configService.get('WEBHOOK_DELIVERY_RETENTION_DAYS', 30),
+    );
+    this.pruneInterval = Number(
+      configService.get('WEBHOOK_PRUNE_INTERVAL_MS', 3600000),
+    );
+  }
+
+  onModuleInit() {
+    this.subscription = this.jobEventsService.events$.subscribe((event) => {
+      this.enqueue(event).catch((error) =>
+        this.logger.error(
+          `Error delivering event ${event.id} (${event.type}): ${error.message}`,
+        ),
+      );
+    });
+    this.pollIntervalId = setInterval(() => {
+      this.retryDue();
+    }, this.pollInterval);
+    this.pruneIntervalId = setInterval(() => {
+      this.prune();
+    }, this.pruneInterval);
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+    clearInterval(this.pollIntervalId);
+    clearInterval(this.pruneIntervalId);
+  }
+
+  /** Records a delivery of the event for each matching subscription, and attempts them. */
+  private async enqueue(event: JobEvent): Promise<void> {
+    const { type, job } = event;
+    const subscriptions = await this.subscriptionRepository
+      .createQueryBuilder('subscription')
+      .where('subscription.active = true')
+      .andWhere('subscription.tenantId = :tenantId', {
+        tenantId: job.tenantId,
+      })
+      .andWhere(filterIncludes('eventTypes'), {
+        eventTypes: JSON.stringify([type]),
+      })
+      .andWhere(filterIncludes('jobIds'), { jobIds: JSON.stringify([job.id]) })
+      .andWhere(filterIncludes('jobStatuses'), {
+        jobStatuses: JSON.stringify([job.status]),
+      })
+      .getMany();
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const payload = toJobEventPayload(event);
+    const deliveries = await this.deliveryRepository.save(
+      subscriptions.map((subscription) =>
+        this.deliveryRepository.create({
+          subscriptionId: subscription.id,
+          eventId: event.id,
+          eventType: event.type,
+          payload,
+          // Held by this instance while it makes the first attempt
+          nextAttemptAt: this.claimedUntil(),
+        }),
+      ),
+    );
+    await Promise.all(deliveries.map((delivery) => this.attempt(delivery)));
+  }
+
+  /** Attempts the pending deliveries that are due, e.g. after a failure. */
+  async retryDue(): Promise<void> {
+    try {
+      const due = await this.claimDue();
+      await Promise.all(due.map((delivery) => this.attempt(delivery)));
+    } catch (error) {
+      this.logger.error(`Error retrying deliveries: ${error.message}`);
+    }
+  }
+
+  private claimDue(limit = 50): Promise<SubscriptionDelivery[]> {
+    return this.deliveryRepository.manager.transaction(async (manager) => {
+      const due = await manager
+        .createQueryBuilder(SubscriptionDelivery, 'delivery')
+        .where('delivery.status = :status', { status: DeliveryStatus.PENDING })
+        .andWhere('delivery.nextAttemptAt <= :now', { now: new Date() })
+        .orderBy('delivery.nextAttemptAt', 'ASC')
+        .limit(limit)
+        .setLock('pessimistic_write')
+        .setOnLocked('skip_locked')
+        .getMany();
+
+      if (due.length > 0) {
+        await manager.update(
+          SubscriptionDelivery,
+          due.map(({ id }) => id),
+          { nextAttemptAt: this.claimedUntil() },
+        );
+      }
+      return due;
+    });
+  }
+
+  /** POSTs the event to the subscription's URL and records the outcome. */
+  private async attempt(delivery: SubscriptionDelivery): Promise<void> {
+    const subscription = await this.subscriptionRepository
+      .createQueryBuilder('subscription')
+      .addSelect('subscription.secret')
+      .where('subscription.id = :id', { id: delivery.subscriptionId })
+      .getOne();
+    if (!subscription) {
+      return; // Deleted meanwhile, with its deliveries
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'scheduler-webhooks',
+          'X-Scheduler-Event': delivery.eventType,
+          'X-Scheduler-Delivery': delivery.id,
+          [SIGNATURE_HEADER]: signPayload(subscription.secret, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      responseStatus = response.status;
+      await response.body?.cancel();
+      if (response.status < 200 || response.status >= 300) {
+        error = `Responded with status ${response.status}`;
+      }
+    } catch (failure) {
+      // fetch reports network errors as "fetch failed", with the reason as the cause
+      error = failure.cause?.message ?? failure.message;
+    }
+
+    const now = new Date();
+    const attempts = delivery.attempts + 1;
+    const changes: Partial<SubscriptionDelivery> = {
+      attempts,
+      lastAttemptAt: now,
+      responseStatus,
+      lastError: error,
+    };
+    if (!error) {
+      changes.status = DeliveryStatus.SUCCEEDED;
+      changes.deliveredAt = now;
+      changes.nextAttemptAt = null;
+    } else if (attempts >= this.retryPolicy.maxAttempts) {
+      changes.status = DeliveryStatus.FAILED;
+      changes.nextAttemptAt = null;
+      this.logger.warn(
+        `Giving up on delivery ${delivery.id} to ${subscription.url} after ${attempts} attempt(s): ${error}`,
+      );
+    } else {
+      changes.nextAttemptAt = new Date(
+        now.getTime() + getRetryDelay(this.retryPolicy, attempts),
+      );
+    }
+    await this.deliveryRepository.update(delivery.id, changes);
+  }
+
+  /** Deletes finished deliveries older than the retention period. */
+  async prune(): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - this.retentionDays * 86400000);
+      const result = await this.deliveryRepository
+        .createQueryBuilder()
+        .delete()
+        .where('createdAt < :cutoff', { cutoff })
+        .andWhere('status != :pending', { pending: DeliveryStatus.PENDING })
+        .execute();
+      this.logger.log(`Pruned ${result.affected ?? 0} webhook deliveries`);
+    } catch (error) {
+      this.logger.error(`Error pruning webhook deliveries: ${error.message}`);
+    }
+  }
+
+  // Another instance may retry a claimed delivery once its attempt must be over
+  private claimedUntil(): Date {
+    return new Date(Date.now() + 2 * this.timeoutMs);
+  }
+}
+
+/**
+ * Condition on one of a subscription's jsonb filter columns, matching the
+ * event's value bound as a one-element JSON array of the same name. An unset
+ * or empty filter matches every value.
+ */
+function filterIncludes(
+  column: 'eventTypes' | 'jobIds' | 'jobStatuses',
+): string {
+  return (
+    `(subscription.${column} IS NULL ` +
+    `OR subscription.${column} = '[]'::jsonb ` +
+    `OR subscription.${column} @> CAST(:${column} AS jsonb))`
+  );
+}
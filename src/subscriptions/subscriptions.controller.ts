@@ -0,0 +1,201 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseIntPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { SubscriptionsService } from './subscriptions.service';
+import { CreateSubscriptionDto } from './dto/create-subscription.dto';
+import { UpdateSubscriptionDto } from './dto/update-subscription.dto';
+import {
+  CreatedSubscriptionResponseDto,
+  SubscriptionResponseDto,
+} from './dto/subscription-response.dto';
+import { PaginatedSubscriptionsDto } from './dto/paginated-subscriptions.dto';
+import { PaginatedSubscriptionDeliveriesDto } from './dto/paginated-subscription-deliveries.dto';
+import { DeliveryStatus } from './entities/subscription-delivery.entity';
+import { CurrentTenant, RequireScopes } from '../auth/auth.decorators';
+import { ApiScope } from '../auth/entities/api-key.entity';
+
+@ApiTags('subscriptions')
+@RequireScopes(ApiScope.SUBSCRIPTIONS)
+@Controller('subscriptions')
+export class SubscriptionsController {
+  constructor(private readonly subscriptionsService: SubscriptionsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Subscribe a URL to job events' })
+  @ApiResponse({
+    status: 201,
+    description:
+      'Subscription created; the response is the only one that includes its secret',
+    type: CreatedSubscriptionResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  async create(
+    @Body() createSubscriptionDto: CreateSubscriptionDto,
+    @CurrentTenant() tenantId: string,
+  ): Promise<CreatedSubscriptionResponseDto> {
+    const subscription = await this.subscriptionsService.create(
+      tenantId,
+      createSubscriptionDto,
+    );
+    return {
+      ...SubscriptionResponseDto.fromEntity(subscription),
+      secret: subscription.secret,
+    };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List all subscriptions with pagination' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page (default: 50, max: 100)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of subscriptions',
+    type: PaginatedSubscriptionsDto,
+  })
+  async findAll(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @CurrentTenant() tenantId: string,
+  ): Promise<PaginatedSubscriptionsDto> {
+    const result = await this.subscriptionsService.findAll(
+      tenantId,
+      page,
+      Math.min(limit, 100),
+    );
+    return {
+      ...result,
+      subscriptions: result.subscriptions.map(
+        SubscriptionResponseDto.fromEntity,
+      ),
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get subscription by ID' })
+  @ApiParam({ name: 'id', description: 'Subscription ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscription details',
+    type: SubscriptionResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Subscription not found' })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentTenant() tenantId: string,
+  ): Promise<SubscriptionResponseDto> {
+    return SubscriptionResponseDto.fromEntity(
+      await this.subscriptionsService.findOne(tenantId, id),
+    );
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update a subscription, e.g. its filters, or rotate its secret',
+  })
+  @ApiParam({ name: 'id', description: 'Subscription ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subscription updated successfully',
+    type: SubscriptionResponseDto,
+  })
+  @ApiResponse({ status: 400, description: 'Bad request' })
+  @ApiResponse({ status: 404, description: 'Subscription not found' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateSubscriptionDto: UpdateSubscriptionDto,
+    @CurrentTenant() tenantId: string,
+  ): Promise<SubscriptionResponseDto> {
+    return SubscriptionResponseDto.fromEntity(
+      await this.subscriptionsService.update(
+        tenantId,
+        id,
+        updateSubscriptionDto,
+      ),
+    );
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a subscription and its delivery log' })
+  @ApiParam({ name: 'id', description: 'Subscription ID' })
+  @ApiResponse({ status: 204, description: 'Subscription deleted' })
+  @ApiResponse({ status: 404, description: 'Subscription not found' })
+  async remove(
+    @Param('id') id: string,
+    @CurrentTenant() tenantId: string,
+  ): Promise<void> {
+    return this.subscriptionsService.remove(tenantId, id);
+  }
+
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'List deliveries of events to a subscription' })
+  @ApiParam({ name: 'id', description: 'Subscription ID' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page (default: 50, max: 100)',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: DeliveryStatus,
+    description: 'Filter by delivery status',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated delivery log, most recent first',
+    type: PaginatedSubscriptionDeliveriesDto,
+  })
+  @ApiResponse({ status: 404, description: 'Subscription not found' })
+  async findDeliveries(
+    @Param('id') id: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @CurrentTenant() tenantId: string,
+    @Query('status') status?: DeliveryStatus,
+  ): Promise<PaginatedSubscriptionDeliveriesDto> {
+    return this.subscriptionsService.findDeliveries(
+      tenantId,
+      id,
+      page,
+      Math.min(limit, 100),
+      status,
+    );
+  }
+}
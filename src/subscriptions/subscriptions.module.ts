@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Subscription } from './entities/subscription.entity';
+import { SubscriptionDelivery } from './entities/subscription-delivery.entity';
+import { SubscriptionsService } from './subscriptions.service';
+import { SubscriptionDeliveriesService } from './subscription-deliveries.service';
+import { SubscriptionsController } from './subscriptions.controller';
+import { EventsModule } from '../events/events.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Subscription, SubscriptionDelivery]),
+    EventsModule,
+  ],
+  controllers: [SubscriptionsController],
+  providers: [SubscriptionsService, SubscriptionDeliveriesService],
+})
+export class SubscriptionsModule {}
@@ -0,0 +1,116 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+import { Subscription } from './entities/subscription.entity';
+import {
+  DeliveryStatus,
+  SubscriptionDelivery,
+} from './entities/subscription-delivery.entity';
+import { CreateSubscriptionDto } from './dto/create-subscription.dto';
+import { UpdateSubscriptionDto } from './dto/update-subscription.dto';
+
+@Injectable()
+export class SubscriptionsService {
+  constructor(
+    @InjectRepository(Subscription)
+    private readonly subscriptionRepository: Repository<Subscription>,
+    @InjectRepository(SubscriptionDelivery)
+    private readonly deliveryRepository: Repository<SubscriptionDelivery>,
+  ) {}
+
+  async create(
+    tenantId: string,
+    createSubscriptionDto: CreateSubscriptionDto,
+  ): Promise<Subscription> {
+    return this.subscriptionRepository.save(
+      this.subscriptionRepository.create({
+        ...createSubscriptionDto,
+        tenantId,
+        secret:
+          createSubscriptionDto.secret ??
+          `whsec_${randomBytes(24).toString('hex')}`,
+      }),
+    );
+  }
+
+  async findAll(
+    tenantId: string,
+    page: number = 1,
+    limit: number = 50,
+  ): Promise<{
+    subscriptions: Subscription[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const [subscriptions, total] = await this.subscriptionRepository
+      .createQueryBuilder('subscription')
+      .where('subscription.tenantId = :tenantId', { tenantId })
+      .orderBy('subscription.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { subscriptions, total, page, limit };
+  }
+
+  async findOne(tenantId: string, id: string): Promise<Subscription> {
+    const subscription = await this.subscriptionRepository
+      .createQueryBuilder('subscription')
+      .where('subscription.id = :id', { id })
+      .andWhere('subscription.tenantId = :tenantId', { tenantId })
+      .getOne();
+
+    if (!subscription) {
+      throw new NotFoundException(`Subscription with ID ${id} not found`);
+    }
+    return subscription;
+  }
+
+  async update(
+    tenantId: string,
+    id: string,
+    updateSubscriptionDto: UpdateSubscriptionDto,
+  ): Promise<Subscription> {
+    const subscription = await this.findOne(tenantId, id);
+    Object.assign(subscription, updateSubscriptionDto);
+    return this.subscriptionRepository.save(subscription);
+  }
+
+  /** Deletes the subscription with its delivery log; pending deliveries are dropped. */
+  async remove(tenantId: string, id: string): Promise<void> {
+    const subscription = await this.findOne(tenantId, id);
+    await this.subscriptionRepository.remove(subscription);
+  }
+
+  async findDeliveries(
+    tenantId: string,
+    subscriptionId: string,
+    page: number = 1,
+    limit: number = 50,
+    status?: DeliveryStatus,
+  ): Promise<{
+    deliveries: SubscriptionDelivery[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    await this.findOne(tenantId, subscriptionId);
+
+    const queryBuilder = this.deliveryRepository
+      .createQueryBuilder('delivery')
+      .where('delivery.subscriptionId = :subscriptionId', { subscriptionId });
+    if (status) {
+      queryBuilder.andWhere('delivery.status = :status', { status });
+    }
+
+    const [deliveries, total] = await queryBuilder
+      .orderBy('delivery.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { deliveries, total, page, limit };
+  }
+}
@@ -0,0 +1,48 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'X-Scheduler-Signature';
+
+/**
+ * Signs a delivery's body for the `X-Scheduler-Signature` header:
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`, keyed with the
+ * subscription's secret. The timestamp lets receivers reject replays.
+ */
+export function signPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+/**
+ * Checks a signature made by `signPayload`, as a receiver would, allowing
+ * `toleranceSeconds` of clock difference and delay.
+ */
+export function verifySignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = 300,
+  now: number = Math.floor(Date.now() / 1000),
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => part.trim().split('=', 2)),
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) {
+    return false;
+  }
+  if (Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+  const expected = Buffer.from(hmac(secret, timestamp, body), 'hex');
+  const actual = Buffer.from(parts.v1, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
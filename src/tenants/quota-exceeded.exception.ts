@@ -0,0 +1,15 @@
+import { ForbiddenException } from '@nestjs/common';
+import { TenantQuotas } from './tenant-quotas';
+
+/** A request that would take a tenant past one of its quotas. */
+export class QuotaExceededException extends ForbiddenException {
+  constructor(quota: keyof TenantQuotas, limit: number, message: string) {
+    super({
+      statusCode: 403,
+      error: 'Quota Exceeded',
+      message,
+      quota,
+      limit,
+    });
+  }
+}
@@ -0,0 +1,113 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Job, JobStatus } from '../jobs/entities/job.entity';
+import {
+  getShortestInterval,
+  parseSchedule,
+} from '../scheduler/schedule/schedule';
+import { TenantQuotas, parseTenantQuotas } from './tenant-quotas';
+import { QuotaExceededException } from './quota-exceeded.exception';
+
+/**
+ * Quotas of each tenant: the TENANT_* defaults, overridden per tenant by
+ * TENANT_QUOTAS. Jobs breaking them are rejected when created, updated,
+ * resumed or requeued; the concurrent runs quota is also enforced by the
+ * scheduler's dispatch queue.
+ */
+@Injectable()
+export class TenantQuotasService {
+  private readonly defaults: TenantQuotas;
+  private readonly overrides: Record<string, Partial<TenantQuotas>>;
+
+  constructor(
+    @InjectRepository(Job)
+    private readonly jobRepository: Repository<Job>,
+    configService: ConfigService,
+  ) {
+    const limit = (key: string): number | null => {
+      const value = configService.get(key);
+      return value === undefined || value === '' ? null : Number(value);
+    };
+    this.defaults = {
+      maxActiveJobs: limit('TENANT_MAX_ACTIVE_JOBS'),
+      minScheduleIntervalMs: limit('TENANT_MIN_SCHEDULE_INTERVAL_MS'),
+      maxConcurrentRuns: limit('TENANT_MAX_CONCURRENT_RUNS'),
+    };
+    this.overrides = parseTenantQuotas(configService.get('TENANT_QUOTAS', ''));
+  }
+
+  getQuotas(tenantId: string): TenantQuotas {
+    return { ...this.defaults, ...this.overrides[tenantId] };
+  }
+
+  /**
+   * Checks the job's schedule and overlapping runs against its tenant's
+   * quotas. Occurrences closer together than the minimum interval are only
+   * looked for in the schedule, not in its bounds.
+   */
+  assertJobWithinQuotas(
+    job: Pick<Job, 'tenantId' | 'schedule'> &
+      Partial<Pick<Job, 'timezone' | 'maxConcurrency'>>,
+  ): void {
+    const { minScheduleIntervalMs, maxConcurrentRuns } = this.getQuotas(
+      job.tenantId,
+    );
+
+    if (minScheduleIntervalMs !== null && job.schedule) {
+      const interval = getShortestInterval(
+        parseSchedule(job.schedule),
+        new Date(),
+        job.timezone,
+      );
+      if (interval !== null && interval < minScheduleIntervalMs) {
+        throw new QuotaExceededException(
+          'minScheduleIntervalMs',
+          minScheduleIntervalMs,
+          `Schedule "${job.schedule}" runs every ${interval} ms, more often than tenant "${job.tenantId}" allows (at least ${minScheduleIntervalMs} ms apart)`,
+        );
+      }
+    }
+
+    if (maxConcurrentRuns !== null && job.maxConcurrency > maxConcurrentRuns) {
+      throw new QuotaExceededException(
+        'maxConcurrentRuns',
+        maxConcurrentRuns,
+        `maxConcurrency of ${job.maxConcurrency} exceeds the ${maxConcurrentRuns} concurrent runs tenant "${job.tenantId}" is allowed`,
+      );
+    }
+  }
+
+  /**
+   * Checks that the tenant may have `count` more active jobs, besides
+   * `excludeJobId`, the job being activated, if it is active already.
+   */
+  async assertCanActivate(
+    tenantId: string,
+    count: number = 1,
+    excludeJobId?: string,
+  ): Promise<void> {
+    const { maxActiveJobs } = this.getQuotas(tenantId);
+    if (maxActiveJobs === null) {
+      return;
+    }
+
+    const queryBuilder = this.jobRepository
+      .createQueryBuilder('job')
+      .where('job.tenantId = :tenantId', { tenantId })
+      .andWhere('job.status = :status', { status: JobStatus.ACTIVE });
+    if (excludeJobId) {
+      queryBuilder.andWhere('job.id != :excludeJobId', { excludeJobId });
+    }
+    const active = await queryBuilder.getCount();
+
+    if (active + count > maxActiveJobs) {
+      throw new QuotaExceededException(
+        'maxActiveJobs',
+        maxActiveJobs,
+        `Tenant "${tenantId}" has ${active} active job(s) and may have at most ${maxActiveJobs}; pause or delete jobs first`,
+      );
+    }
+  }
+}
@@ -0,0 +1,64 @@
+// Limits on what a tenant's jobs may use; null means unlimited
+export interface TenantQuotas {
+  // Jobs of the tenant in the active status at once
+  maxActiveJobs: number | null;
+  // Shortest time allowed between two occurrences of a job's schedule
+  minScheduleIntervalMs: number | null;
+  // Runs of the tenant's jobs executing at once, on each instance
+  maxConcurrentRuns: number | null;
+}
+
+const QUOTA_NAMES: (keyof TenantQuotas)[] = [
+  'maxActiveJobs',
+  'minScheduleIntervalMs',
+  'maxConcurrentRuns',
+];
+
+/**
+ * Parses per-tenant quotas given as a JSON object of quotas by tenant ID,
+ * e.g. `{"analytics": {"maxActiveJobs": 100, "maxConcurrentRuns": 4}}`.
+ * Quotas left out fall back to the defaults; null lifts a default.
+ */
+export function parseTenantQuotas(
+  value: string,
+): Record<string, Partial<TenantQuotas>> {
+  if (!value.trim()) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid tenant quotas: ${error.message}`);
+  }
+  if (!isObject(parsed)) {
+    throw new Error('Invalid tenant quotas: expected an object by tenant ID');
+  }
+
+  for (const [tenantId, quotas] of Object.entries(parsed)) {
+    if (!isObject(quotas)) {
+      throw new Error(`Invalid quotas of tenant "${tenantId}"`);
+    }
+    for (const [name, limit] of Object.entries(quotas)) {
+      if (!QUOTA_NAMES.includes(name as keyof TenantQuotas)) {
+        throw new Error(
+          `Unknown quota "${name}" of tenant "${tenantId}"; expected one of ${QUOTA_NAMES.join(', ')}`,
+        );
+      }
+      if (
+        limit !== null &&
+        !(Number.isInteger(limit) && (limit as number) >= 0)
+      ) {
+        throw new Error(
+          `Invalid quota ${name} of tenant "${tenantId}": expected a non-negative integer or null`,
+        );
+      }
+    }
+  }
+  return parsed as Record<string, Partial<TenantQuotas>>;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
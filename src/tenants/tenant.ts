@@ -0,0 +1,6 @@
+// Tenant of callers that authenticate without one, and of jobs created
+// before tenants were introduced
+export const DEFAULT_TENANT_ID = 'default';
+
+// Tenant IDs are slugs, e.g. the name of a team
+export const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Job } from '../jobs/entities/job.entity';
+import { TenantQuotasService } from './tenant-quotas.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Job])],
+  providers: [TenantQuotasService],
+  exports: [TenantQuotasService],
+})
+export class TenantsModule {}
@@ -0,0 +1,169 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsObject,
+  IsEnum,
+  IsInt,
+  IsTimeZone,
+  Matches,
+  MinLength,
+  MaxLength,
+  Min,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { EdgeCondition } from '../entities/workflow.entity';
+import { JobType } from '../../jobs/entities/job.entity';
+import { IsSchedule } from '../../jobs/validators/is-schedule.validator';
+import { RetryPolicyDto } from '../../jobs/dto/retry-policy.dto';
+
+export class WorkflowNodeDto {
+  @ApiProperty({
+    description: 'Key of the node, referenced by edges',
+    example: 'process',
+    maxLength: 100,
+  })
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]+$/, {
+    message: 'key may only contain letters, digits, "_" and "-"',
+  })
+  @MaxLength(100)
+  key: string;
+
+  @ApiProperty({
+    description: 'Job type; see GET /job-types for the registered types',
+    example: JobType.DATA_PROCESSING,
+    maxLength: 100,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  type: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Job metadata, validated against the metadata schema of the job type. Outputs of upstream nodes are added under "upstream" when the node runs',
+    example: { records: 1000 },
+  })
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, any>;
+
+  @ApiPropertyOptional({
+    description:
+      "Maximum duration of a run in milliseconds; defaults to the job type's timeout",
+    example: 300000,
+    minimum: 1,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  timeoutMs?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Retry policy for failed runs; unset fields fall back to the job type's defaults",
+    type: RetryPolicyDto,
+  })
+  @ValidateNested()
+  @Type(() => RetryPolicyDto)
+  @IsOptional()
+  retryPolicy?: RetryPolicyDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Jobs with a higher priority are dispatched first when due jobs wait for a free slot',
+    example: 0,
+    default: 0,
+  })
+  @IsInt()
+  @IsOptional()
+  priority?: number;
+}
+
+export class WorkflowEdgeDto {
+  @ApiProperty({ description: 'Key of the upstream node', example: 'process' })
+  @IsString()
+  @IsNotEmpty()
+  from: string;
+
+  @ApiProperty({ description: 'Key of the downstream node', example: 'report' })
+  @IsString()
+  @IsNotEmpty()
+  to: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Run the downstream node when the upstream one succeeded, failed (or was cancelled), or either',
+    enum: EdgeCondition,
+    default: EdgeCondition.ON_SUCCESS,
+  })
+  @IsEnum(EdgeCondition)
+  @IsOptional()
+  condition?: EdgeCondition;
+}
+
+export class CreateWorkflowDto {
+  @ApiProperty({
+    description: 'Workflow name',
+    example: 'Daily Report Pipeline',
+    minLength: 3,
+    maxLength: 255,
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MinLength(3)
+  @MaxLength(255)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Workflow description',
+    example: "Processes the day's data, then generates and emails a report",
+  })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Schedule expression that starts runs (see POST /jobs); without one the workflow only runs on demand',
+    example: '0 2 * * *',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @IsSchedule()
+  @IsOptional()
+  schedule?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'IANA time zone the cron schedule is evaluated in (default: UTC)',
+    example: 'America/New_York',
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiProperty({
+    description: 'Jobs of the workflow',
+    type: [WorkflowNodeDto],
+  })
+  @ValidateNested({ each: true })
+  @Type(() => WorkflowNodeDto)
+  @ArrayMinSize(1)
+  nodes: WorkflowNodeDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Dependencies between nodes; nodes without incoming edges start each run. Cycles are rejected',
+    type: [WorkflowEdgeDto],
+    default: [],
+  })
+  @ValidateNested({ each: true })
+  @Type(() => WorkflowEdgeDto)
+  @IsOptional()
+  edges?: WorkflowEdgeDto[];
+}
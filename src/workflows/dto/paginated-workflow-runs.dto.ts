@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { WorkflowRunResponseDto } from './workflow-run-response.dto';
+
+export class PaginatedWorkflowRunsDto {
+  @ApiProperty({ type: [WorkflowRunResponseDto] })
+  runs: WorkflowRunResponseDto[];
+
+  @ApiProperty({ example: 100 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 50 })
+  limit: number;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { WorkflowResponseDto } from './workflow-response.dto';
+
+export class PaginatedWorkflowsDto {
+  @ApiProperty({ type: [WorkflowResponseDto] })
+  workflows: WorkflowResponseDto[];
+
+  @ApiProperty({ example: 100 })
+  total: number;
+
+  @ApiProperty({ example: 1 })
+  page: number;
+
+  @ApiProperty({ example: 50 })
+  limit: number;
+}
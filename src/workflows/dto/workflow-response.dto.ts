@@ -0,0 +1,64 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { EdgeCondition } from '../entities/workflow.entity';
+
+export class WorkflowNodeResponseDto {
+  @ApiProperty({ example: 'process' })
+  key: string;
+
+  @ApiProperty({
+    description:
+      'Job that runs the node; see GET /jobs/:id/runs for its history',
+    example: '123e4567-e89b-12d3-a456-426614174000',
+  })
+  jobId: string;
+}
+
+export class WorkflowEdgeResponseDto {
+  @ApiProperty({ example: 'process' })
+  from: string;
+
+  @ApiProperty({ example: 'report' })
+  to: string;
+
+  @ApiProperty({ enum: EdgeCondition, example: EdgeCondition.ON_SUCCESS })
+  condition: EdgeCondition;
+}
+
+export class WorkflowResponseDto {
+  @ApiProperty({ example: '5f0c1d2e-3b4a-4c5d-8e9f-0a1b2c3d4e5f' })
+  id: string;
+
+  @ApiProperty({ example: 'analytics' })
+  tenantId: string;
+
+  @ApiProperty({ example: 'Daily Report Pipeline' })
+  name: string;
+
+  @ApiProperty({ example: null, required: false })
+  description?: string;
+
+  @ApiProperty({ example: '0 2 * * *', required: false })
+  schedule?: string;
+
+  @ApiProperty({ example: 'UTC' })
+  timezone: string;
+
+  @ApiProperty({
+    description: 'Job that starts a run on each occurrence of the schedule',
+    example: '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d',
+    required: false,
+  })
+  triggerJobId?: string;
+
+  @ApiProperty({ type: [WorkflowNodeResponseDto] })
+  nodes: WorkflowNodeResponseDto[];
+
+  @ApiProperty({ type: [WorkflowEdgeResponseDto] })
+  edges: WorkflowEdgeResponseDto[];
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  createdAt: Date;
+
+  @ApiProperty({ example: '2024-01-15T10:00:00Z' })
+  updatedAt: Date;
+}
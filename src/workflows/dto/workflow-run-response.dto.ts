@@ -0,0 +1,63 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  WorkflowNodeStatus,
+  WorkflowRunStatus,
+} from '../entities/workflow-run.entity';
+
+export class WorkflowNodeStateDto {
+  @ApiProperty({
+    enum: WorkflowNodeStatus,
+    example: WorkflowNodeStatus.SUCCEEDED,
+  })
+  status: WorkflowNodeStatus;
+
+  @ApiProperty({
+    description: 'Run of the node job that settled the node',
+    example: '9b2f6c1e-3d4a-4c2b-8f5e-1a2b3c4d5e6f',
+    required: false,
+  })
+  jobRunId?: string;
+
+  @ApiProperty({ example: { recordsProcessed: 1000 }, required: false })
+  output?: Record<string, any>;
+
+  @ApiProperty({ example: null, required: false })
+  error?: string;
+
+  @ApiProperty({ example: '2024-01-15T02:00:00Z', required: false })
+  startedAt?: Date;
+
+  @ApiProperty({ example: '2024-01-15T02:00:05Z', required: false })
+  finishedAt?: Date;
+}
+
+export class WorkflowRunResponseDto {
+  @ApiProperty({ example: '0e1d2c3b-4a59-4687-9a0b-c1d2e3f4a5b6' })
+  id: string;
+
+  @ApiProperty({ example: '5f0c1d2e-3b4a-4c5d-8e9f-0a1b2c3d4e5f' })
+  workflowId: string;
+
+  @ApiProperty({
+    enum: WorkflowRunStatus,
+    example: WorkflowRunStatus.SUCCEEDED,
+  })
+  status: WorkflowRunStatus;
+
+  @ApiProperty({
+    description: 'State of each node, by key',
+    type: 'object',
+    additionalProperties: { $ref: '#/components/schemas/WorkflowNodeStateDto' },
+    example: {
+      process: { status: 'succeeded', output: { recordsProcessed: 1000 } },
+      report: { status: 'running' },
+    },
+  })
+  nodes: Record<string, WorkflowNodeStateDto>;
+
+  @ApiProperty({ example: '2024-01-15T02:00:00Z' })
+  startedAt: Date;
+
+  @ApiProperty({ example: null, required: false })
+  finishedAt?: Date;
+}
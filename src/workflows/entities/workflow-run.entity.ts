@@ -0,0 +1,64 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Workflow } from './workflow.entity';
+
+export enum WorkflowRunStatus {
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed', // At least one node failed or was cancelled
+}
+
+export enum WorkflowNodeStatus {
+  PENDING = 'pending',
+  RUNNING = 'running', // Triggered; its job is queued or executing
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+  SKIPPED = 'skipped', // An incoming edge's condition was not met
+}
+
+export interface WorkflowNodeState {
+  status: WorkflowNodeStatus;
+  jobRunId?: string;
+  output?: Record<string, any>;
+  error?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+@Entity('workflow_runs')
+@Index(['workflowId', 'startedAt']) // Composite index for per-workflow history queries
+@Index(['workflowId'], { unique: true, where: `"status" = 'running'` }) // One running run per workflow
+export class WorkflowRun {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  workflowId: string;
+
+  @ManyToOne(() => Workflow, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'workflowId' })
+  workflow: Workflow;
+
+  @Column({
+    type: 'enum',
+    enum: WorkflowRunStatus,
+    default: WorkflowRunStatus.RUNNING,
+  })
+  status: WorkflowRunStatus;
+
+  @Column({ type: 'jsonb' })
+  nodes: Record<string, WorkflowNodeState>; // State of each node, by key
+
+  @Column({ type: 'timestamp' })
+  startedAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt: Date;
+}
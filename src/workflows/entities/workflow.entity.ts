@@ -0,0 +1,62 @@
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { DEFAULT_TENANT_ID } from '../../tenants/tenant';
+
+// When a downstream node runs, given how its upstream node ended
+export enum EdgeCondition {
+  ON_SUCCESS = 'on_success',
+  ON_FAILURE = 'on_failure', // Failed or cancelled
+  ALWAYS = 'always', // Succeeded, failed or cancelled, but not skipped
+}
+
+export interface WorkflowNode {
+  key: string;
+  jobId: string; // Job that runs the node
+}
+
+export interface WorkflowEdge {
+  from: string;
+  to: string;
+  condition: EdgeCondition;
+}
+
+@Entity('workflows')
+export class Workflow {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 64, default: DEFAULT_TENANT_ID })
+  tenantId: string; // Tenant of the workflow and its jobs
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  schedule: string; // Starts runs on this schedule; unscheduled workflows are run on demand
+
+  @Column({ type: 'varchar', length: 64, default: 'UTC' })
+  timezone: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  triggerJobId: string; // `workflow` job that starts a run on each occurrence of the schedule
+
+  @Column({ type: 'jsonb' })
+  nodes: WorkflowNode[];
+
+  @Column({ type: 'jsonb' })
+  edges: WorkflowEdge[];
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,153 @@
+import { EdgeCondition, WorkflowEdge } from './entities/workflow.entity';
+import {
+  WorkflowNodeState,
+  WorkflowNodeStatus,
+} from './entities/workflow-run.entity';
+
+const SETTLED_STATUSES = [
+  WorkflowNodeStatus.SUCCEEDED,
+  WorkflowNodeStatus.FAILED,
+  WorkflowNodeStatus.CANCELLED,
+  WorkflowNodeStatus.SKIPPED,
+];
+
+/**
+ * Checks that node keys are unique, edges connect known nodes, and the graph
+ * has no cycles. Returns one message per problem found.
+ */
+export function validateWorkflowGraph(
+  keys: string[],
+  edges: Pick<WorkflowEdge, 'from' | 'to'>[],
+): string[] {
+  const errors: string[] = [];
+  const known = new Set<string>();
+  for (const key of keys) {
+    if (known.has(key)) {
+      errors.push(`Duplicate node key "${key}"`);
+    }
+    known.add(key);
+  }
+
+  const seen = new Set<string>();
+  for (const { from, to } of edges) {
+    for (const key of [from, to]) {
+      if (!known.has(key)) {
+        errors.push(`Edge ${from} -> ${to} references unknown node "${key}"`);
+      }
+    }
+    if (seen.has(`${from}\0${to}`)) {
+      errors.push(`Duplicate edge ${from} -> ${to}`);
+    }
+    seen.add(`${from}\0${to}`);
+  }
+
+  if (errors.length === 0) {
+    const cycle = findCycle(keys, edges);
+    if (cycle) {
+      errors.push(`Workflow contains a cycle: ${cycle.join(' -> ')}`);
+    }
+  }
+  return errors;
+}
+
+/** A path that leads back to its first node, e.g. [a, b, a], if any. */
+function findCycle(
+  keys: string[],
+  edges: Pick<WorkflowEdge, 'from' | 'to'>[],
+): string[] | null {
+  const downstream = new Map(keys.map((key) => [key, [] as string[]]));
+  edges.forEach(({ from, to }) => downstream.get(from).push(to));
+
+  // Depth-first search; a node reached again while on the path closes a cycle
+  const visited = new Set<string>();
+  const path: string[] = [];
+  const visit = (key: string): string[] | null => {
+    const index = path.indexOf(key);
+    if (index !== -1) {
+      return [...path.slice(index), key];
+    }
+    if (visited.has(key)) {
+      return null;
+    }
+    visited.add(key);
+    path.push(key);
+    for (const next of downstream.get(key)) {
+      const cycle = visit(next);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    return null;
+  };
+
+  for (const key of keys) {
+    const cycle = visit(key);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
+export function isSettled(status: WorkflowNodeStatus): boolean {
+  return SETTLED_STATUSES.includes(status);
+}
+
+function edgeFires(
+  condition: EdgeCondition,
+  upstream: WorkflowNodeStatus,
+): boolean {
+  switch (condition) {
+    case EdgeCondition.ON_SUCCESS:
+      return upstream === WorkflowNodeStatus.SUCCEEDED;
+    case EdgeCondition.ON_FAILURE:
+      return (
+        upstream === WorkflowNodeStatus.FAILED ||
+        upstream === WorkflowNodeStatus.CANCELLED
+      );
+    case EdgeCondition.ALWAYS:
+      return upstream !== WorkflowNodeStatus.SKIPPED;
+  }
+}
+
+/**
+ * Moves pending nodes whose upstream nodes have all settled on: to running
+ * if every incoming edge's condition is met, else to skipped, which may in
+ * turn settle nodes further down. Updates `states` in place and returns the
+ * keys of the nodes to trigger.
+ */
+export function advanceWorkflow(
+  keys: string[],
+  edges: WorkflowEdge[],
+  states: Record<string, WorkflowNodeState>,
+  now: Date = new Date(),
+): string[] {
+  const triggered: string[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const key of keys) {
+      if (states[key].status !== WorkflowNodeStatus.PENDING) {
+        continue;
+      }
+      const incoming = edges.filter((edge) => edge.to === key);
+      if (!incoming.every((edge) => isSettled(states[edge.from].status))) {
+        continue;
+      }
+
+      if (
+        incoming.every((edge) =>
+          edgeFires(edge.condition, states[edge.from].status),
+        )
+      ) {
+        states[key] = { status: WorkflowNodeStatus.RUNNING, startedAt: now };
+        triggered.push(key);
+      } else {
+        states[key] = { status: WorkflowNodeStatus.SKIPPED, finishedAt: now };
+        changed = true;
+      }
+    }
+  }
+  return triggered;
+}
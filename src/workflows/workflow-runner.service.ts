@@ -0,0 +1,304 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { QueryFailedError, Repository } from 'typeorm';
+import { Subscription } from 'rxjs';
+import { Workflow } from './entities/workflow.entity';
+import {
+  WorkflowNodeState,
+  WorkflowNodeStatus,
+  WorkflowRun,
+  WorkflowRunStatus,
+} from './entities/workflow-run.entity';
+import { advanceWorkflow, isSettled } from './workflow-graph';
+import { Job, JobStatus } from '../jobs/entities/job.entity';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { UPSTREAM_METADATA_KEY } from '../scheduler/handlers/job-handler.interface';
+import {
+  JobEvent,
+  JobEventType,
+  JobEventsService,
+} from '../events/job-events.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditActor } from '../audit/audit-actor';
+import { AuditAction } from '../audit/entities/audit-entry.entity';
+import { TenantQuotasService } from '../tenants/tenant-quotas.service';
+import { QuotaExceededException } from '../tenants/quota-exceeded.exception';
+
+// Postgres error raised by the one-running-run-per-workflow index
+const UNIQUE_VIOLATION = '23505';
+
+// Node status for the events of a node job finishing an occurrence
+const NODE_STATUSES: Partial<Record<JobEventType, WorkflowNodeStatus>> = {
+  [JobEventType.RUN_SUCCEEDED]: WorkflowNodeStatus.SUCCEEDED,
+  [JobEventType.RUN_FAILED]: WorkflowNodeStatus.FAILED,
+  [JobEventType.RUN_CANCELLED]: WorkflowNodeStatus.CANCELLED,
+};
+
+/**
+ * Drives workflow runs: triggers the root nodes' jobs, and each time a node's
+ * job finishes an occurrence, triggers the nodes whose edges it satisfies.
+ * Node jobs report back through job events on the instance that ran them.
+ */
+@Injectable()
+export class WorkflowRunnerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WorkflowRunnerService.name);
+  private subscription: Subscription;
+
+  constructor(
+    @InjectRepository(Workflow)
+    private readonly workflowRepository: Repository<Workflow>,
+    @InjectRepository(WorkflowRun)
+    private readonly workflowRunRepository: Repository<WorkflowRun>,
+    @InjectRepository(Job)
+    private readonly jobRepository: Repository<Job>,
+    private readonly schedulerService: SchedulerService,
+    private readonly jobEventsService: JobEventsService,
+    private readonly auditService: AuditService,
+    private readonly tenantQuotasService: TenantQuotasService,
+  ) {}
+
+  onModuleInit() {
+    this.subscription = this.jobEventsService.events$.subscribe((event) => {
+      if (
+        NODE_STATUSES[event.type] &&
+        event.job.workflowRunId &&
+        !event.willRetry
+      ) {
+        this.onNodeFinished(event);
+      }
+    });
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Starts a run of the tenant's workflow. A workflow runs once at a time, as
+   * each of its node jobs belongs to a single run. Runs started by a caller
+   * rather than the schedule record the root nodes they trigger in the audit
+   * log, with the caller as actor.
+   */
+  async start(
+    tenantId: string,
+    workflowId: string,
+    actor?: AuditActor,
+  ): Promise<WorkflowRun> {
+    const workflow = await this.workflowRepository.findOneBy({
+      id: workflowId,
+      tenantId,
+    });
+    if (!workflow) {
+      throw new NotFoundException(`Workflow with ID ${workflowId} not found`);
+    }
+
+    let run = this.workflowRunRepository.create({
+      workflowId,
+      status: WorkflowRunStatus.RUNNING,
+      nodes: Object.fromEntries(
+        workflow.nodes.map(({ key }) => [
+          key,
+          { status: WorkflowNodeStatus.PENDING },
+        ]),
+      ),
+      startedAt: new Date(),
+    });
+    try {
+      run = await this.workflowRunRepository.save(run);
+    } catch (error) {
+      if (
+        error instanceof QueryFailedError &&
+        error.driverError?.code === UNIQUE_VIOLATION
+      ) {
+        throw new ConflictException(
+          `Workflow with ID ${workflowId} is already running`,
+        );
+      }
+      throw error;
+    }
+
+    this.logger.log(`Started run ${run.id} of workflow ${workflow.name}`);
+    return this.advance(run.id, undefined, actor);
+  }
+
+  private async onNodeFinished({ type, job, run }: JobEvent): Promise<void> {
+    const status = NODE_STATUSES[type];
+
+    try {
+      await this.advance(job.workflowRunId, {
+        jobId: job.id,
+        state: {
+          status,
+          jobRunId: run.id,
+          output: run.output ?? undefined,
+          error: run.errorMessage ?? undefined,
+          finishedAt: run.finishedAt,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error advancing workflow run ${job.workflowRunId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Records a finished node, if any, and triggers the nodes that became
+   * ready. The run row is locked meanwhile, as parallel branches can finish
+   * at the same time on different instances.
+   */
+  private async advance(
+    runId: string,
+    finished?: { jobId: string; state: WorkflowNodeState },
+    actor?: AuditActor,
+  ): Promise<WorkflowRun> {
+    const { run, workflow, triggered } =
+      await this.workflowRunRepository.manager.transaction(async (manager) => {
+        const run = await manager
+          .createQueryBuilder(WorkflowRun, 'run')
+          .where('run.id = :runId', { runId })
+          .setLock('pessimistic_write')
+          .getOne();
+        if (!run || run.status !== WorkflowRunStatus.RUNNING) {
+          return { run, workflow: null, triggered: [] };
+        }
+        const workflow = await manager.findOneBy(Workflow, {
+          id: run.workflowId,
+        });
+
+        const nodes = { ...run.nodes };
+        if (finished) {
+          const node = workflow.nodes.find(
+            ({ jobId }) => jobId === finished.jobId,
+          );
+          // Stale events, e.g. from a requeued node job, are ignored
+          if (nodes[node?.key]?.status !== WorkflowNodeStatus.RUNNING) {
+            return { run, workflow, triggered: [] };
+          }
+          nodes[node.key] = { ...nodes[node.key], ...finished.state };
+        }
+
+        const now = new Date();
+        const triggered = advanceWorkflow(
+          workflow.nodes.map(({ key }) => key),
+          workflow.edges,
+          nodes,
+          now,
+        );
+        run.nodes = nodes;
+
+        const states = Object.values(nodes);
+        if (states.every(({ status }) => isSettled(status))) {
+          const failed = states.some(
+            ({ status }) =>
+              status === WorkflowNodeStatus.FAILED ||
+              status === WorkflowNodeStatus.CANCELLED,
+          );
+          run.status = failed
+            ? WorkflowRunStatus.FAILED
+            : WorkflowRunStatus.SUCCEEDED;
+          run.finishedAt = now;
+          this.logger.log(
+            `Run ${run.id} of workflow ${workflow.name} ${run.status}`,
+          );
+        }
+
+        await manager.update(WorkflowRun, run.id, {
+          nodes: run.nodes,
+          status: run.status,
+          finishedAt: run.finishedAt,
+        });
+        return { run, workflow, triggered };
+      });
+
+    for (const key of triggered) {
+      await this.triggerNode(workflow, run, key, actor);
+    }
+    return run;
+  }
+
+  /**
+   * Runs the node's job right away, with the outputs of its succeeded
+   * upstream nodes in its metadata. A node whose job would take the tenant
+   * past its active jobs quota fails instead.
+   */
+  private async triggerNode(
+    workflow: Workflow,
+    run: WorkflowRun,
+    key: string,
+    actor?: AuditActor,
+  ): Promise<void> {
+    const { jobId } = workflow.nodes.find((node) => node.key === key);
+    const job = await this.jobRepository.findOneBy({ id: jobId });
+
+    try {
+      await this.tenantQuotasService.assertCanActivate(job.tenantId, 1, jobId);
+    } catch (error) {
+      if (!(error instanceof QuotaExceededException)) {
+        throw error;
+      }
+      this.logger.warn(
+        `Node ${key} of workflow run ${run.id} failed: ${error.message}`,
+      );
+      await this.advance(
+        run.id,
+        {
+          jobId,
+          state: {
+            status: WorkflowNodeStatus.FAILED,
+            error: error.message,
+            finishedAt: new Date(),
+          },
+        },
+        actor,
+      );
+      return;
+    }
+
+    const upstream = Object.fromEntries(
+      workflow.edges
+        .filter((edge) => edge.to === key)
+        .map((edge): [string, WorkflowNodeState] => [
+          edge.from,
+          run.nodes[edge.from],
+        ])
+        .filter(([, state]) => state.status === WorkflowNodeStatus.SUCCEEDED)
+        .map(([from, state]) => [from, state.output ?? null]),
+    );
+    const metadata = { ...job.metadata };
+    delete metadata[UPSTREAM_METADATA_KEY];
+    if (Object.keys(upstream).length > 0) {
+      metadata[UPSTREAM_METADATA_KEY] = upstream;
+    }
+
+    const changes: Partial<Job> = {
+      status: JobStatus.ACTIVE,
+      nextRunAt: new Date(),
+      attempt: 1,
+      failedAt: null,
+      checkpoint: null,
+      progress: null,
+      metadata,
+      workflowRunId: run.id,
+    };
+    const before = { ...job };
+    Object.assign(job, changes);
+    await this.jobRepository.manager.transaction(async (manager) => {
+      await manager.update(Job, jobId, changes);
+      if (actor) {
+        await this.auditService.record(
+          { action: AuditAction.TRIGGERED, job, before, actor },
+          manager,
+        );
+      }
+    });
+    await this.schedulerService.scheduleJob(job);
+  }
+}
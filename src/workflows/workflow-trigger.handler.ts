@@ -0,0 +1,44 @@
+import { ConflictException } from '@nestjs/common';
+import { Job } from '../jobs/entities/job.entity';
+import { JobHandler } from '../scheduler/handlers/job-handler.decorator';
+import {
+  JobOutput,
+  JobTypeHandler,
+} from '../scheduler/handlers/job-handler.interface';
+import { WorkflowRunnerService } from './workflow-runner.service';
+
+export const WORKFLOW_JOB_TYPE = 'workflow';
+
+/** Starts workflow runs on the schedule of the workflow's trigger job. */
+@JobHandler(WORKFLOW_JOB_TYPE, {
+  description: 'Starts a run of a workflow',
+  metadataSchema: {
+    type: 'object',
+    properties: {
+      workflowId: { type: 'string', format: 'uuid' },
+    },
+    required: ['workflowId'],
+    additionalProperties: false,
+  },
+  timeoutMs: 60000,
+  internal: true,
+})
+export class WorkflowTriggerHandler implements JobTypeHandler {
+  constructor(private readonly workflowRunner: WorkflowRunnerService) {}
+
+  async handle(job: Job): Promise<JobOutput> {
+    try {
+      const run = await this.workflowRunner.start(
+        job.tenantId,
+        job.metadata.workflowId,
+      );
+      return { workflowRunId: run.id };
+    } catch (error) {
+      // An occurrence that finds the previous run still going is skipped
+      if (error instanceof ConflictException) {
+        return { skipped: error.message };
+      }
+      throw error;
+    }
+  }
+}
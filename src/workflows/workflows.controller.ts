@@ -0,0 +1,197 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseIntPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+  ApiExtraModels,
+} from '@nestjs/swagger';
+import { WorkflowsService } from './workflows.service';
+import { WorkflowRunnerService } from './workflow-runner.service';
+import { CreateWorkflowDto } from './dto/create-workflow.dto';
+import { WorkflowResponseDto } from './dto/workflow-response.dto';
+import { PaginatedWorkflowsDto } from './dto/paginated-workflows.dto';
+import {
+  WorkflowNodeStateDto,
+  WorkflowRunResponseDto,
+} from './dto/workflow-run-response.dto';
+import { PaginatedWorkflowRunsDto } from './dto/paginated-workflow-runs.dto';
+import { CurrentTenant, RequireScopes } from '../auth/auth.decorators';
+import { ApiScope } from '../auth/entities/api-key.entity';
+import { AuditActor, CurrentActor } from '../audit/audit-actor';
+
+@ApiTags('workflows')
+@ApiExtraModels(WorkflowNodeStateDto)
+@RequireScopes(ApiScope.JOBS_READ)
+@Controller('workflows')
+export class WorkflowsController {
+  constructor(
+    private readonly workflowsService: WorkflowsService,
+    private readonly workflowRunnerService: WorkflowRunnerService,
+  ) {}
+
+  @RequireScopes(ApiScope.JOBS_WRITE)
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a workflow of dependent jobs' })
+  @ApiResponse({
+    status: 201,
+    description: 'Workflow created successfully',
+    type: WorkflowResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request, e.g. the dependencies form a cycle',
+  })
+  async create(
+    @Body() createWorkflowDto: CreateWorkflowDto,
+    @CurrentTenant() tenantId: string,
+    @CurrentActor() actor: AuditActor,
+  ): Promise<WorkflowResponseDto> {
+    return this.workflowsService.create(tenantId, createWorkflowDto, actor);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List all workflows with pagination' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page (default: 50, max: 100)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of workflows',
+    type: PaginatedWorkflowsDto,
+  })
+  async findAll(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @CurrentTenant() tenantId: string,
+  ): Promise<PaginatedWorkflowsDto> {
+    return this.workflowsService.findAll(tenantId, page, Math.min(limit, 100));
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get workflow by ID' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Workflow details',
+    type: WorkflowResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Workflow not found' })
+  async findOne(
+    @Param('id') id: string,
+    @CurrentTenant() tenantId: string,
+  ): Promise<WorkflowResponseDto> {
+    return this.workflowsService.findOne(tenantId, id);
+  }
+
+  @RequireScopes(ApiScope.JOBS_WRITE)
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a workflow with its jobs and runs' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({ status: 204, description: 'Workflow deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Workflow not found' })
+  async remove(
+    @Param('id') id: string,
+    @CurrentTenant() tenantId: string,
+    @CurrentActor() actor: AuditActor,
+  ): Promise<void> {
+    return this.workflowsService.remove(tenantId, id, actor);
+  }
+
+  @RequireScopes(ApiScope.JOBS_EXECUTE)
+  @Post(':id/runs')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Start a run of a workflow now' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiResponse({
+    status: 201,
+    description: 'Run started; its root nodes are triggered',
+    type: WorkflowRunResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Workflow not found' })
+  @ApiResponse({ status: 409, description: 'Workflow is already running' })
+  async start(
+    @Param('id') id: string,
+    @CurrentTenant() tenantId: string,
+    @CurrentActor() actor: AuditActor,
+  ): Promise<WorkflowRunResponseDto> {
+    return this.workflowRunnerService.start(tenantId, id, actor);
+  }
+
+  @Get(':id/runs')
+  @ApiOperation({ summary: 'List runs of a workflow' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page (default: 50, max: 100)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Paginated list of runs, most recent first',
+    type: PaginatedWorkflowRunsDto,
+  })
+  @ApiResponse({ status: 404, description: 'Workflow not found' })
+  async findRuns(
+    @Param('id') id: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @CurrentTenant() tenantId: string,
+  ): Promise<PaginatedWorkflowRunsDto> {
+    return this.workflowsService.findRuns(
+      tenantId,
+      id,
+      page,
+      Math.min(limit, 100),
+    );
+  }
+
+  @Get(':id/runs/:runId')
+  @ApiOperation({ summary: 'Get a single run of a workflow' })
+  @ApiParam({ name: 'id', description: 'Workflow ID' })
+  @ApiParam({ name: 'runId', description: 'Run ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Run details with the state of each node',
+    type: WorkflowRunResponseDto,
+  })
+  @ApiResponse({ status: 404, description: 'Workflow or run not found' })
+  async findRun(
+    @Param('id') id: string,
+    @Param('runId') runId: string,
+    @CurrentTenant() tenantId: string,
+  ): Promise<WorkflowRunResponseDto> {
+    return this.workflowsService.findRun(tenantId, id, runId);
+  }
+}
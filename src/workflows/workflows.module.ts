@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WorkflowsService } from './workflows.service';
+import { WorkflowRunnerService } from './workflow-runner.service';
+import { WorkflowsController } from './workflows.controller';
+import { WorkflowTriggerHandler } from './workflow-trigger.handler';
+import { Workflow } from './entities/workflow.entity';
+import { WorkflowRun } from './entities/workflow-run.entity';
+import { Job } from '../jobs/entities/job.entity';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+import { EventsModule } from '../events/events.module';
+import { ArtifactsModule } from '../artifacts/artifacts.module';
+import { TenantsModule } from '../tenants/tenants.module';
+import { AuditModule } from '../audit/audit.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Workflow, WorkflowRun, Job]),
+    SchedulerModule,
+    EventsModule,
+    ArtifactsModule,
+    TenantsModule,
+    AuditModule,
+  ],
+  controllers: [WorkflowsController],
+  providers: [WorkflowsService, WorkflowRunnerService, WorkflowTriggerHandler],
+})
+export class WorkflowsModule {}
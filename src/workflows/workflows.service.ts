@@ -0,0 +1,277 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  EdgeCondition,
+  Workflow,
+  WorkflowEdge,
+} from './entities/workflow.entity';
+import { WorkflowRun } from './entities/workflow-run.entity';
+import { CreateWorkflowDto } from './dto/create-workflow.dto';
+import { validateWorkflowGraph } from './workflow-graph';
+import { WORKFLOW_JOB_TYPE } from './workflow-trigger.handler';
+import { Job, JobStatus } from '../jobs/entities/job.entity';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { JobHandlerRegistry } from '../scheduler/handlers/job-handler.registry';
+import { ArtifactsService } from '../artifacts/artifacts.service';
+import { TenantQuotasService } from '../tenants/tenant-quotas.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditActor } from '../audit/audit-actor';
+import { AuditAction } from '../audit/entities/audit-entry.entity';
+
+@Injectable()
+export class WorkflowsService {
+  constructor(
+    @InjectRepository(Workflow)
+    private readonly workflowRepository: Repository<Workflow>,
+    @InjectRepository(WorkflowRun)
+    private readonly workflowRunRepository: Repository<WorkflowRun>,
+    @InjectRepository(Job)
+    private readonly jobRepository: Repository<Job>,
+    private readonly schedulerService: SchedulerService,
+    private readonly jobHandlerRegistry: JobHandlerRegistry,
+    private readonly artifactsService: ArtifactsService,
+    private readonly tenantQuotasService: TenantQuotasService,
+    private readonly auditService: AuditService,
+  ) {}
+
+  /**
+   * Creates the workflow with a job for each node. Node jobs have no
+   * schedule of their own: they rest as completed until a run triggers
+   * them. A scheduled workflow also gets a trigger job that starts runs,
+   * which counts towards the tenant's active jobs. The creation of each job
+   * is recorded in the audit log.
+   */
+  async create(
+    tenantId: string,
+    createWorkflowDto: CreateWorkflowDto,
+    actor: AuditActor,
+  ): Promise<Workflow> {
+    const { nodes, schedule, timezone } = createWorkflowDto;
+    const edges: WorkflowEdge[] = (createWorkflowDto.edges ?? []).map(
+      ({ from, to, condition = EdgeCondition.ON_SUCCESS }) => ({
+        from,
+        to,
+        condition,
+      }),
+    );
+    this.assertValidNodes(createWorkflowDto);
+    const graphErrors = validateWorkflowGraph(
+      nodes.map(({ key }) => key),
+      edges,
+    );
+    if (graphErrors.length > 0) {
+      throw new BadRequestException(graphErrors);
+    }
+    nodes.forEach((node) =>
+      this.tenantQuotasService.assertJobWithinQuotas({
+        ...node,
+        tenantId,
+        schedule: null,
+      }),
+    );
+    if (schedule) {
+      this.tenantQuotasService.assertJobWithinQuotas({
+        tenantId,
+        schedule,
+        timezone,
+      });
+      await this.tenantQuotasService.assertCanActivate(tenantId);
+    }
+
+    const workflow = await this.jobRepository.manager.transaction(
+      async (manager) => {
+        const workflow = await manager.save(
+          manager.create(Workflow, {
+            tenantId,
+            name: createWorkflowDto.name,
+            description: createWorkflowDto.description,
+            schedule,
+            timezone,
+            nodes: [],
+            edges,
+          }),
+        );
+
+        for (const { key, ...node } of nodes) {
+          const job = await manager.save(
+            manager.create(Job, {
+              ...node,
+              tenantId,
+              name: `${workflow.name}: ${key}`,
+              status: JobStatus.COMPLETED,
+              workflowId: workflow.id,
+            }),
+          );
+          await this.auditService.record(
+            { action: AuditAction.CREATED, job, before: null, actor },
+            manager,
+          );
+          workflow.nodes.push({ key, jobId: job.id });
+        }
+
+        if (schedule) {
+          const trigger = manager.create(Job, {
+            tenantId,
+            name: `${workflow.name}: trigger`,
+            type: WORKFLOW_JOB_TYPE,
+            schedule,
+            timezone,
+            metadata: { workflowId: workflow.id },
+            workflowId: workflow.id,
+          });
+          trigger.nextRunAt = this.schedulerService.calculateNextRun(trigger);
+          if (!trigger.nextRunAt) {
+            throw new BadRequestException(
+              'Failed to create workflow: Schedule has no upcoming occurrences',
+            );
+          }
+          await manager.save(trigger);
+          await this.auditService.record(
+            { action: AuditAction.CREATED, job: trigger, before: null, actor },
+            manager,
+          );
+          workflow.triggerJobId = trigger.id;
+        }
+
+        return manager.save(workflow);
+      },
+    );
+
+    if (workflow.triggerJobId) {
+      await this.schedulerService.scheduleJob(
+        await this.jobRepository.findOneBy({ id: workflow.triggerJobId }),
+      );
+    }
+    return workflow;
+  }
+
+  async findAll(
+    tenantId: string,
+    page: number = 1,
+    limit: number = 50,
+  ): Promise<{
+    workflows: Workflow[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const [workflows, total] = await this.workflowRepository
+      .createQueryBuilder('workflow')
+      .where('workflow.tenantId = :tenantId', { tenantId })
+      .orderBy('workflow.createdAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { workflows, total, page, limit };
+  }
+
+  async findOne(tenantId: string, id: string): Promise<Workflow> {
+    const workflow = await this.workflowRepository
+      .createQueryBuilder('workflow')
+      .where('workflow.id = :id', { id })
+      .andWhere('workflow.tenantId = :tenantId', { tenantId })
+      .getOne();
+
+    if (!workflow) {
+      throw new NotFoundException(`Workflow with ID ${id} not found`);
+    }
+    return workflow;
+  }
+
+  /**
+   * Deletes the workflow with its node and trigger jobs, and its runs,
+   * recording the deletion of each job in the audit log.
+   */
+  async remove(tenantId: string, id: string, actor: AuditActor): Promise<void> {
+    const workflow = await this.findOne(tenantId, id);
+    const jobs = await this.jobRepository.findBy({ workflowId: workflow.id });
+    for (const job of jobs) {
+      await this.schedulerService.unscheduleJob(job.id);
+      await this.artifactsService.removeForJob(job.id);
+    }
+
+    await this.jobRepository.manager.transaction(async (manager) => {
+      for (const job of jobs) {
+        await this.auditService.record(
+          { action: AuditAction.DELETED, job, before: job, actor },
+          manager,
+        );
+      }
+      await manager.delete(Job, { workflowId: workflow.id });
+      await manager.delete(Workflow, { id: workflow.id });
+    });
+  }
+
+  async findRuns(
+    tenantId: string,
+    workflowId: string,
+    page: number = 1,
+    limit: number = 50,
+  ): Promise<{
+    runs: WorkflowRun[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    await this.findOne(tenantId, workflowId);
+
+    const [runs, total] = await this.workflowRunRepository
+      .createQueryBuilder('run')
+      .where('run.workflowId = :workflowId', { workflowId })
+      .orderBy('run.startedAt', 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit)
+      .getManyAndCount();
+
+    return { runs, total, page, limit };
+  }
+
+  async findRun(
+    tenantId: string,
+    workflowId: string,
+    runId: string,
+  ): Promise<WorkflowRun> {
+    await this.findOne(tenantId, workflowId);
+
+    const run = await this.workflowRunRepository
+      .createQueryBuilder('run')
+      .where('run.id = :runId', { runId })
+      .andWhere('run.workflowId = :workflowId', { workflowId })
+      .getOne();
+
+    if (!run) {
+      throw new NotFoundException(
+        `Run with ID ${runId} not found for workflow ${workflowId}`,
+      );
+    }
+    return run;
+  }
+
+  /** Checks node types and metadata, as POST /jobs does for a single job. */
+  private assertValidNodes({ nodes }: CreateWorkflowDto): void {
+    const errors: string[] = [];
+    nodes.forEach(({ type, metadata }, index) => {
+      if (
+        !this.jobHandlerRegistry.has(type) ||
+        this.jobHandlerRegistry.get(type).options.internal
+      ) {
+        errors.push(
+          `nodes[${index}].type "${type}" is not a registered job type`,
+        );
+        return;
+      }
+      this.jobHandlerRegistry
+        .validateMetadata(type, metadata)
+        .forEach((error) => errors.push(`nodes[${index}].${error}`));
+    });
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { JobRunsModule } from '../src/job-runs/job-runs.module';
+import { ArtifactsModule } from '../src/artifacts/artifacts.module';
+import { ArtifactsService } from '../src/artifacts/artifacts.service';
+import { Job, JobType } from '../src/jobs/entities/job.entity';
+import { JobRun, JobRunStatus } from '../src/job-runs/entities/job-run.entity';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+
+describe('ArtifactsController (e2e)', () => {
+  let app: INestApplication;
+  let storageDir: string;
+  let jobId: string;
+  let artifactId: string;
+
+  beforeAll(async () => {
+    storageDir = await mkdtemp(join(tmpdir(), 'artifacts-'));
+    process.env.ARTIFACT_STORAGE_DIR = storageDir;
+    process.env.ARTIFACT_MAX_PER_JOB = '2';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [Job, JobRun, Artifact, AuditEntry],
+          synchronize: true,
+          dropSchema: true, // Clean database for each test run
+        }),
+        JobsModule,
+        SchedulerModule,
+        JobRunsModule,
+        ArtifactsModule,
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+
+    // Runs three times, a second apart
+    const createResponse = await request(app.getHttpServer())
+      .post('/jobs')
+      .send({
+        name: 'Summary Report',
+        type: JobType.REPORT_GENERATION,
+        schedule: `R3/${new Date(Date.now() - 500).toISOString()}/PT1S`,
+        metadata: { reportType: 'summary', format: 'csv' },
+      })
+      .expect(201);
+    jobId = createResponse.body.id;
+
+    await new Promise((resolve) => setTimeout(resolve, 3000));
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await rm(storageDir, { recursive: true, force: true });
+    delete process.env.ARTIFACT_STORAGE_DIR;
+    delete process.env.ARTIFACT_MAX_PER_JOB;
+  });
+
+  describe('GET /jobs/:id/artifacts', () => {
+    it('should list the latest versions of the report', async () => {
+      const res = await request(app.getHttpServer())
+        .get(`/jobs/${jobId}/artifacts`)
+        .expect(200);
+
+      // Three runs, of which ARTIFACT_MAX_PER_JOB versions are kept
+      expect(res.body.total).toBe(2);
+      expect(res.body.artifacts.map(({ version }) => version)).toEqual([3, 2]);
+
+      const [artifact] = res.body.artifacts;
+      expect(artifact.jobId).toBe(jobId);
+      expect(artifact.filename).toBe('summary-v3.csv');
+      expect(artifact.contentType).toBe('text/csv; charset=utf-8');
+      expect(artifact.size).toBeGreaterThan(0);
+      expect(artifact.checksum).toMatch(/^[0-9a-f]{64}$/);
+      artifactId = artifact.id;
+
+      const runs = await request(app.getHttpServer())
+        .get(`/jobs/${jobId}/runs`)
+        .expect(200);
+      expect(runs.body.runs[0].status).toBe(JobRunStatus.SUCCEEDED);
+      expect(runs.body.runs[0].output.artifactId).toBe(artifactId);
+      expect(artifact.jobRunId).toBe(runs.body.runs[0].id);
+    });
+
+    it('should return 404 for non-existent job', () => {
+      return request(app.getHttpServer())
+        .get('/jobs/00000000-0000-0000-0000-000000000000/artifacts')
+        .expect(404);
+    });
+  });
+
+  describe('GET /artifacts/:artifactId', () => {
+    it('should download the report', () => {
+      return request(app.getHttpServer())
+        .get(`/artifacts/${artifactId}`)
+        .expect(200)
+        .expect('Content-Type', /text\/csv/)
+        .expect('Content-Disposition', 'attachment; filename="summary-v3.csv"')
+        .expect((res) => {
+          const [header, ...rows] = res.text.trim().split('\r\n');
+          expect(header).toBe('type,status,jobs');
+          expect(rows).toContain('report_generation,active,1');
+        });
+    });
+
+    it('should return 404 for non-existent artifact', () => {
+      return request(app.getHttpServer())
+        .get('/artifacts/00000000-0000-0000-0000-000000000000')
+        .expect(404);
+    });
+  });
+
+  it('should fail runs of an unknown report type', async () => {
+    const createResponse = await request(app.getHttpServer())
+      .post('/jobs')
+      .send({
+        name: 'Unknown Report',
+        type: JobType.REPORT_GENERATION,
+        schedule: new Date(Date.now() - 1000).toISOString(),
+        retryPolicy: { maxAttempts: 1 },
+        metadata: { reportType: 'missing' },
+      })
+      .expect(201);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    const runs = await request(app.getHttpServer())
+      .get(`/jobs/${createResponse.body.id}/runs`)
+      .expect(200);
+    expect(runs.body.runs[0].status).toBe(JobRunStatus.FAILED);
+    expect(runs.body.runs[0].errorMessage).toBe(
+      'Unknown report type "missing"',
+    );
+  });
+
+  it('should give artifacts stored at the same time distinct versions', async () => {
+    // As overlapping runs of a job do
+    const artifacts = await Promise.all(
+      [1, 2, 3, 4].map((run) =>
+        app.get(ArtifactsService).create({
+          jobId,
+          filename: 'summary',
+          extension: 'csv',
+          contentType: 'text/csv; charset=utf-8',
+          data: Buffer.from(`run ${run}\r\n`),
+        }),
+      ),
+    );
+    expect(
+      artifacts.map(({ version }) => version).sort((a, b) => a - b),
+    ).toEqual([4, 5, 6, 7]);
+  });
+
+  it('should delete the artifacts with their job', async () => {
+    await request(app.getHttpServer()).delete(`/jobs/${jobId}`).expect(204);
+    await request(app.getHttpServer())
+      .get(`/artifacts/${artifactId}`)
+      .expect(404);
+  });
+});
@@ -0,0 +1,262 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { AuthModule } from '../src/auth/auth.module';
+import { Job, JobStatus, JobType } from '../src/jobs/entities/job.entity';
+import { JobRun } from '../src/job-runs/entities/job-run.entity';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+import { ApiKey, ApiScope } from '../src/auth/entities/api-key.entity';
+
+describe('Audit log (e2e)', () => {
+  let app: INestApplication;
+  let writer: { id: string; key: string };
+  let otherTenantKey: string;
+  const adminKey = 'test-admin-key';
+
+  const jobData = {
+    name: 'Nightly Report',
+    type: JobType.DATA_PROCESSING,
+    schedule: '0 3 * * *',
+    metadata: { records: 10 },
+  };
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = adminKey;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [Job, JobRun, Artifact, AuditEntry, ApiKey],
+          synchronize: true,
+          dropSchema: true, // Clean database for each test run
+        }),
+        JobsModule,
+        SchedulerModule,
+        AuthModule,
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+
+    const createKey = async (name: string, tenantId?: string) => {
+      const res = await request(app.getHttpServer())
+        .post('/api-keys')
+        .set('X-API-Key', adminKey)
+        .send({
+          name,
+          scopes: [
+            ApiScope.JOBS_READ,
+            ApiScope.JOBS_WRITE,
+            ApiScope.JOBS_EXECUTE,
+          ],
+          tenantId,
+        })
+        .expect(201);
+      return res.body;
+    };
+    writer = await createKey('Deploy key');
+    otherTenantKey = (await createKey('Other tenant key', 'globex')).key;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    delete process.env.ADMIN_API_KEY;
+  });
+
+  const auditOf = async (jobId: string) => {
+    const res = await request(app.getHttpServer())
+      .get(`/jobs/${jobId}/audit`)
+      .set('X-API-Key', writer.key)
+      .expect(200);
+    return res.body.entries;
+  };
+
+  describe('Recording', () => {
+    it('should record who created a job, and from where', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', writer.key)
+        .set('User-Agent', 'audit-test')
+        .send(jobData)
+        .expect(201);
+
+      const [entry] = await auditOf(created.body.id);
+      expect(entry).toMatchObject({
+        jobId: created.body.id,
+        jobName: 'Nightly Report',
+        action: 'created',
+        actorType: 'api_key',
+        actorId: writer.id,
+        actorName: 'Deploy key',
+        userAgent: 'audit-test',
+      });
+      expect(entry.ip).toEqual(expect.any(String));
+      expect(entry.changes.schedule).toEqual({
+        before: null,
+        after: '0 3 * * *',
+      });
+      expect(entry.changes.metadata).toEqual({
+        before: null,
+        after: { records: 10 },
+      });
+    });
+
+    it('should record the fields an update changed, before and after', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', writer.key)
+        .send(jobData)
+        .expect(201);
+      await request(app.getHttpServer())
+        .patch(`/jobs/${created.body.id}`)
+        .set('X-API-Key', writer.key)
+        .send({ schedule: '0 4 * * *', metadata: { records: 20 } })
+        .expect(200);
+
+      const [updated] = await auditOf(created.body.id);
+      expect(updated.action).toBe('updated');
+      expect(updated.changes.schedule).toEqual({
+        before: '0 3 * * *',
+        after: '0 4 * * *',
+      });
+      expect(updated.changes.metadata).toEqual({
+        before: { records: 10 },
+        after: { records: 20 },
+      });
+      expect(updated.changes).not.toHaveProperty('name');
+    });
+
+    it('should record pauses, resumes, manual triggers and deletion', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', writer.key)
+        .send(jobData)
+        .expect(201);
+      const jobId = created.body.id;
+
+      await request(app.getHttpServer())
+        .post(`/jobs/${jobId}/pause`)
+        .set('X-API-Key', writer.key)
+        .expect(200);
+      await request(app.getHttpServer())
+        .post(`/jobs/${jobId}/resume`)
+        .set('X-API-Key', writer.key)
+        .expect(200);
+
+      // Dead-lettered, then requeued by hand
+      const jobRepository = app.get<Repository<Job>>(getRepositoryToken(Job));
+      await jobRepository.update(jobId, {
+        status: JobStatus.FAILED,
+        failedAt: new Date(),
+      });
+      await request(app.getHttpServer())
+        .post(`/jobs/${jobId}/requeue`)
+        .set('X-API-Key', writer.key)
+        .expect(200);
+      await request(app.getHttpServer())
+        .delete(`/jobs/${jobId}`)
+        .set('X-API-Key', writer.key)
+        .expect(204);
+
+      // The log outlives the job
+      const entries = await auditOf(jobId);
+      expect(entries.map(({ action }) => action)).toEqual([
+        'deleted',
+        'triggered',
+        'resumed',
+        'paused',
+        'created',
+      ]);
+      expect(entries[3].changes.status).toEqual({
+        before: JobStatus.ACTIVE,
+        after: JobStatus.PAUSED,
+      });
+      expect(entries[1].changes.status).toEqual({
+        before: JobStatus.FAILED,
+        after: JobStatus.ACTIVE,
+      });
+      expect(entries[0].changes.name).toEqual({
+        before: 'Nightly Report',
+        after: null,
+      });
+    });
+
+    it('should not record rejected changes', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', writer.key)
+        .send(jobData)
+        .expect(201);
+      await request(app.getHttpServer())
+        .post(`/jobs/${created.body.id}/resume`)
+        .set('X-API-Key', writer.key)
+        .expect(409);
+
+      const entries = await auditOf(created.body.id);
+      expect(entries.map(({ action }) => action)).toEqual(['created']);
+    });
+  });
+
+  describe('GET /audit', () => {
+    it('should filter the log by action and actor', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/audit')
+        .query({ action: 'paused', actorId: writer.id })
+        .set('X-API-Key', writer.key)
+        .expect(200);
+      expect(res.body.total).toBe(1);
+      expect(res.body.entries[0].action).toBe('paused');
+
+      const none = await request(app.getHttpServer())
+        .get('/audit')
+        .query({ from: new Date(Date.now() + 60000).toISOString() })
+        .set('X-API-Key', writer.key)
+        .expect(200);
+      expect(none.body.total).toBe(0);
+    });
+
+    it("should only show the caller's tenant's log", async () => {
+      const res = await request(app.getHttpServer())
+        .get('/audit')
+        .set('X-API-Key', otherTenantKey)
+        .expect(200);
+      expect(res.body.total).toBe(0);
+    });
+
+    it('should reject invalid filters', async () => {
+      await request(app.getHttpServer())
+        .get('/audit')
+        .query({ action: 'renamed' })
+        .set('X-API-Key', writer.key)
+        .expect(400);
+      await request(app.getHttpServer())
+        .get('/jobs/not-a-uuid/audit')
+        .set('X-API-Key', writer.key)
+        .expect(400);
+    });
+  });
+});
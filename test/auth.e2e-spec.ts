@@ -0,0 +1,357 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { HealthModule } from '../src/health/health.module';
+import { AuthModule } from '../src/auth/auth.module';
+import { Job, JobType } from '../src/jobs/entities/job.entity';
+import { JobRun } from '../src/job-runs/entities/job-run.entity';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+import { ApiKey, ApiScope } from '../src/auth/entities/api-key.entity';
+import { signJwt } from '../src/auth/jwt';
+
+describe('Authentication (e2e)', () => {
+  let app: INestApplication;
+  const adminKey = 'test-admin-key';
+  const jwtSecret = 'test-jwt-secret';
+
+  const jobData = {
+    name: 'Hourly Job',
+    type: JobType.DATA_PROCESSING,
+    schedule: 'PT1H',
+  };
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = adminKey;
+    process.env.JWT_SECRET = jwtSecret;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [Job, JobRun, Artifact, ApiKey, AuditEntry],
+          synchronize: true,
+          dropSchema: true, // Clean database for each test run
+        }),
+        JobsModule,
+        SchedulerModule,
+        HealthModule,
+        AuthModule,
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    delete process.env.ADMIN_API_KEY;
+    delete process.env.JWT_SECRET;
+  });
+
+  const createKey = async (scopes: ApiScope[], expiresAt?: string) => {
+    const res = await request(app.getHttpServer())
+      .post('/api-keys')
+      .set('X-API-Key', adminKey)
+      .send({ name: `Key with ${scopes.join(', ')}`, scopes, expiresAt })
+      .expect(201);
+    return res.body;
+  };
+
+  describe('Unauthenticated requests', () => {
+    it('should reject requests without credentials', async () => {
+      const res = await request(app.getHttpServer()).get('/jobs').expect(401);
+      expect(res.body.message).toBe(
+        'Missing credentials: send an X-API-Key header or a bearer token',
+      );
+      await request(app.getHttpServer())
+        .post('/jobs')
+        .send(jobData)
+        .expect(401);
+    });
+
+    it('should allow health checks', async () => {
+      await request(app.getHttpServer()).get('/health/live').expect(200);
+    });
+
+    it('should reject unknown keys', async () => {
+      await request(app.getHttpServer())
+        .get('/jobs')
+        .set('X-API-Key', 'sk_unknown')
+        .expect(401);
+    });
+  });
+
+  describe('API keys', () => {
+    it('should issue a key once and store only its hash', async () => {
+      const created = await createKey([ApiScope.JOBS_READ]);
+      expect(created.key).toMatch(/^sk_/);
+      expect(created.prefix).toBe(created.key.slice(0, 11));
+      expect(created.scopes).toEqual([ApiScope.JOBS_READ]);
+
+      const res = await request(app.getHttpServer())
+        .get(`/api-keys/${created.id}`)
+        .set('X-API-Key', adminKey)
+        .expect(200);
+      expect(res.body.key).toBeUndefined();
+      expect(res.body.keyHash).toBeUndefined();
+    });
+
+    it('should enforce the scopes of the key', async () => {
+      const { key: readKey } = await createKey([ApiScope.JOBS_READ]);
+      const { key: writeKey } = await createKey([
+        ApiScope.JOBS_READ,
+        ApiScope.JOBS_WRITE,
+      ]);
+
+      const forbidden = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', readKey)
+        .send(jobData)
+        .expect(403);
+      expect(forbidden.body.message).toBe('Requires the jobs:write scope');
+
+      const job = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', writeKey)
+        .send(jobData)
+        .expect(201);
+      await request(app.getHttpServer())
+        .get(`/jobs/${job.body.id}`)
+        .set('X-API-Key', readKey)
+        .expect(200);
+      // Cancelling requires jobs:execute
+      await request(app.getHttpServer())
+        .post(`/jobs/${job.body.id}/cancel`)
+        .set('Authorization', `Bearer ${writeKey}`)
+        .expect(403);
+      // Managing keys requires admin
+      await request(app.getHttpServer())
+        .get('/api-keys')
+        .set('X-API-Key', writeKey)
+        .expect(403);
+    });
+
+    it('should reject revoked and expired keys', async () => {
+      const created = await createKey([ApiScope.JOBS_READ]);
+      await request(app.getHttpServer())
+        .get('/jobs')
+        .set('X-API-Key', created.key)
+        .expect(200);
+
+      await request(app.getHttpServer())
+        .delete(`/api-keys/${created.id}`)
+        .set('X-API-Key', adminKey)
+        .expect(204);
+      await request(app.getHttpServer())
+        .get('/jobs')
+        .set('X-API-Key', created.key)
+        .expect(401);
+
+      const res = await request(app.getHttpServer())
+        .get(`/api-keys/${created.id}`)
+        .set('X-API-Key', adminKey)
+        .expect(200);
+      expect(res.body.revokedAt).not.toBeNull();
+      expect(res.body.lastUsedAt).not.toBeNull();
+
+      const expiring = await createKey(
+        [ApiScope.JOBS_READ],
+        new Date(Date.now() + 1000).toISOString(),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 1100));
+      await request(app.getHttpServer())
+        .get('/jobs')
+        .set('X-API-Key', expiring.key)
+        .expect(401);
+    });
+
+    it('should validate new keys', async () => {
+      await request(app.getHttpServer())
+        .post('/api-keys')
+        .set('X-API-Key', adminKey)
+        .send({ name: 'No Scopes', scopes: [] })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post('/api-keys')
+        .set('X-API-Key', adminKey)
+        .send({ name: 'Unknown Scope', scopes: ['jobs:everything'] })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post('/api-keys')
+        .set('X-API-Key', adminKey)
+        .send({
+          name: 'Expired',
+          scopes: [ApiScope.JOBS_READ],
+          expiresAt: '2020-01-01T00:00:00Z',
+        })
+        .expect(400);
+    });
+  });
+
+  describe('Tenants', () => {
+    let acmeAdminKey: string;
+    let defaultKeyId: string;
+
+    beforeAll(async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api-keys')
+        .set('X-API-Key', adminKey)
+        .send({
+          name: 'Acme admin',
+          scopes: [ApiScope.ADMIN],
+          tenantId: 'acme',
+        })
+        .expect(201);
+      expect(res.body.tenantId).toBe('acme');
+      acmeAdminKey = res.body.key;
+      defaultKeyId = (await createKey([ApiScope.JOBS_READ])).id;
+    });
+
+    it("should issue keys for the admin's own tenant", async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api-keys')
+        .set('X-API-Key', acmeAdminKey)
+        .send({ name: 'Acme reader', scopes: [ApiScope.JOBS_READ] })
+        .expect(201);
+      expect(res.body.tenantId).toBe('acme');
+    });
+
+    it('should only let admins of the default tenant issue keys for other tenants', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/api-keys')
+        .set('X-API-Key', acmeAdminKey)
+        .send({
+          name: 'Takeover',
+          scopes: [ApiScope.ADMIN],
+          tenantId: 'globex',
+        })
+        .expect(403);
+      expect(res.body.message).toBe(
+        'Only admins of the default tenant can issue keys for other tenants',
+      );
+      await request(app.getHttpServer())
+        .post('/api-keys')
+        .set('X-API-Key', acmeAdminKey)
+        .send({
+          name: 'Takeover',
+          scopes: [ApiScope.ADMIN],
+          tenantId: 'default',
+        })
+        .expect(403);
+
+      const token = signJwt(
+        {
+          sub: 'acme-admin',
+          scope: 'admin',
+          tenant: 'acme',
+          exp: Math.floor(Date.now() / 1000) + 60,
+        },
+        jwtSecret,
+      );
+      await request(app.getHttpServer())
+        .post('/api-keys')
+        .set('Authorization', `Bearer ${token}`)
+        .send({
+          name: 'Takeover',
+          scopes: [ApiScope.ADMIN],
+          tenantId: 'globex',
+        })
+        .expect(403);
+    });
+
+    it("should hide and protect other tenants' keys", async () => {
+      const list = await request(app.getHttpServer())
+        .get('/api-keys')
+        .set('X-API-Key', acmeAdminKey)
+        .expect(200);
+      expect(list.body.apiKeys.length).toBeGreaterThan(0);
+      list.body.apiKeys.forEach((apiKey) =>
+        expect(apiKey.tenantId).toBe('acme'),
+      );
+
+      await request(app.getHttpServer())
+        .get(`/api-keys/${defaultKeyId}`)
+        .set('X-API-Key', acmeAdminKey)
+        .expect(404);
+      await request(app.getHttpServer())
+        .delete(`/api-keys/${defaultKeyId}`)
+        .set('X-API-Key', acmeAdminKey)
+        .expect(404);
+
+      const res = await request(app.getHttpServer())
+        .get(`/api-keys/${defaultKeyId}`)
+        .set('X-API-Key', adminKey)
+        .expect(200);
+      expect(res.body.revokedAt).toBeNull();
+    });
+  });
+
+  describe('JWT bearer tokens', () => {
+    const now = () => Math.floor(Date.now() / 1000);
+
+    it('should accept tokens signed with JWT_SECRET, with their scopes', async () => {
+      const token = signJwt(
+        { sub: 'user-1', scope: 'jobs:read jobs:write', exp: now() + 60 },
+        jwtSecret,
+      );
+      await request(app.getHttpServer())
+        .post('/jobs')
+        .set('Authorization', `Bearer ${token}`)
+        .send(jobData)
+        .expect(201);
+
+      const readOnly = signJwt(
+        { sub: 'user-2', scope: 'jobs:read', exp: now() + 60 },
+        jwtSecret,
+      );
+      await request(app.getHttpServer())
+        .post('/jobs')
+        .set('Authorization', `Bearer ${readOnly}`)
+        .send(jobData)
+        .expect(403);
+    });
+
+    it('should reject expired and forged tokens', async () => {
+      const expired = signJwt(
+        { sub: 'user-1', scope: 'jobs:read', exp: now() - 120 },
+        jwtSecret,
+      );
+      const res = await request(app.getHttpServer())
+        .get('/jobs')
+        .set('Authorization', `Bearer ${expired}`)
+        .expect(401);
+      expect(res.body.message).toBe('Invalid bearer token: Token expired');
+
+      const forged = signJwt(
+        { sub: 'user-1', scope: 'admin', exp: now() + 60 },
+        'another-secret',
+      );
+      await request(app.getHttpServer())
+        .get('/api-keys')
+        .set('Authorization', `Bearer ${forged}`)
+        .expect(401);
+    });
+  });
+});
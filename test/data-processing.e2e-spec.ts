@@ -0,0 +1,191 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { JobRunsModule } from '../src/job-runs/job-runs.module';
+import { Job, JobStatus, JobType } from '../src/jobs/entities/job.entity';
+import { JobRun, JobRunStatus } from '../src/job-runs/entities/job-run.entity';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+
+describe('Data processing jobs (e2e)', () => {
+  let app: INestApplication;
+  let dataDir: string;
+
+  beforeAll(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'data-sources-'));
+    process.env.DATA_SOURCES_DIR = dataDir;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [Job, JobRun, Artifact, AuditEntry],
+          synchronize: true,
+          dropSchema: true, // Clean database for each test run
+        }),
+        JobsModule,
+        SchedulerModule,
+        JobRunsModule,
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await rm(dataDir, { recursive: true, force: true });
+    delete process.env.DATA_SOURCES_DIR;
+  });
+
+  const createJob = async (metadata: object, extra: object = {}) => {
+    const res = await request(app.getHttpServer())
+      .post('/jobs')
+      .send({
+        name: 'Data Processing Job',
+        type: JobType.DATA_PROCESSING,
+        schedule: new Date(Date.now() - 1000).toISOString(),
+        metadata,
+        ...extra,
+      })
+      .expect(201);
+    return res.body.id;
+  };
+
+  const getRuns = async (id: string) =>
+    (await request(app.getHttpServer()).get(`/jobs/${id}/runs`).expect(200))
+      .body.runs;
+
+  it('should aggregate the records of a CSV file', async () => {
+    await writeFile(
+      join(dataDir, 'sales.csv'),
+      'region,amount,note\neu,10,"a, b"\nus,5,"two\nlines"\neu,2.5,\nus,,\n',
+    );
+    const id = await createJob({
+      source: { type: 'csv', path: 'sales.csv' },
+      batchSize: 3,
+      groupBy: 'region',
+      sumFields: ['amount'],
+    });
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    const [run] = await getRuns(id);
+    expect(run.status).toBe(JobRunStatus.SUCCEEDED);
+    expect(run.output).toEqual({
+      recordsProcessed: 4,
+      total: 4,
+      groups: { eu: 2, us: 2 },
+      sums: { amount: 17.5 },
+    });
+
+    // Finished occurrences leave no checkpoint behind
+    const job = await request(app.getHttpServer())
+      .get(`/jobs/${id}`)
+      .expect(200);
+    expect(job.body.status).toBe(JobStatus.COMPLETED);
+    expect(job.body.checkpoint).toBeNull();
+    expect(job.body.progress).toBeNull();
+  });
+
+  it('should resume from the last checkpoint', async () => {
+    const path = join(dataDir, 'events.ndjson');
+    await writeFile(path, '{"value":1}\n{"value":2}\nnot json\n{"value":4}\n');
+    const id = await createJob(
+      {
+        source: { type: 'ndjson', path: 'events.ndjson' },
+        batchSize: 1,
+        sumFields: ['value'],
+      },
+      { retryPolicy: { maxAttempts: 1 } },
+    );
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    // The run failed at the third line, after checkpointing the first two
+    const [failed] = await getRuns(id);
+    expect(failed.status).toBe(JobRunStatus.FAILED);
+    expect(failed.errorMessage).toMatch(/^Invalid JSON/);
+
+    let job = await request(app.getHttpServer()).get(`/jobs/${id}`).expect(200);
+    expect(job.body.status).toBe(JobStatus.FAILED);
+    expect(job.body.progress).toMatchObject({ processed: 2, total: 4 });
+    expect(job.body.checkpoint.sums).toEqual({ value: 3 });
+
+    // Once the line is fixed, the requeued job picks up where it stopped
+    await writeFile(
+      path,
+      '{"value":1}\n{"value":2}\n{"value":3}\n{"value":4}\n',
+    );
+    await request(app.getHttpServer()).post(`/jobs/${id}/requeue`).expect(200);
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    const [resumed] = await getRuns(id);
+    expect(resumed.status).toBe(JobRunStatus.SUCCEEDED);
+    expect(resumed.output).toEqual({
+      recordsProcessed: 4,
+      total: 4,
+      sums: { value: 10 },
+      resumedFrom: 2,
+    });
+
+    job = await request(app.getHttpServer()).get(`/jobs/${id}`).expect(200);
+    expect(job.body.checkpoint).toBeNull();
+  });
+
+  it('should generate records when there is no source', async () => {
+    const id = await createJob({ records: 250, batchSize: 100 });
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    const [run] = await getRuns(id);
+    expect(run.output).toEqual({ recordsProcessed: 250, total: 250 });
+  });
+
+  it('should fail runs reading outside DATA_SOURCES_DIR', async () => {
+    const id = await createJob(
+      { source: { type: 'csv', path: '../secrets.csv' } },
+      { retryPolicy: { maxAttempts: 1 } },
+    );
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    const [run] = await getRuns(id);
+    expect(run.status).toBe(JobRunStatus.FAILED);
+    expect(run.errorMessage).toBe(
+      'Path "../secrets.csv" is outside DATA_SOURCES_DIR',
+    );
+  });
+
+  it('should reject an invalid source', () => {
+    return request(app.getHttpServer())
+      .post('/jobs')
+      .send({
+        name: 'Invalid Source',
+        type: JobType.DATA_PROCESSING,
+        schedule: 'PT1M',
+        metadata: { source: { type: 'xml', path: 'data.xml' } },
+      })
+      .expect(400);
+  });
+});
@@ -0,0 +1,213 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { createServer, Server, AddressInfo } from 'net';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { JobRunsModule } from '../src/job-runs/job-runs.module';
+import { Job, JobType } from '../src/jobs/entities/job.entity';
+import { JobRun, JobRunStatus } from '../src/job-runs/entities/job-run.entity';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+
+/**
+ * A local SMTP sink that accepts every message, and refuses recipients at
+ * bounce.example.com.
+ */
+function createSmtpSink(messages: string[]): Server {
+  return createServer((socket) => {
+    let buffer = '';
+    let message: string[] | null = null;
+    socket.write('220 sink ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk;
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        if (message) {
+          if (line === '.') {
+            messages.push(message.join('\n'));
+            message = null;
+            socket.write('250 Queued\r\n');
+          } else {
+            message.push(line);
+          }
+        } else if (/^EHLO/i.test(line)) {
+          socket.write('250-sink\r\n250 8BITMIME\r\n');
+        } else if (/^RCPT/i.test(line) && line.includes('bounce.example.com')) {
+          socket.write('550 No such user\r\n');
+        } else if (/^DATA/i.test(line)) {
+          message = [];
+          socket.write('354 Go ahead\r\n');
+        } else if (/^QUIT/i.test(line)) {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+}
+
+describe('Email notifications (e2e)', () => {
+  let app: INestApplication;
+  let smtpSink: Server;
+  const messages: string[] = [];
+
+  beforeAll(async () => {
+    smtpSink = createSmtpSink(messages);
+    await new Promise<void>((resolve) => smtpSink.listen(0, resolve));
+    process.env.SMTP_HOST = 'localhost';
+    process.env.SMTP_PORT = `${(smtpSink.address() as AddressInfo).port}`;
+    process.env.SMTP_FROM = 'scheduler@example.com';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [Job, JobRun, Artifact, AuditEntry],
+          synchronize: true,
+          dropSchema: true, // Clean database for each test run
+        }),
+        JobsModule,
+        SchedulerModule,
+        JobRunsModule,
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    smtpSink.close();
+    delete process.env.SMTP_HOST;
+    delete process.env.SMTP_PORT;
+    delete process.env.SMTP_FROM;
+  });
+
+  const runOnce = async (metadata: Record<string, any>) => {
+    const createResponse = await request(app.getHttpServer())
+      .post('/jobs')
+      .send({
+        name: 'Email Job',
+        type: JobType.EMAIL_NOTIFICATION,
+        schedule: new Date(Date.now() - 1000).toISOString(),
+        metadata,
+      })
+      .expect(201);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    const runs = await request(app.getHttpServer())
+      .get(`/jobs/${createResponse.body.id}/runs`)
+      .expect(200);
+    return runs.body.runs[0];
+  };
+
+  it('should send the rendered template over SMTP', async () => {
+    const run = await runOnce({
+      recipients: ['ops@example.com'],
+      subject: 'Backup {{status}}',
+      text: 'The backup of {{database}} {{status}}.',
+      variables: { status: 'finished', database: 'orders' },
+    });
+
+    expect(run.status).toBe(JobRunStatus.SUCCEEDED);
+    expect(run.output.transport).toBe('smtp');
+    expect(run.output.recipients).toEqual([
+      {
+        address: 'ops@example.com',
+        status: 'accepted',
+        code: 250,
+        message: 'OK',
+      },
+    ]);
+
+    const message = messages[messages.length - 1];
+    expect(message).toContain('From: scheduler@example.com');
+    expect(message).toContain('Subject: Backup finished');
+    const body = message.split('\n\n')[1].replace(/\n/g, '');
+    expect(Buffer.from(body, 'base64').toString()).toBe(
+      'The backup of orders finished.',
+    );
+  });
+
+  it('should record refused recipients and still deliver to the rest', async () => {
+    const run = await runOnce({
+      recipients: ['ops@example.com', 'nobody@bounce.example.com'],
+    });
+
+    expect(run.status).toBe(JobRunStatus.SUCCEEDED);
+    expect(
+      run.output.recipients.map(({ address, status }) => [address, status]),
+    ).toEqual([
+      ['ops@example.com', 'accepted'],
+      ['nobody@bounce.example.com', 'rejected'],
+    ]);
+  });
+
+  it('should fail the run when recipients are refused and all are required', async () => {
+    const run = await runOnce({
+      recipients: ['ops@example.com', 'nobody@bounce.example.com'],
+      requireAllRecipients: true,
+    });
+
+    expect(run.status).toBe(JobRunStatus.FAILED);
+    expect(run.errorMessage).toBe(
+      'Recipients were refused: nobody@bounce.example.com',
+    );
+    expect(run.output.recipients).toHaveLength(2);
+  });
+
+  it('should fail the run when template variables are missing', async () => {
+    const run = await runOnce({
+      recipients: ['ops@example.com'],
+      template: 'alert',
+    });
+
+    expect(run.status).toBe(JobRunStatus.FAILED);
+    expect(run.errorMessage).toMatch(/^Missing template variables: title/);
+  });
+
+  it('should fail the run when the template does not exist', async () => {
+    const run = await runOnce({
+      recipients: ['ops@example.com'],
+      template: 'missing',
+    });
+
+    expect(run.status).toBe(JobRunStatus.FAILED);
+    expect(run.errorMessage).toBe('Unknown mail template "missing"');
+  });
+
+  it('should reject a template name that is not a plain name', () => {
+    return request(app.getHttpServer())
+      .post('/jobs')
+      .send({
+        name: 'Email Job',
+        type: JobType.EMAIL_NOTIFICATION,
+        schedule: '0 9 * * *',
+        metadata: { recipients: ['ops@example.com'], template: '../secrets' },
+      })
+      .expect(400);
+  });
+});
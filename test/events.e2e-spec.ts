@@ -0,0 +1,256 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { get, OutgoingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { EventStreamModule } from '../src/event-stream/event-stream.module';
+import { Job, JobStatus, JobType } from '../src/jobs/entities/job.entity';
+import { JobRun } from '../src/job-runs/entities/job-run.entity';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+import { JobEventRecord } from '../src/event-stream/entities/job-event-record.entity';
+import { JobEventType } from '../src/events/job-events.service';
+
+interface StreamedEvent {
+  id: string;
+  type: string;
+  data: any;
+}
+
+interface EventStream {
+  events: StreamedEvent[];
+  close: () => void;
+}
+
+describe('EventsController (e2e)', () => {
+  let app: INestApplication;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    process.env.EVENT_STREAM_POLL_INTERVAL_MS = '100';
+    process.env.EVENT_STREAM_HEARTBEAT_MS = '200';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [Job, JobRun, Artifact, JobEventRecord, AuditEntry],
+          synchronize: true,
+          dropSchema: true, // Clean database for each test run
+        }),
+        JobsModule,
+        SchedulerModule,
+        EventStreamModule,
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.listen(0);
+    baseUrl = `http://localhost:${(app.getHttpServer().address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await app.close();
+    delete process.env.EVENT_STREAM_POLL_INTERVAL_MS;
+    delete process.env.EVENT_STREAM_HEARTBEAT_MS;
+  });
+
+  const openStream = (query = '', headers: OutgoingHttpHeaders = {}) =>
+    new Promise<EventStream>((resolve, reject) => {
+      const req = get(`${baseUrl}/events${query}`, { headers }, (res) => {
+        const events: StreamedEvent[] = [];
+        let buffer = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk) => {
+          buffer += chunk;
+          const messages = buffer.split('\n\n');
+          buffer = messages.pop();
+          for (const message of messages) {
+            const fields = Object.fromEntries(
+              message
+                .split('\n')
+                .map((line) => [
+                  line.slice(0, line.indexOf(':')),
+                  line.slice(line.indexOf(':') + 2),
+                ]),
+            );
+            events.push({
+              id: fields.id,
+              type: fields.event,
+              data: fields.data ? JSON.parse(fields.data) : undefined,
+            });
+          }
+        });
+        resolve({ events, close: () => req.destroy() });
+      });
+      req.on('error', reject);
+    });
+
+  const createJob = async (extra: object = {}) =>
+    (
+      await request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Streamed Job',
+          type: JobType.DATA_PROCESSING,
+          schedule: 'PT1H',
+          metadata: { records: 10 },
+          ...extra,
+        })
+        .expect(201)
+    ).body;
+
+  const pause = (jobId: string) =>
+    request(app.getHttpServer()).post(`/jobs/${jobId}/pause`).expect(200);
+
+  const eventsOf = (stream: EventStream, jobId: string) =>
+    stream.events.filter((event) => event.data?.job.id === jobId);
+
+  const wait = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  describe('GET /events', () => {
+    it('should stream the lifecycle of a job', async () => {
+      const stream = await openStream();
+      const job = await createJob({
+        schedule: new Date(Date.now() - 1000).toISOString(),
+      });
+      await wait(1500);
+      stream.close();
+
+      const events = eventsOf(stream, job.id);
+      expect(events.map(({ type }) => type)).toEqual([
+        JobEventType.CREATED,
+        JobEventType.SCHEDULED,
+        JobEventType.RUN_STARTED,
+        JobEventType.RUN_SUCCEEDED,
+      ]);
+      expect(events.map(({ data }) => data.type)).toEqual(
+        events.map(({ type }) => type),
+      );
+      expect(events[2].data.run.status).toBe('running');
+      expect(events[3].data).toMatchObject({
+        job: { status: JobStatus.COMPLETED },
+        run: { status: 'succeeded', output: { recordsProcessed: 10 } },
+      });
+      const ids = events.map(({ id }) => Number(id));
+      expect(ids).toEqual([...ids].sort((a, b) => a - b));
+    });
+
+    it('should filter by job and event type', async () => {
+      const job = await createJob();
+      const other = await createJob();
+      const stream = await openStream(
+        `?jobId=${job.id}&type=${JobEventType.PAUSED}`,
+      );
+      await pause(job.id);
+      await pause(other.id);
+      await wait(500);
+      stream.close();
+
+      const events = stream.events.filter(({ type }) => type !== 'heartbeat');
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        type: JobEventType.PAUSED,
+        data: { job: { id: job.id, status: JobStatus.PAUSED } },
+      });
+    });
+
+    it('should filter by job type', async () => {
+      const stream = await openStream(`?jobType=${JobType.EMAIL_NOTIFICATION}`);
+      const job = await createJob();
+      await wait(500);
+      stream.close();
+
+      expect(eventsOf(stream, job.id)).toHaveLength(0);
+    });
+
+    it('should replay missed events to a reconnecting client', async () => {
+      const job = await createJob();
+      const first = await openStream(`?jobId=${job.id}`);
+      await request(app.getHttpServer())
+        .patch(`/jobs/${job.id}`)
+        .send({ name: 'Renamed Job' })
+        .expect(200);
+      await wait(500);
+      first.close();
+      const updated = first.events.find(
+        ({ type }) => type === JobEventType.UPDATED,
+      );
+      expect(updated.data.job.name).toBe('Renamed Job');
+
+      // Missed while disconnected
+      await pause(job.id);
+      await request(app.getHttpServer())
+        .post(`/jobs/${job.id}/resume`)
+        .expect(200);
+      await wait(300);
+
+      const second = await openStream(`?jobId=${job.id}`, {
+        'Last-Event-ID': updated.id,
+      });
+      await wait(500);
+      second.close();
+
+      expect(
+        second.events
+          .filter(({ type }) => type !== 'heartbeat')
+          .map(({ type }) => type),
+      ).toEqual([
+        JobEventType.PAUSED,
+        JobEventType.RESUMED,
+        JobEventType.SCHEDULED,
+      ]);
+    });
+
+    it('should send heartbeats carrying the stream position', async () => {
+      const job = await createJob();
+      const stream = await openStream(`?jobId=${job.id}`);
+      await pause(job.id);
+      await wait(800);
+      stream.close();
+
+      const paused = stream.events.find(
+        ({ type }) => type === JobEventType.PAUSED,
+      );
+      const heartbeats = stream.events.filter(
+        ({ type }) => type === 'heartbeat',
+      );
+      expect(heartbeats.length).toBeGreaterThan(0);
+      expect(
+        Number(heartbeats[heartbeats.length - 1].id),
+      ).toBeGreaterThanOrEqual(Number(paused.id));
+    });
+
+    it('should reject invalid filters and event ids', async () => {
+      await request(app.getHttpServer())
+        .get('/events')
+        .query({ jobId: 'not-a-uuid' })
+        .expect(400);
+      await request(app.getHttpServer())
+        .get('/events')
+        .set('Last-Event-ID', 'abc')
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { HealthModule } from '../src/health/health.module';
+import { Job, JobStatus, JobType } from '../src/jobs/entities/job.entity';
+import { JobRun } from '../src/job-runs/entities/job-run.entity';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+
+describe('HealthController (e2e)', () => {
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    // The scheduler loop won't poll again during the tests
+    process.env.SCHEDULER_POLL_INTERVAL_MS = '60000';
+    process.env.HEALTH_MAX_TICK_AGE_MS = '3000';
+    process.env.HEALTH_OVERDUE_THRESHOLD_MS = '60000';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [Job, JobRun, Artifact, AuditEntry],
+          synchronize: true,
+          dropSchema: true, // Clean database for each test run
+        }),
+        JobsModule,
+        SchedulerModule,
+        HealthModule,
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    delete process.env.SCHEDULER_POLL_INTERVAL_MS;
+    delete process.env.HEALTH_MAX_TICK_AGE_MS;
+    delete process.env.HEALTH_OVERDUE_THRESHOLD_MS;
+  });
+
+  describe('GET /health/live', () => {
+    it('should be live once the scheduler loop started', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/health/live')
+        .expect(200);
+      expect(res.body).toEqual({
+        status: 'ok',
+        checks: {
+          scheduler: { status: 'up', lastTickAt: null, lastPollAt: null },
+        },
+      });
+    });
+  });
+
+  describe('GET /health/ready', () => {
+    it('should be ready once active jobs are loaded', async () => {
+      const res = await request(app.getHttpServer())
+        .get('/health/ready')
+        .expect(200);
+      expect(res.body.status).toBe('ok');
+      expect(res.body.checks).toMatchObject({
+        database: { status: 'up' },
+        startup: { status: 'up' },
+        scheduler: { status: 'up' },
+        overdueJobs: { status: 'up', count: 0 },
+      });
+      expect(res.body.checks.database.latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should report overdue jobs without failing readiness', async () => {
+      const created = await request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Overdue Job',
+          type: JobType.DATA_PROCESSING,
+          schedule: 'PT1H',
+        })
+        .expect(201);
+      await request(app.getHttpServer())
+        .post(`/jobs/${created.body.id}/pause`)
+        .expect(200);
+
+      // Due an hour ago, with no timer and no instance running it
+      const jobRepository = app.get<Repository<Job>>(getRepositoryToken(Job));
+      await jobRepository.update(created.body.id, {
+        status: JobStatus.ACTIVE,
+        nextRunAt: new Date(Date.now() - 3600000),
+      });
+
+      // E.g. waiting for its tenant's slots, which other instances can't free
+      const res = await request(app.getHttpServer())
+        .get('/health/ready')
+        .expect(200);
+      expect(res.body.checks.overdueJobs).toEqual({
+        status: 'up',
+        count: 1,
+      });
+
+      await jobRepository.update(created.body.id, {
+        status: JobStatus.PAUSED,
+      });
+    });
+  });
+
+  describe('Scheduler loop', () => {
+    it('should fail liveness and readiness once the loop stops running', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 3100));
+
+      const live = await request(app.getHttpServer())
+        .get('/health/live')
+        .expect(503);
+      expect(live.body.checks.scheduler).toMatchObject({
+        status: 'down',
+        error: expect.stringMatching(/^Scheduler loop has not run for \d+ ms$/),
+      });
+
+      const ready = await request(app.getHttpServer())
+        .get('/health/ready')
+        .expect(503);
+      expect(ready.body.checks.scheduler.error).toMatch(
+        /^Scheduler loop has not polled the database for \d+ ms$/,
+      );
+      expect(ready.body.checks.database.status).toBe('up');
+    });
+  });
+});
@@ -0,0 +1,579 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { SchedulerService } from '../src/scheduler/scheduler.service';
+import { JobRunsModule } from '../src/job-runs/job-runs.module';
+import { JobRunsService } from '../src/job-runs/job-runs.service';
+import { Job, JobType, JobStatus } from '../src/jobs/entities/job.entity';
+import { JobRun, JobRunStatus } from '../src/job-runs/entities/job-run.entity';
+import { ConfigModule } from '@nestjs/config';
+import { setTimeout as sleep } from 'timers/promises';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { JobHandler } from '../src/scheduler/handlers/job-handler.decorator';
+import { JobTypeHandler } from '../src/scheduler/handlers/job-handler.interface';
+import { BackoffStrategy } from '../src/scheduler/retry/retry-policy';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+
+@JobHandler('always_failing', { retry: { maxAttempts: 5 } })
+class AlwaysFailingHandler implements JobTypeHandler {
+  async handle(): Promise<void> {
+    throw new Error('Something went wrong');
+  }
+}
+
+@JobHandler('never_ending')
+class NeverEndingHandler implements JobTypeHandler {
+  handle(job: Job, signal: AbortSignal): Promise<void> {
+    return new Promise((_, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason));
+    });
+  }
+}
+
+@JobHandler('single_slot', { maxConcurrency: 1 })
+class SingleSlotHandler implements JobTypeHandler {
+  async handle(job: Job, signal: AbortSignal): Promise<void> {
+    await sleep(1000, undefined, { signal });
+  }
+}
+
+describe('JobRunsController (e2e)', () => {
+  let app: INestApplication;
+  let jobId: string;
+  let runId: string;
+
+  beforeAll(async () => {
+    // Pruning only runs when a test calls it
+    process.env.JOB_RUN_MAX_PER_JOB = '3';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [Job, JobRun, Artifact, AuditEntry],
+          synchronize: true,
+          dropSchema: true, // Clean database for each test run
+        }),
+        JobsModule,
+        SchedulerModule,
+        JobRunsModule,
+      ],
+      providers: [AlwaysFailingHandler, NeverEndingHandler, SingleSlotHandler],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+
+    // A one-shot job in the past runs immediately
+    const createResponse = await request(app.getHttpServer())
+      .post('/jobs')
+      .send({
+        name: 'Run History Job',
+        type: JobType.EMAIL_NOTIFICATION,
+        schedule: new Date(Date.now() - 1000).toISOString(),
+        metadata: { recipients: ['test@example.com'] },
+      })
+      .expect(201);
+    jobId = createResponse.body.id;
+
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  });
+
+  afterAll(async () => {
+    await app.close();
+    delete process.env.JOB_RUN_MAX_PER_JOB;
+  });
+
+  describe('GET /jobs/:id/runs', () => {
+    it('should record the execution of a job', async () => {
+      const res = await request(app.getHttpServer())
+        .get(`/jobs/${jobId}/runs`)
+        .expect(200);
+
+      expect(res.body.total).toBe(1);
+      expect(res.body.page).toBe(1);
+      expect(res.body.limit).toBe(50);
+
+      const [run] = res.body.runs;
+      expect(run.jobId).toBe(jobId);
+      expect(run.status).toBe(JobRunStatus.SUCCEEDED);
+      expect(run.attempt).toBe(1);
+      expect(run.instanceId).toBeTruthy();
+      expect(run.finishedAt).toBeTruthy();
+      expect(run.durationMs).toBeGreaterThanOrEqual(0);
+      expect(run.errorMessage).toBeNull();
+      runId = run.id;
+
+      const job = await request(app.getHttpServer())
+        .get(`/jobs/${jobId}`)
+        .expect(200);
+      expect(job.body.status).toBe(JobStatus.COMPLETED);
+    });
+
+    it('should filter by status', () => {
+      return request(app.getHttpServer())
+        .get(`/jobs/${jobId}/runs?status=${JobRunStatus.FAILED}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.total).toBe(0);
+          expect(res.body.runs).toEqual([]);
+        });
+    });
+
+    it('should filter by time range', async () => {
+      const hourAgo = new Date(Date.now() - 3600000).toISOString();
+      const inAnHour = new Date(Date.now() + 3600000).toISOString();
+
+      const inRange = await request(app.getHttpServer())
+        .get(`/jobs/${jobId}/runs`)
+        .query({ from: hourAgo, to: inAnHour })
+        .expect(200);
+      expect(inRange.body.total).toBe(1);
+
+      const outOfRange = await request(app.getHttpServer())
+        .get(`/jobs/${jobId}/runs`)
+        .query({ from: inAnHour })
+        .expect(200);
+      expect(outOfRange.body.total).toBe(0);
+    });
+
+    it('should reject invalid filters', () => {
+      return request(app.getHttpServer())
+        .get(`/jobs/${jobId}/runs?status=exploded&from=yesterday`)
+        .expect(400);
+    });
+
+    it('should return 404 for non-existent job', () => {
+      return request(app.getHttpServer())
+        .get('/jobs/00000000-0000-0000-0000-000000000000/runs')
+        .expect(404);
+    });
+  });
+
+  describe('GET /jobs/:id/runs/:runId', () => {
+    it('should return a specific run', () => {
+      return request(app.getHttpServer())
+        .get(`/jobs/${jobId}/runs/${runId}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.id).toBe(runId);
+          expect(res.body.jobId).toBe(jobId);
+          expect(res.body.status).toBe(JobRunStatus.SUCCEEDED);
+        });
+    });
+
+    it('should return 404 for non-existent run', () => {
+      return request(app.getHttpServer())
+        .get(`/jobs/${jobId}/runs/00000000-0000-0000-0000-000000000000`)
+        .expect(404);
+    });
+  });
+
+  describe('Retries and the dead-letter queue', () => {
+    let failingJobId: string;
+
+    beforeAll(async () => {
+      const createResponse = await request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Failing Job',
+          type: 'always_failing',
+          schedule: new Date(Date.now() - 1000).toISOString(),
+          retryPolicy: {
+            maxAttempts: 2,
+            backoff: BackoffStrategy.FIXED,
+            delayMs: 0,
+          },
+        })
+        .expect(201);
+      failingJobId = createResponse.body.id;
+
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+    });
+
+    it('should retry a failed occurrence up to the job retry policy', async () => {
+      const res = await request(app.getHttpServer())
+        .get(`/jobs/${failingJobId}/runs`)
+        .expect(200);
+
+      expect(res.body.total).toBe(2);
+      expect(res.body.runs.map((run) => run.attempt).sort()).toEqual([1, 2]);
+      res.body.runs.forEach((run) => {
+        expect(run.status).toBe(JobRunStatus.FAILED);
+        expect(run.errorMessage).toBe('Something went wrong');
+      });
+    });
+
+    it('should move the job to the dead-letter queue', async () => {
+      const job = await request(app.getHttpServer())
+        .get(`/jobs/${failingJobId}`)
+        .expect(200);
+      expect(job.body.status).toBe(JobStatus.FAILED);
+      expect(job.body.failedAt).toBeTruthy();
+      expect(job.body.failureCount).toBe(2);
+      expect(job.body.lastError).toBe('Something went wrong');
+
+      const deadLetter = await request(app.getHttpServer())
+        .get('/jobs/dead-letter')
+        .expect(200);
+      expect(deadLetter.body.jobs.map((job) => job.id)).toEqual([failingJobId]);
+    });
+
+    it('should requeue a failed job', () => {
+      return request(app.getHttpServer())
+        .post(`/jobs/${failingJobId}/requeue`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.status).toBe(JobStatus.ACTIVE);
+          expect(res.body.attempt).toBe(1);
+          expect(res.body.failureCount).toBe(0);
+          expect(res.body.failedAt).toBeNull();
+        });
+    });
+
+    it('should not requeue a job that has not failed', () => {
+      return request(app.getHttpServer())
+        .post(`/jobs/${jobId}/requeue`)
+        .expect(409);
+    });
+  });
+
+  describe('Misfire policies', () => {
+    // Simulates downtime: three minutely occurrences, all an hour overdue
+    const createMissedJob = async (misfirePolicy: string) => {
+      const start = new Date(Date.now() - 3600000);
+      const res = await request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: `Missed Job (${misfirePolicy})`,
+          type: JobType.EMAIL_NOTIFICATION,
+          schedule: `R3/${start.toISOString()}/PT1M`,
+          metadata: { recipients: ['test@example.com'] },
+          misfirePolicy,
+        })
+        .expect(201);
+
+      const jobRepository = app.get<Repository<Job>>(getRepositoryToken(Job));
+      await jobRepository.update(res.body.id, {
+        status: JobStatus.ACTIVE,
+        nextRunAt: start,
+      });
+      await app
+        .get(SchedulerService)
+        .scheduleJob(await jobRepository.findOneBy({ id: res.body.id }));
+      return res.body.id;
+    };
+
+    it('should skip missed occurrences with skip_to_next', async () => {
+      const id = await createMissedJob('skip_to_next');
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+
+      const runs = await request(app.getHttpServer())
+        .get(`/jobs/${id}/runs?status=${JobRunStatus.SKIPPED}`)
+        .expect(200);
+      expect(runs.body.total).toBe(3);
+      runs.body.runs.forEach((run) => expect(run.scheduledAt).toBeTruthy());
+
+      const job = await request(app.getHttpServer())
+        .get(`/jobs/${id}`)
+        .expect(200);
+      expect(job.body.status).toBe(JobStatus.COMPLETED);
+      expect(job.body.runCount).toBe(0);
+    });
+
+    it('should run the latest missed occurrence once with fire_once', async () => {
+      const id = await createMissedJob('fire_once');
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+
+      const runs = await request(app.getHttpServer())
+        .get(`/jobs/${id}/runs`)
+        .expect(200);
+      const statuses = runs.body.runs.map((run) => run.status).sort();
+      expect(statuses).toEqual([
+        JobRunStatus.SKIPPED,
+        JobRunStatus.SKIPPED,
+        JobRunStatus.SUCCEEDED,
+      ]);
+    });
+
+    it('should reject an unknown misfire policy', () => {
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Bad Misfire Job',
+          type: JobType.EMAIL_NOTIFICATION,
+          schedule: '*/5 * * * *',
+          metadata: { recipients: ['test@example.com'] },
+          misfirePolicy: 'fire_twice',
+        })
+        .expect(400);
+    });
+  });
+
+  describe('Timeouts and cancellation', () => {
+    const createNeverEndingJob = async (extra: object) => {
+      const res = await request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Never Ending Job',
+          type: 'never_ending',
+          schedule: new Date(Date.now() - 1000).toISOString(),
+          ...extra,
+        })
+        .expect(201);
+      return res.body.id;
+    };
+
+    it('should abort a run that exceeds its timeout', async () => {
+      const id = await createNeverEndingJob({
+        timeoutMs: 200,
+        retryPolicy: { maxAttempts: 1 },
+      });
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+
+      const runs = await request(app.getHttpServer())
+        .get(`/jobs/${id}/runs`)
+        .expect(200);
+      expect(runs.body.total).toBe(1);
+      expect(runs.body.runs[0].status).toBe(JobRunStatus.TIMED_OUT);
+      expect(runs.body.runs[0].errorMessage).toBe('Job timed out after 200ms');
+
+      const job = await request(app.getHttpServer())
+        .get(`/jobs/${id}`)
+        .expect(200);
+      expect(job.body.status).toBe(JobStatus.FAILED);
+    });
+
+    it('should cancel a running execution', async () => {
+      const id = await createNeverEndingJob({ timeoutMs: 60000 });
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      await request(app.getHttpServer()).post(`/jobs/${id}/cancel`).expect(202);
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      const runs = await request(app.getHttpServer())
+        .get(`/jobs/${id}/runs`)
+        .expect(200);
+      expect(runs.body.total).toBe(1);
+      expect(runs.body.runs[0].status).toBe(JobRunStatus.CANCELLED);
+
+      // Cancellation is not a failure; the one-shot job has no next occurrence
+      const job = await request(app.getHttpServer())
+        .get(`/jobs/${id}`)
+        .expect(200);
+      expect(job.body.status).toBe(JobStatus.COMPLETED);
+      expect(job.body.failureCount).toBe(0);
+    });
+
+    it('should return 409 when the job is not running', () => {
+      return request(app.getHttpServer())
+        .post(`/jobs/${jobId}/cancel`)
+        .expect(409);
+    });
+  });
+
+  describe('Concurrency limits', () => {
+    const jobIds: string[] = [];
+
+    beforeAll(async () => {
+      for (const name of ['First Single Slot Job', 'Second Single Slot Job']) {
+        const res = await request(app.getHttpServer())
+          .post('/jobs')
+          .send({
+            name,
+            type: 'single_slot',
+            schedule: new Date(Date.now() - 1000).toISOString(),
+            // Shorter than the time due plus the wait for the slot
+            misfireGraceMs: 1500,
+          })
+          .expect(201);
+        jobIds.push(res.body.id);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 300));
+    });
+
+    it('should queue jobs beyond their type limit', () => {
+      return request(app.getHttpServer())
+        .get('/scheduler/queue')
+        .expect(200)
+        .expect((res) => {
+          const singleSlot = res.body.types.find(
+            (type) => type.type === 'single_slot',
+          );
+          expect(singleSlot).toEqual({
+            type: 'single_slot',
+            running: 1,
+            maxConcurrency: 1,
+          });
+          expect(res.body.queued).toHaveLength(1);
+          expect(res.body.queued[0].jobId).toBe(jobIds[1]);
+          expect(res.body.queued[0].reason).toBe('type_limit');
+        });
+    });
+
+    // Time spent waiting for the slot doesn't make them misfire
+    it('should run queued jobs once a slot frees up', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 2500));
+
+      for (const id of jobIds) {
+        const runs = await request(app.getHttpServer())
+          .get(`/jobs/${id}/runs`)
+          .expect(200);
+        expect(runs.body.runs[0].status).toBe(JobRunStatus.SUCCEEDED);
+      }
+
+      const queue = await request(app.getHttpServer())
+        .get('/scheduler/queue')
+        .expect(200);
+      expect(queue.body.queued).toEqual([]);
+    });
+  });
+
+  describe('HTTP request jobs', () => {
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        res.statusCode = req.url === '/unavailable' ? 503 : 200;
+        res.end(JSON.stringify({ method: req.method, path: req.url }));
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    const runOnce = async (metadata: Record<string, any>) => {
+      const createResponse = await request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'HTTP Request Job',
+          type: JobType.HTTP_REQUEST,
+          schedule: new Date(Date.now() - 1000).toISOString(),
+          retryPolicy: { maxAttempts: 1 },
+          metadata,
+        })
+        .expect(201);
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      const runs = await request(app.getHttpServer())
+        .get(`/jobs/${createResponse.body.id}/runs`)
+        .expect(200);
+      return runs.body.runs[0];
+    };
+
+    it('should record the response on the run', async () => {
+      const run = await runOnce({ method: 'POST', url: `${baseUrl}/ping` });
+
+      expect(run.status).toBe(JobRunStatus.SUCCEEDED);
+      expect(run.output.status).toBe(200);
+      expect(JSON.parse(run.output.body)).toEqual({
+        method: 'POST',
+        path: '/ping',
+      });
+      expect(run.output.bodyTruncated).toBe(false);
+      expect(run.output.latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should fail the run on an unexpected status', async () => {
+      const run = await runOnce({ url: `${baseUrl}/unavailable` });
+
+      expect(run.status).toBe(JobRunStatus.FAILED);
+      expect(run.errorMessage).toBe(
+        'Request failed with unexpected status 503',
+      );
+      expect(run.output.status).toBe(503);
+    });
+
+    it('should accept the expected statuses', async () => {
+      const run = await runOnce({
+        url: `${baseUrl}/unavailable`,
+        expectedStatus: [503],
+      });
+
+      expect(run.status).toBe(JobRunStatus.SUCCEEDED);
+    });
+
+    it('should reject a URL that is not http(s)', () => {
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'FTP Job',
+          type: JobType.HTTP_REQUEST,
+          schedule: '*/5 * * * *',
+          metadata: { url: 'ftp://example.com/file' },
+        })
+        .expect(400);
+    });
+  });
+
+  describe('Pruning', () => {
+    it('should keep running runs when trimming a job to its latest runs', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Long History Job',
+          type: JobType.EMAIL_NOTIFICATION,
+          schedule: new Date(Date.now() + 3600000).toISOString(),
+          metadata: { recipients: ['test@example.com'] },
+        })
+        .expect(201);
+      const jobRunRepository = app.get<Repository<JobRun>>(
+        getRepositoryToken(JobRun),
+      );
+
+      // The oldest run is still going, behind five finished ones
+      const running = await jobRunRepository.save(
+        jobRunRepository.create({
+          jobId: res.body.id,
+          status: JobRunStatus.RUNNING,
+          instanceId: 'test-instance',
+          startedAt: new Date(Date.now() - 600000),
+        }),
+      );
+      const finished = await jobRunRepository.save(
+        [1, 2, 3, 4, 5].map((minutesAgo) =>
+          jobRunRepository.create({
+            jobId: res.body.id,
+            status: JobRunStatus.SUCCEEDED,
+            instanceId: 'test-instance',
+            startedAt: new Date(Date.now() - minutesAgo * 60000),
+            finishedAt: new Date(Date.now() - minutesAgo * 60000 + 1000),
+          }),
+        ),
+      );
+
+      await app.get(JobRunsService).prune();
+
+      const kept = await jobRunRepository.findBy({ jobId: res.body.id });
+      expect(kept.map(({ id }) => id).sort()).toEqual(
+        [running.id, ...finished.slice(0, 3).map(({ id }) => id)].sort(),
+      );
+    });
+  });
+});
@@ -1,11 +1,15 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
 import * as request from 'supertest';
-import { TypeOrmModule } from '@nestjs/typeorm';
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
 import { JobsModule } from '../src/jobs/jobs.module';
 import { SchedulerModule } from '../src/scheduler/scheduler.module';
 import { Job, JobType, JobStatus } from '../src/jobs/entities/job.entity';
+import { JobRun } from '../src/job-runs/entities/job-run.entity';
 import { ConfigModule } from '@nestjs/config';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
 
 describe('JobsController (e2e)', () => {
   let app: INestApplication;
@@ -25,7 +29,7 @@ describe('JobsController (e2e)', () => {
           username: process.env.DB_USERNAME || 'postgres',
           password: process.env.DB_PASSWORD || 'Patel@123',
           database: process.env.DB_DATABASE || 'scheduler_db_test',
-          entities: [Job],
+          entities: [Job, JobRun, Artifact, AuditEntry],
           synchronize: true,
           dropSchema: true, // Clean database for each test run
         }),
@@ -76,6 +80,8 @@ describe('JobsController (e2e)', () => {
           });
           expect(res.body).toHaveProperty('nextRunAt');
           expect(res.body.runCount).toBe(0);
+          expect(res.body.priority).toBe(0);
+          expect(res.body.maxConcurrency).toBe(1);
           createdJobId = res.body.id;
         });
     });
@@ -90,6 +96,19 @@ describe('JobsController (e2e)', () => {
         .expect(400);
     });
 
+    it('should reject a maxConcurrency below 1', () => {
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Overlapping Job',
+          type: JobType.NUMBER_CRUNCHING,
+          schedule: '*/5 * * * *',
+          priority: 5,
+          maxConcurrency: 0,
+        })
+        .expect(400);
+    });
+
     it('should fail with missing required fields', () => {
       return request(app.getHttpServer())
         .post('/jobs')
@@ -98,6 +117,82 @@ describe('JobsController (e2e)', () => {
         })
         .expect(400);
     });
+
+    it('should reject a job type without a registered handler', () => {
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Unknown Type Job',
+          type: 'invalid_type',
+          schedule: '0 0 * * *',
+        })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toContain('Unknown job type');
+        });
+    });
+
+    it('should reject metadata that does not match the job type schema', () => {
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Invalid Metadata Job',
+          type: JobType.EMAIL_NOTIFICATION,
+          schedule: '0 0 * * *',
+          metadata: { recipients: ['not-an-email'], unknown: true },
+        })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toEqual(
+            expect.arrayContaining([
+              'metadata.recipients[0] must match format "email"',
+              'metadata.unknown is not allowed',
+            ]),
+          );
+        });
+    });
+
+    it('should reject missing required metadata', () => {
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Missing Metadata Job',
+          type: JobType.EMAIL_NOTIFICATION,
+          schedule: '0 0 * * *',
+        })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toEqual([
+            "metadata must have required property 'recipients'",
+          ]);
+        });
+    });
+  });
+
+  describe('GET /job-types', () => {
+    it('should list the registered job types', () => {
+      return request(app.getHttpServer())
+        .get('/job-types')
+        .expect(200)
+        .expect((res) => {
+          const types = res.body.map((jobType) => jobType.type);
+          expect(types).toEqual(
+            expect.arrayContaining([
+              'email_notification',
+              'number_crunching',
+              'data_processing',
+              'report_generation',
+              'http_request',
+            ]),
+          );
+          const email = res.body.find(
+            (jobType) => jobType.type === 'email_notification',
+          );
+          expect(email.metadataSchema).toHaveProperty('type', 'object');
+          expect(email.timeoutMs).toBeGreaterThan(0);
+          expect(email.retry).toHaveProperty('maxAttempts');
+        });
+    });
   });
 
   describe('GET /jobs', () => {
@@ -209,6 +304,7 @@ describe('JobsController (e2e)', () => {
         .send({
           name: 'Cron Job',
           type: JobType.EMAIL_NOTIFICATION,
+          metadata: { recipients: ['test@example.com'] },
           schedule: '0 9 * * *', // Daily at 9 AM
         })
         .expect(201)
@@ -218,6 +314,106 @@ describe('JobsController (e2e)', () => {
         });
     });
 
+    it.each([
+      '0 0 1 1 *',
+      '1-30/5 * * * *',
+      '0 9 * * MON-FRI',
+      '0 0 1 JAN,JUL *',
+      '0 0 1-5,10-15 * *',
+      '0 0 L * *',
+      '0 0 15W * *',
+      '0 0 * * FRI#3',
+      '30 */10 * * * *',
+      '@hourly',
+    ])('should accept extended cron expression %s', (schedule) => {
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Extended Cron Job',
+          type: JobType.EMAIL_NOTIFICATION,
+          metadata: { recipients: ['test@example.com'] },
+          schedule,
+        })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body.schedule).toBe(schedule);
+          expect(new Date(res.body.nextRunAt).getTime()).toBeGreaterThan(
+            Date.now(),
+          );
+        });
+    });
+
+    it.each(['* * * *', '60 * * * *', '0 0 30 2 *', '5-1 * * * *', '@reboot'])(
+      'should reject invalid cron expression %s',
+      (schedule) => {
+        return request(app.getHttpServer())
+          .post('/jobs')
+          .send({
+            name: 'Invalid Cron Job',
+            type: JobType.EMAIL_NOTIFICATION,
+            metadata: { recipients: ['test@example.com'] },
+            schedule,
+          })
+          .expect(400)
+          .expect((res) => {
+            expect(res.body.message).toEqual(
+              expect.arrayContaining([
+                expect.stringContaining('schedule is invalid'),
+              ]),
+            );
+          });
+      },
+    );
+
+    it('should evaluate cron expressions in the job time zone', () => {
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Time Zone Job',
+          type: JobType.EMAIL_NOTIFICATION,
+          metadata: { recipients: ['test@example.com'] },
+          schedule: '0 9 * * *',
+          timezone: 'America/New_York',
+        })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body.timezone).toBe('America/New_York');
+          expect(res.body.nextRunAtLocal).toMatch(/T09:00:00-0[45]:00$/);
+          expect(new Date(res.body.nextRunAtLocal).getTime()).toBe(
+            new Date(res.body.nextRunAt).getTime(),
+          );
+        });
+    });
+
+    it('should default to UTC', () => {
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'UTC Job',
+          type: JobType.EMAIL_NOTIFICATION,
+          metadata: { recipients: ['test@example.com'] },
+          schedule: '0 9 * * *',
+        })
+        .expect(201)
+        .expect((res) => {
+          expect(res.body.timezone).toBe('UTC');
+          expect(res.body.nextRunAtLocal).toMatch(/T09:00:00\+00:00$/);
+        });
+    });
+
+    it('should reject unknown time zones', () => {
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Invalid Time Zone Job',
+          type: JobType.EMAIL_NOTIFICATION,
+          metadata: { recipients: ['test@example.com'] },
+          schedule: '0 9 * * *',
+          timezone: 'Mars/Olympus_Mons',
+        })
+        .expect(400);
+    });
+
     it('should accept ISO 8601 interval', () => {
       return request(app.getHttpServer())
         .post('/jobs')
@@ -233,5 +429,261 @@ describe('JobsController (e2e)', () => {
         });
     });
   });
+
+  describe('Schedule Kinds and Bounds', () => {
+    it.each(['P1D', 'P1W', 'P1DT12H', 'R/2026-01-01T00:00:00Z/PT1H'])(
+      'should accept ISO 8601 schedule %s',
+      (schedule) => {
+        return request(app.getHttpServer())
+          .post('/jobs')
+          .send({
+            name: 'ISO 8601 Job',
+            type: JobType.REPORT_GENERATION,
+            schedule,
+          })
+          .expect(201)
+          .expect((res) => {
+            expect(res.body.schedule).toBe(schedule);
+            expect(new Date(res.body.nextRunAt).getTime()).toBeGreaterThan(
+              Date.now(),
+            );
+          });
+      },
+    );
+
+    it('should accept a one-shot timestamp', () => {
+      const runAt = new Date(Date.now() + 3600000).toISOString();
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'One-shot Job',
+          type: JobType.EMAIL_NOTIFICATION,
+          metadata: { recipients: ['test@example.com'] },
+          schedule: runAt,
+        })
+        .expect(201)
+        .expect((res) => {
+          expect(new Date(res.body.nextRunAt).toISOString()).toBe(runAt);
+        });
+    });
+
+    it('should not run before startAt', () => {
+      const startAt = new Date(Date.now() + 86400000);
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Delayed Start Job',
+          type: JobType.EMAIL_NOTIFICATION,
+          metadata: { recipients: ['test@example.com'] },
+          schedule: 'PT5M',
+          startAt: startAt.toISOString(),
+          maxRuns: 3,
+        })
+        .expect(201)
+        .expect((res) => {
+          expect(new Date(res.body.nextRunAt).getTime()).toBe(
+            startAt.getTime(),
+          );
+          expect(res.body.maxRuns).toBe(3);
+        });
+    });
+
+    it('should reject a schedule with no upcoming occurrences', () => {
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Expired Job',
+          type: JobType.EMAIL_NOTIFICATION,
+          metadata: { recipients: ['test@example.com'] },
+          schedule: 'R3/2020-01-01T00:00:00Z/PT1H',
+        })
+        .expect(400);
+    });
+
+    it('should reject endAt before startAt', () => {
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Inverted Bounds Job',
+          type: JobType.EMAIL_NOTIFICATION,
+          metadata: { recipients: ['test@example.com'] },
+          schedule: 'PT5M',
+          startAt: '2030-01-02T00:00:00Z',
+          endAt: '2030-01-01T00:00:00Z',
+        })
+        .expect(400);
+    });
+
+    it('should reject an invalid maxRuns', () => {
+      return request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Invalid Run Limit Job',
+          type: JobType.EMAIL_NOTIFICATION,
+          metadata: { recipients: ['test@example.com'] },
+          schedule: 'PT5M',
+          maxRuns: 0,
+        })
+        .expect(400);
+    });
+  });
+
+  describe('PATCH /jobs/:id', () => {
+    it('should update a job', () => {
+      return request(app.getHttpServer())
+        .patch(`/jobs/${createdJobId}`)
+        .send({
+          name: 'Updated Email Job',
+          description: 'Updated description',
+        })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.id).toBe(createdJobId);
+          expect(res.body.name).toBe('Updated Email Job');
+          expect(res.body.description).toBe('Updated description');
+          expect(res.body.schedule).toBe('*/5 * * * *');
+        });
+    });
+
+    it('should reschedule when the schedule changes', () => {
+      return request(app.getHttpServer())
+        .patch(`/jobs/${createdJobId}`)
+        .send({ schedule: 'PT10M' })
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.schedule).toBe('PT10M');
+          expect(new Date(res.body.nextRunAt).getTime()).toBeGreaterThan(
+            Date.now(),
+          );
+        });
+    });
+
+    it('should leave the lease and run counts of a running job alone', async () => {
+      // Another instance is running the job, and has just counted the run
+      const jobRepository = app.get<Repository<Job>>(getRepositoryToken(Job));
+      const leaseExpiresAt = new Date(Date.now() + 60000);
+      await jobRepository.update(createdJobId, {
+        leaseOwner: 'other-instance',
+        leaseExpiresAt,
+        runCount: 7,
+      });
+
+      await request(app.getHttpServer())
+        .patch(`/jobs/${createdJobId}`)
+        .send({ description: 'Edited while running' })
+        .expect(200);
+
+      const job = await jobRepository.findOneBy({ id: createdJobId });
+      expect(job).toMatchObject({
+        description: 'Edited while running',
+        leaseOwner: 'other-instance',
+        leaseExpiresAt,
+        runCount: 7,
+      });
+      await jobRepository.update(createdJobId, {
+        leaseOwner: null,
+        leaseExpiresAt: null,
+      });
+    });
+
+    it('should fail with invalid data', () => {
+      return request(app.getHttpServer())
+        .patch(`/jobs/${createdJobId}`)
+        .send({ type: 'invalid_type' })
+        .expect(400);
+    });
+
+    it('should validate metadata against the job type schema', () => {
+      return request(app.getHttpServer())
+        .patch(`/jobs/${createdJobId}`)
+        .send({ metadata: { recipients: 'test@example.com' } })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toEqual([
+            'metadata.recipients must be array',
+          ]);
+        });
+    });
+
+    it('should validate existing metadata when the type changes', () => {
+      return request(app.getHttpServer())
+        .patch(`/jobs/${createdJobId}`)
+        .send({ type: JobType.NUMBER_CRUNCHING })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toEqual(
+            expect.arrayContaining(['metadata.recipients is not allowed']),
+          );
+        });
+    });
+
+    it('should return 404 for non-existent job', () => {
+      return request(app.getHttpServer())
+        .patch('/jobs/00000000-0000-0000-0000-000000000000')
+        .send({ name: 'Missing Job' })
+        .expect(404);
+    });
+  });
+
+  describe('POST /jobs/:id/pause and /jobs/:id/resume', () => {
+    it('should pause an active job', () => {
+      return request(app.getHttpServer())
+        .post(`/jobs/${createdJobId}/pause`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.id).toBe(createdJobId);
+          expect(res.body.status).toBe(JobStatus.PAUSED);
+        });
+    });
+
+    it('should return 409 when pausing a paused job', () => {
+      return request(app.getHttpServer())
+        .post(`/jobs/${createdJobId}/pause`)
+        .expect(409);
+    });
+
+    it('should resume a paused job', () => {
+      return request(app.getHttpServer())
+        .post(`/jobs/${createdJobId}/resume`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.status).toBe(JobStatus.ACTIVE);
+          expect(res.body.nextRunAt).toBeTruthy();
+        });
+    });
+
+    it('should return 409 when resuming a job that is not paused', () => {
+      return request(app.getHttpServer())
+        .post(`/jobs/${createdJobId}/resume`)
+        .expect(409);
+    });
+
+    it('should return 404 for non-existent job', async () => {
+      await request(app.getHttpServer())
+        .post('/jobs/00000000-0000-0000-0000-000000000000/pause')
+        .expect(404);
+      await request(app.getHttpServer())
+        .post('/jobs/00000000-0000-0000-0000-000000000000/resume')
+        .expect(404);
+    });
+  });
+
+  describe('DELETE /jobs/:id', () => {
+    it('should delete a job', async () => {
+      await request(app.getHttpServer())
+        .delete(`/jobs/${createdJobId}`)
+        .expect(204);
+
+      await request(app.getHttpServer())
+        .get(`/jobs/${createdJobId}`)
+        .expect(404);
+    });
+
+    it('should return 404 for non-existent job', () => {
+      return request(app.getHttpServer())
+        .delete('/jobs/00000000-0000-0000-0000-000000000000')
+        .expect(404);
+    });
+  });
 });
 
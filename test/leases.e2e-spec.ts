@@ -0,0 +1,161 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule, getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { In, Repository } from 'typeorm';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { Job, JobType } from '../src/jobs/entities/job.entity';
+import { JobRun, JobRunStatus } from '../src/job-runs/entities/job-run.entity';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+
+// Two scheduler instances sharing one database, as when scaled out
+describe('Job leases (e2e)', () => {
+  let first: INestApplication;
+  let second: INestApplication;
+  let jobRepository: Repository<Job>;
+  let jobRunRepository: Repository<JobRun>;
+
+  const createInstance = async (
+    instanceId: string,
+    dropSchema: boolean,
+  ): Promise<INestApplication> => {
+    process.env.INSTANCE_ID = instanceId;
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [Job, JobRun, Artifact, AuditEntry],
+          synchronize: dropSchema,
+          dropSchema, // Only the first instance cleans the database
+        }),
+        JobsModule,
+        SchedulerModule,
+      ],
+    }).compile();
+
+    const app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+    return app;
+  };
+
+  beforeAll(async () => {
+    // Both instances poll for due jobs often, so they race for them
+    process.env.SCHEDULER_POLL_INTERVAL_MS = '100';
+
+    first = await createInstance('instance-a', true);
+    second = await createInstance('instance-b', false);
+    jobRepository = first.get<Repository<Job>>(getRepositoryToken(Job));
+    jobRunRepository = first.get<Repository<JobRun>>(
+      getRepositoryToken(JobRun),
+    );
+  });
+
+  afterAll(async () => {
+    await first.close();
+    await second.close();
+    delete process.env.INSTANCE_ID;
+    delete process.env.SCHEDULER_POLL_INTERVAL_MS;
+  });
+
+  // Due in an hour, so that no instance's timer fires during the tests
+  const createJob = async (name: string): Promise<string> => {
+    const res = await request(first.getHttpServer())
+      .post('/jobs')
+      .send({
+        name,
+        type: JobType.EMAIL_NOTIFICATION,
+        schedule: new Date(Date.now() + 3600000).toISOString(),
+        metadata: { recipients: ['test@example.com'] },
+      })
+      .expect(201);
+    return res.body.id;
+  };
+
+  // Made due in the database, where both instances' polls find it
+  const makeDue = (id: string, changes: Partial<Job> = {}) =>
+    jobRepository.update(id, {
+      nextRunAt: new Date(Date.now() - 1000),
+      ...changes,
+    });
+
+  it('should run a due job on exactly one instance', async () => {
+    const ids: string[] = [];
+    for (let i = 0; i < 10; i++) {
+      ids.push(await createJob(`Contended Job ${i}`));
+    }
+    await Promise.all(ids.map((id) => makeDue(id)));
+
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+
+    const runs = await jobRunRepository.findBy({ jobId: In(ids) });
+    expect(runs).toHaveLength(ids.length);
+    expect(new Set(runs.map(({ jobId }) => jobId)).size).toBe(ids.length);
+    runs.forEach((run) => {
+      expect(run.status).toBe(JobRunStatus.SUCCEEDED);
+      expect(['instance-a', 'instance-b']).toContain(run.instanceId);
+    });
+
+    const jobs = await jobRepository.findBy({ id: In(ids) });
+    jobs.forEach((job) => {
+      expect(job.runCount).toBe(1);
+      expect(job.leaseOwner).toBeNull();
+    });
+  });
+
+  it('should reclaim a job whose lease expired and abandon its run', async () => {
+    const id = await createJob('Orphaned Job');
+
+    // Its instance crashed mid-run, and stopped renewing the lease
+    const orphaned = await jobRunRepository.save(
+      jobRunRepository.create({
+        jobId: id,
+        status: JobRunStatus.RUNNING,
+        instanceId: 'crashed-instance',
+        startedAt: new Date(Date.now() - 60000),
+      }),
+    );
+    await makeDue(id, {
+      leaseOwner: 'crashed-instance',
+      leaseExpiresAt: new Date(Date.now() - 1000),
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+
+    const abandoned = await jobRunRepository.findOneBy({ id: orphaned.id });
+    expect(abandoned.status).toBe(JobRunStatus.FAILED);
+    expect(abandoned.errorMessage).toBe(
+      'Lease expired: instance crashed-instance stopped responding',
+    );
+    expect(abandoned.finishedAt).toBeTruthy();
+
+    const rerun = await jobRunRepository.findBy({
+      jobId: id,
+      status: JobRunStatus.SUCCEEDED,
+    });
+    expect(rerun).toHaveLength(1);
+    expect(['instance-a', 'instance-b']).toContain(rerun[0].instanceId);
+
+    const job = await jobRepository.findOneBy({ id });
+    expect(job.leaseOwner).toBeNull();
+    expect(job.runCount).toBe(1);
+  });
+});
@@ -0,0 +1,174 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { Job, JobType } from '../src/jobs/entities/job.entity';
+import { JobRun } from '../src/job-runs/entities/job-run.entity';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+
+describe('MetricsController (e2e)', () => {
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [Job, JobRun, Artifact, AuditEntry],
+          synchronize: true,
+          dropSchema: true, // Clean database for each test run
+        }),
+        JobsModule,
+        SchedulerModule,
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const scrape = async () => {
+    const res = await request(app.getHttpServer()).get('/metrics').expect(200);
+    expect(res.headers['content-type']).toBe(
+      'text/plain; version=0.0.4; charset=utf-8',
+    );
+    return res.text;
+  };
+
+  // Value of the sample, e.g. `name{label="value"}`, or undefined if absent
+  const sample = (metrics: string, series: string) => {
+    const line = metrics
+      .split('\n')
+      .find((candidate) => candidate.startsWith(`${series} `));
+    return line === undefined ? undefined : Number(line.split(' ')[1]);
+  };
+
+  const wait = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  describe('GET /metrics', () => {
+    it('should expose scheduler gauges', async () => {
+      await request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Hourly Job',
+          type: JobType.DATA_PROCESSING,
+          schedule: 'PT1H',
+        })
+        .expect(201);
+
+      const metrics = await scrape();
+      expect(metrics).toContain('# TYPE scheduler_scheduled_jobs gauge');
+      expect(sample(metrics, 'scheduler_scheduled_jobs')).toBe(1);
+      expect(sample(metrics, 'scheduler_executing_jobs')).toBe(0);
+      expect(sample(metrics, 'scheduler_dispatch_queue_depth')).toBe(0);
+      expect(
+        sample(
+          metrics,
+          'scheduler_db_query_duration_seconds_count{operation="load_active_jobs"}',
+        ),
+      ).toBe(1);
+    });
+
+    it('should count runs by type and status', async () => {
+      await request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Due Job',
+          type: JobType.DATA_PROCESSING,
+          schedule: new Date(Date.now() - 1000).toISOString(),
+          metadata: { records: 10 },
+        })
+        .expect(201);
+      await wait(1000);
+
+      const metrics = await scrape();
+      expect(
+        sample(
+          metrics,
+          'scheduler_job_runs_total{type="data_processing",status="succeeded"}',
+        ),
+      ).toBe(1);
+      expect(
+        sample(
+          metrics,
+          'scheduler_job_run_duration_seconds_count{type="data_processing",status="succeeded"}',
+        ),
+      ).toBe(1);
+      expect(
+        sample(
+          metrics,
+          'scheduler_schedule_lag_seconds_bucket{type="data_processing",le="+Inf"}',
+        ),
+      ).toBe(1);
+      expect(
+        sample(
+          metrics,
+          'scheduler_db_query_duration_seconds_count{operation="claim_job"}',
+        ),
+      ).toBeGreaterThan(0);
+    });
+
+    it('should record requests to the jobs API by route pattern', async () => {
+      await request(app.getHttpServer())
+        .get('/jobs/00000000-0000-0000-0000-000000000000')
+        .expect(404);
+      await request(app.getHttpServer())
+        .post('/jobs')
+        .send({ name: 'Invalid Job' })
+        .expect(400);
+
+      const metrics = await scrape();
+      expect(
+        sample(
+          metrics,
+          'http_requests_total{method="GET",route="/jobs/:id",status="404"}',
+        ),
+      ).toBe(1);
+      expect(
+        sample(
+          metrics,
+          'http_requests_total{method="POST",route="/jobs",status="201"}',
+        ),
+      ).toBe(2);
+      expect(
+        sample(
+          metrics,
+          'http_requests_total{method="POST",route="/jobs",status="400"}',
+        ),
+      ).toBe(1);
+      expect(
+        sample(
+          metrics,
+          'http_request_duration_seconds_count{method="GET",route="/jobs/:id",status="404"}',
+        ),
+      ).toBe(1);
+      // Only the jobs API is instrumented
+      expect(metrics).not.toContain('route="/metrics"');
+    });
+  });
+});
@@ -0,0 +1,333 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { SubscriptionsModule } from '../src/subscriptions/subscriptions.module';
+import { Job, JobStatus, JobType } from '../src/jobs/entities/job.entity';
+import { JobRun } from '../src/job-runs/entities/job-run.entity';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+import { Subscription } from '../src/subscriptions/entities/subscription.entity';
+import {
+  DeliveryStatus,
+  SubscriptionDelivery,
+} from '../src/subscriptions/entities/subscription-delivery.entity';
+import { JobEventType } from '../src/events/job-events.service';
+import { verifySignature } from '../src/subscriptions/webhook-signature';
+
+interface ReceivedEvent {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('SubscriptionsController (e2e)', () => {
+  let app: INestApplication;
+  let receiver: Server;
+  let receiverUrl: string;
+  const received: ReceivedEvent[] = [];
+  // Statuses the receiver answers with, by path, before it answers 200
+  const failures: Record<string, number[]> = {};
+
+  beforeAll(async () => {
+    receiver = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ path: req.url, headers: req.headers, body });
+        res.statusCode = failures[req.url]?.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, resolve));
+    receiverUrl = `http://localhost:${(receiver.address() as AddressInfo).port}`;
+
+    process.env.WEBHOOK_RETRY_DELAY_MS = '100';
+    process.env.WEBHOOK_POLL_INTERVAL_MS = '100';
+    process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+    process.env.WEBHOOK_TIMEOUT_MS = '1000';
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [
+            Job,
+            JobRun,
+            Artifact,
+            Subscription,
+            SubscriptionDelivery,
+            AuditEntry,
+          ],
+          synchronize: true,
+          dropSchema: true, // Clean database for each test run
+        }),
+        JobsModule,
+        SchedulerModule,
+        SubscriptionsModule,
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await new Promise((resolve) => receiver.close(resolve));
+    delete process.env.WEBHOOK_RETRY_DELAY_MS;
+    delete process.env.WEBHOOK_POLL_INTERVAL_MS;
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+    delete process.env.WEBHOOK_TIMEOUT_MS;
+  });
+
+  const subscribe = async (body: object) =>
+    (
+      await request(app.getHttpServer())
+        .post('/subscriptions')
+        .send(body)
+        .expect(201)
+    ).body;
+
+  const createJob = async (extra: object = {}) =>
+    (
+      await request(app.getHttpServer())
+        .post('/jobs')
+        .send({
+          name: 'Subscribed Job',
+          type: JobType.DATA_PROCESSING,
+          schedule: 'PT1H',
+          metadata: { records: 10 },
+          ...extra,
+        })
+        .expect(201)
+    ).body;
+
+  const receivedAt = (path: string) =>
+    received
+      .filter((event) => event.path === path)
+      .map((event) => ({ ...event, payload: JSON.parse(event.body) }));
+
+  const wait = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  describe('POST /subscriptions', () => {
+    it('should return the secret only on creation', async () => {
+      const subscription = await subscribe({ url: `${receiverUrl}/secret` });
+      expect(subscription.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(subscription.active).toBe(true);
+
+      const res = await request(app.getHttpServer())
+        .get(`/subscriptions/${subscription.id}`)
+        .expect(200);
+      expect(res.body.url).toBe(`${receiverUrl}/secret`);
+      expect(res.body).not.toHaveProperty('secret');
+    });
+
+    it('should reject invalid URLs and filters', async () => {
+      await request(app.getHttpServer())
+        .post('/subscriptions')
+        .send({ url: 'ftp://example.com/hook' })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post('/subscriptions')
+        .send({ url: `${receiverUrl}/invalid`, eventTypes: ['job.exploded'] })
+        .expect(400);
+      await request(app.getHttpServer())
+        .post('/subscriptions')
+        .send({ url: `${receiverUrl}/invalid`, secret: 'short' })
+        .expect(400);
+    });
+  });
+
+  describe('Deliveries', () => {
+    it('should deliver signed lifecycle events', async () => {
+      const secret = 'lifecycle-secret-0123456789';
+      const subscription = await subscribe({
+        url: `${receiverUrl}/lifecycle`,
+        eventTypes: [JobEventType.CREATED, JobEventType.PAUSED],
+        secret,
+      });
+
+      const job = await createJob();
+      await request(app.getHttpServer())
+        .patch(`/jobs/${job.id}`)
+        .send({ name: 'Renamed Job' })
+        .expect(200);
+      await request(app.getHttpServer())
+        .post(`/jobs/${job.id}/pause`)
+        .expect(200);
+      await wait(500);
+
+      // Updates are filtered out
+      const events = receivedAt('/lifecycle');
+      expect(events.map(({ payload }) => payload.type)).toEqual([
+        JobEventType.CREATED,
+        JobEventType.PAUSED,
+      ]);
+
+      const [created, paused] = events;
+      expect(created.headers['content-type']).toBe('application/json');
+      expect(created.headers['x-scheduler-event']).toBe(JobEventType.CREATED);
+      expect(
+        verifySignature(
+          secret,
+          created.body,
+          created.headers['x-scheduler-signature'] as string,
+        ),
+      ).toBe(true);
+      expect(
+        verifySignature(
+          'another-secret-0123456789',
+          created.body,
+          created.headers['x-scheduler-signature'] as string,
+        ),
+      ).toBe(false);
+      expect(created.payload.job).toMatchObject({
+        id: job.id,
+        name: 'Subscribed Job',
+        status: JobStatus.ACTIVE,
+      });
+      expect(created.payload.job).not.toHaveProperty('metadata');
+      expect(paused.payload.job).toMatchObject({
+        name: 'Renamed Job',
+        status: JobStatus.PAUSED,
+      });
+
+      const log = await request(app.getHttpServer())
+        .get(`/subscriptions/${subscription.id}/deliveries`)
+        .expect(200);
+      expect(log.body.total).toBe(2);
+      expect(log.body.deliveries[0]).toMatchObject({
+        eventType: JobEventType.PAUSED,
+        status: DeliveryStatus.SUCCEEDED,
+        attempts: 1,
+        responseStatus: 200,
+      });
+      expect(log.body.deliveries[0].id).toBe(
+        paused.headers['x-scheduler-delivery'],
+      );
+    });
+
+    it('should deliver run events of the subscribed jobs', async () => {
+      const job = await createJob({
+        schedule: new Date(Date.now() - 1000).toISOString(),
+      });
+      const other = await createJob({
+        schedule: new Date(Date.now() - 1000).toISOString(),
+      });
+      await subscribe({
+        url: `${receiverUrl}/runs`,
+        eventTypes: [JobEventType.RUN_SUCCEEDED],
+        jobIds: [job.id],
+      });
+      await wait(1000);
+
+      const events = receivedAt('/runs');
+      expect(events).toHaveLength(1);
+      expect(events[0].payload).toMatchObject({
+        type: JobEventType.RUN_SUCCEEDED,
+        job: { id: job.id, status: JobStatus.COMPLETED },
+        run: { status: 'succeeded', output: { recordsProcessed: 10 } },
+      });
+      expect(events[0].payload.job.id).not.toBe(other.id);
+    });
+
+    it('should retry failed deliveries', async () => {
+      failures['/flaky'] = [500, 503];
+      const subscription = await subscribe({
+        url: `${receiverUrl}/flaky`,
+        eventTypes: [JobEventType.CREATED],
+      });
+      await createJob();
+      await wait(1500);
+
+      // The same delivery, attempted until the receiver accepted it
+      const events = receivedAt('/flaky');
+      expect(events).toHaveLength(3);
+      expect(
+        new Set(events.map(({ headers }) => headers['x-scheduler-delivery']))
+          .size,
+      ).toBe(1);
+
+      const log = await request(app.getHttpServer())
+        .get(`/subscriptions/${subscription.id}/deliveries`)
+        .expect(200);
+      expect(log.body.deliveries[0]).toMatchObject({
+        status: DeliveryStatus.SUCCEEDED,
+        attempts: 3,
+        responseStatus: 200,
+        lastError: null,
+      });
+    });
+
+    it('should give up after the last attempt', async () => {
+      failures['/down'] = [500, 500, 500];
+      const subscription = await subscribe({
+        url: `${receiverUrl}/down`,
+        eventTypes: [JobEventType.CREATED],
+      });
+      await createJob();
+      await wait(1500);
+
+      const log = await request(app.getHttpServer())
+        .get(`/subscriptions/${subscription.id}/deliveries`)
+        .query({ status: DeliveryStatus.FAILED })
+        .expect(200);
+      expect(log.body.total).toBe(1);
+      expect(log.body.deliveries[0]).toMatchObject({
+        attempts: 3,
+        responseStatus: 500,
+        lastError: 'Responded with status 500',
+        nextAttemptAt: null,
+      });
+    });
+
+    it('should not deliver to inactive subscriptions', async () => {
+      const subscription = await subscribe({
+        url: `${receiverUrl}/inactive`,
+      });
+      await request(app.getHttpServer())
+        .patch(`/subscriptions/${subscription.id}`)
+        .send({ active: false })
+        .expect(200);
+      await createJob();
+      await wait(500);
+
+      expect(receivedAt('/inactive')).toHaveLength(0);
+    });
+  });
+
+  describe('DELETE /subscriptions/:id', () => {
+    it('should delete the subscription and its delivery log', async () => {
+      const subscription = await subscribe({ url: `${receiverUrl}/deleted` });
+      await request(app.getHttpServer())
+        .delete(`/subscriptions/${subscription.id}`)
+        .expect(204);
+      await request(app.getHttpServer())
+        .get(`/subscriptions/${subscription.id}/deliveries`)
+        .expect(404);
+    });
+  });
+});
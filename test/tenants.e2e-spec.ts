@@ -0,0 +1,330 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { AuthModule } from '../src/auth/auth.module';
+import { WorkflowsModule } from '../src/workflows/workflows.module';
+import { Job, JobType } from '../src/jobs/entities/job.entity';
+import { JobRun } from '../src/job-runs/entities/job-run.entity';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+import { ApiKey, ApiScope } from '../src/auth/entities/api-key.entity';
+import { Workflow } from '../src/workflows/entities/workflow.entity';
+import {
+  WorkflowNodeStatus,
+  WorkflowRun,
+  WorkflowRunStatus,
+} from '../src/workflows/entities/workflow-run.entity';
+
+describe('Tenants (e2e)', () => {
+  let app: INestApplication;
+  let acmeKey: string;
+  let globexKey: string;
+  let initechKey: string;
+  const adminKey = 'test-admin-key';
+
+  const jobData = {
+    name: 'Hourly Job',
+    type: JobType.DATA_PROCESSING,
+    schedule: 'PT1H',
+  };
+
+  beforeAll(async () => {
+    process.env.ADMIN_API_KEY = adminKey;
+    process.env.TENANT_QUOTAS = JSON.stringify({
+      acme: {
+        maxActiveJobs: 2,
+        minScheduleIntervalMs: 60000,
+        maxConcurrentRuns: 2,
+      },
+      initech: { maxActiveJobs: 1 },
+    });
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [
+            Job,
+            JobRun,
+            Artifact,
+            ApiKey,
+            AuditEntry,
+            Workflow,
+            WorkflowRun,
+          ],
+          synchronize: true,
+          dropSchema: true, // Clean database for each test run
+        }),
+        JobsModule,
+        SchedulerModule,
+        AuthModule,
+        WorkflowsModule,
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+
+    const createKey = async (
+      tenantId: string,
+      scopes = [ApiScope.JOBS_READ, ApiScope.JOBS_WRITE],
+    ) => {
+      const res = await request(app.getHttpServer())
+        .post('/api-keys')
+        .set('X-API-Key', adminKey)
+        .send({
+          name: `${tenantId} key`,
+          scopes,
+          tenantId,
+        })
+        .expect(201);
+      expect(res.body.tenantId).toBe(tenantId);
+      return res.body.key;
+    };
+    acmeKey = await createKey('acme');
+    globexKey = await createKey('globex');
+    initechKey = await createKey('initech', [
+      ApiScope.JOBS_READ,
+      ApiScope.JOBS_WRITE,
+      ApiScope.JOBS_EXECUTE,
+    ]);
+  });
+
+  afterAll(async () => {
+    await app.close();
+    delete process.env.ADMIN_API_KEY;
+    delete process.env.TENANT_QUOTAS;
+  });
+
+  describe('Isolation', () => {
+    it("should hide a tenant's jobs from other tenants", async () => {
+      const created = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', globexKey)
+        .send(jobData)
+        .expect(201);
+      expect(created.body.tenantId).toBe('globex');
+
+      await request(app.getHttpServer())
+        .get(`/jobs/${created.body.id}`)
+        .set('X-API-Key', acmeKey)
+        .expect(404);
+      await request(app.getHttpServer())
+        .patch(`/jobs/${created.body.id}`)
+        .set('X-API-Key', acmeKey)
+        .send({ name: 'Taken Over' })
+        .expect(404);
+      await request(app.getHttpServer())
+        .delete(`/jobs/${created.body.id}`)
+        .set('X-API-Key', acmeKey)
+        .expect(404);
+      await request(app.getHttpServer())
+        .get(`/jobs/${created.body.id}/runs`)
+        .set('X-API-Key', acmeKey)
+        .expect(404);
+
+      const acmeJobs = await request(app.getHttpServer())
+        .get('/jobs')
+        .set('X-API-Key', acmeKey)
+        .expect(200);
+      expect(acmeJobs.body.total).toBe(0);
+
+      const globexJobs = await request(app.getHttpServer())
+        .get('/jobs')
+        .set('X-API-Key', globexKey)
+        .expect(200);
+      expect(globexJobs.body.jobs.map(({ id }) => id)).toEqual([
+        created.body.id,
+      ]);
+    });
+
+    it("should report only the tenant's slots in the dispatch queue", async () => {
+      const res = await request(app.getHttpServer())
+        .get('/scheduler/queue')
+        .set('X-API-Key', acmeKey)
+        .expect(200);
+      expect(res.body.tenant).toEqual({
+        id: 'acme',
+        running: 0,
+        maxConcurrency: 2,
+      });
+    });
+
+    it('should keep jobs of unscoped callers in the default tenant', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', adminKey)
+        .send(jobData)
+        .expect(201);
+      expect(res.body.tenantId).toBe('default');
+    });
+
+    it('should not let jobs trigger workflows directly', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', acmeKey)
+        .send({
+          ...jobData,
+          type: 'workflow',
+          metadata: { workflowId: '00000000-0000-0000-0000-000000000000' },
+        })
+        .expect(400);
+      expect(res.body.message).toMatch(/^Unknown job type "workflow"/);
+    });
+  });
+
+  describe('Quotas', () => {
+    it('should reject schedules more frequent than the minimum interval', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', acmeKey)
+        .send({ ...jobData, schedule: '*/10 * * * * *' })
+        .expect(403);
+      expect(res.body).toMatchObject({
+        error: 'Quota Exceeded',
+        quota: 'minScheduleIntervalMs',
+        limit: 60000,
+      });
+
+      // Other tenants have no quotas
+      await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', globexKey)
+        .send({ ...jobData, schedule: 'PT10S' })
+        .expect(201);
+    });
+
+    it('should reject more overlapping runs than the tenant may run at once', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', acmeKey)
+        .send({ ...jobData, maxConcurrency: 3 })
+        .expect(403);
+      expect(res.body.quota).toBe('maxConcurrentRuns');
+    });
+
+    it('should cap the active jobs of a tenant', async () => {
+      const first = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', acmeKey)
+        .send(jobData)
+        .expect(201);
+      await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', acmeKey)
+        .send(jobData)
+        .expect(201);
+
+      const res = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', acmeKey)
+        .send(jobData)
+        .expect(403);
+      expect(res.body).toMatchObject({ quota: 'maxActiveJobs', limit: 2 });
+
+      // A paused job frees its slot, until it is resumed
+      await request(app.getHttpServer())
+        .post(`/jobs/${first.body.id}/pause`)
+        .set('X-API-Key', acmeKey)
+        .expect(200);
+      const third = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', acmeKey)
+        .send(jobData)
+        .expect(201);
+      await request(app.getHttpServer())
+        .post(`/jobs/${first.body.id}/resume`)
+        .set('X-API-Key', acmeKey)
+        .expect(403);
+
+      // Updating an active job doesn't count it twice
+      await request(app.getHttpServer())
+        .patch(`/jobs/${third.body.id}`)
+        .set('X-API-Key', acmeKey)
+        .send({ schedule: 'PT2H' })
+        .expect(200);
+      const update = await request(app.getHttpServer())
+        .patch(`/jobs/${third.body.id}`)
+        .set('X-API-Key', acmeKey)
+        .send({ schedule: 'PT30S' })
+        .expect(403);
+      expect(update.body.quota).toBe('minScheduleIntervalMs');
+    });
+
+    it('should fail workflow nodes whose jobs would exceed the active jobs cap', async () => {
+      const workflow = await request(app.getHttpServer())
+        .post('/workflows')
+        .set('X-API-Key', initechKey)
+        .send({
+          name: 'Capped Workflow',
+          nodes: [
+            {
+              key: 'notify',
+              type: JobType.EMAIL_NOTIFICATION,
+              metadata: { recipients: ['team@example.com'] },
+            },
+          ],
+          edges: [],
+        })
+        .expect(201);
+      const job = await request(app.getHttpServer())
+        .post('/jobs')
+        .set('X-API-Key', initechKey)
+        .send(jobData)
+        .expect(201);
+
+      const blocked = await request(app.getHttpServer())
+        .post(`/workflows/${workflow.body.id}/runs`)
+        .set('X-API-Key', initechKey)
+        .expect(201);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+
+      const failed = await request(app.getHttpServer())
+        .get(`/workflows/${workflow.body.id}/runs/${blocked.body.id}`)
+        .set('X-API-Key', initechKey)
+        .expect(200);
+      expect(failed.body.status).toBe(WorkflowRunStatus.FAILED);
+      expect(failed.body.nodes.notify.status).toBe(WorkflowNodeStatus.FAILED);
+      expect(failed.body.nodes.notify.error).toMatch(
+        /may have at most 1; pause or delete jobs first$/,
+      );
+
+      // Once a slot is free, the node runs
+      await request(app.getHttpServer())
+        .post(`/jobs/${job.body.id}/pause`)
+        .set('X-API-Key', initechKey)
+        .expect(200);
+      const started = await request(app.getHttpServer())
+        .post(`/workflows/${workflow.body.id}/runs`)
+        .set('X-API-Key', initechKey)
+        .expect(201);
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+
+      const succeeded = await request(app.getHttpServer())
+        .get(`/workflows/${workflow.body.id}/runs/${started.body.id}`)
+        .set('X-API-Key', initechKey)
+        .expect(200);
+      expect(succeeded.body.status).toBe(WorkflowRunStatus.SUCCEEDED);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { Job } from '../src/jobs/entities/job.entity';
+import { JobRun, JobRunStatus } from '../src/job-runs/entities/job-run.entity';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+import { JobHandler } from '../src/scheduler/handlers/job-handler.decorator';
+import {
+  JobOutput,
+  JobTypeHandler,
+} from '../src/scheduler/handlers/job-handler.interface';
+import { WorkerPoolService } from '../src/scheduler/workers/worker-pool.service';
+
+// Task modules, written out for the workers to load
+const TASKS = {
+  thread: `exports.default = () => ({
+    mainThread: require('worker_threads').isMainThread,
+  });`,
+  slow: `exports.default = () =>
+    new Promise((resolve) => setTimeout(() => resolve({ done: true }), 500));`,
+  crash: `exports.default = () => process.exit(1);`,
+  // Synchronous, counting its iterations where the test can see them
+  spin: `exports.default = ({ counter }) => {
+    const count = new Int32Array(counter);
+    for (;;) Atomics.add(count, 0, 1);
+  };`,
+};
+const taskDir = mkdtempSync(join(tmpdir(), 'worker-tasks-'));
+const counter = new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT);
+
+@JobHandler('worker_task', { retry: { maxAttempts: 1 } })
+class WorkerTaskHandler implements JobTypeHandler {
+  constructor(private readonly workerPool: WorkerPoolService) {}
+
+  handle(job: Job, signal: AbortSignal): Promise<JobOutput> {
+    return this.workerPool.run(
+      join(taskDir, `${job.metadata.task}.js`),
+      { counter },
+      signal,
+    );
+  }
+}
+
+describe('Worker pool (e2e)', () => {
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    process.env.WORKER_POOL_SIZE = '2';
+    Object.entries(TASKS).forEach(([name, source]) =>
+      writeFileSync(join(taskDir, `${name}.js`), source),
+    );
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [Job, JobRun, Artifact, AuditEntry],
+          synchronize: true,
+          dropSchema: true, // Clean database for each test run
+        }),
+        JobsModule,
+        SchedulerModule,
+      ],
+      providers: [WorkerTaskHandler],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    rmSync(taskDir, { recursive: true, force: true });
+    delete process.env.WORKER_POOL_SIZE;
+  });
+
+  // A one-shot job in the past runs immediately
+  const runTask = async (
+    task: keyof typeof TASKS,
+    options: { timeoutMs?: number } = {},
+  ): Promise<string> => {
+    const res = await request(app.getHttpServer())
+      .post('/jobs')
+      .send({
+        name: `Worker Task (${task})`,
+        type: 'worker_task',
+        schedule: new Date(Date.now() - 1000).toISOString(),
+        metadata: { task },
+        ...options,
+      })
+      .expect(201);
+    return res.body.id;
+  };
+
+  const lastRunOf = async (jobId: string) => {
+    const res = await request(app.getHttpServer())
+      .get(`/jobs/${jobId}/runs`)
+      .expect(200);
+    return res.body.runs[0];
+  };
+
+  // Whether a spinning task is still running, from its iteration count
+  const isSpinning = async (): Promise<boolean> => {
+    const count = new Int32Array(counter);
+    const before = Atomics.load(count, 0);
+    await sleep(200);
+    return Atomics.load(count, 0) !== before;
+  };
+
+  it('should run a CPU-bound handler off the main thread', async () => {
+    const id = await runTask('thread');
+    await sleep(1000);
+
+    const run = await lastRunOf(id);
+    expect(run.status).toBe(JobRunStatus.SUCCEEDED);
+    expect(run.output).toEqual({ mainThread: false });
+  });
+
+  it('should fail only the run whose worker crashed', async () => {
+    const [crashed, slow] = await Promise.all([
+      runTask('crash'),
+      runTask('slow'),
+    ]);
+    await sleep(1500);
+
+    const crashedRun = await lastRunOf(crashed);
+    expect(crashedRun.status).toBe(JobRunStatus.FAILED);
+    expect(crashedRun.errorMessage).toBe(
+      'Worker thread crashed: exited with code 1',
+    );
+    const slowRun = await lastRunOf(slow);
+    expect(slowRun.status).toBe(JobRunStatus.SUCCEEDED);
+    expect(slowRun.output).toEqual({ done: true });
+
+    // The crashed worker was replaced
+    const next = await runTask('thread');
+    await sleep(1000);
+    expect((await lastRunOf(next)).status).toBe(JobRunStatus.SUCCEEDED);
+  });
+
+  it('should terminate the worker of a run that timed out', async () => {
+    const id = await runTask('spin', { timeoutMs: 500 });
+    await sleep(1500);
+
+    const run = await lastRunOf(id);
+    expect(run.status).toBe(JobRunStatus.TIMED_OUT);
+    expect(run.errorMessage).toBe('Job timed out after 500ms');
+    expect(await isSpinning()).toBe(false);
+  });
+
+  it('should terminate the worker of a cancelled run', async () => {
+    const id = await runTask('spin');
+    await sleep(500);
+    expect(await isSpinning()).toBe(true);
+
+    await request(app.getHttpServer()).post(`/jobs/${id}/cancel`).expect(202);
+    await sleep(500);
+
+    const run = await lastRunOf(id);
+    expect(run.status).toBe(JobRunStatus.CANCELLED);
+    expect(await isSpinning()).toBe(false);
+  });
+});
@@ -0,0 +1,265 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import * as request from 'supertest';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ConfigModule } from '@nestjs/config';
+import { JobsModule } from '../src/jobs/jobs.module';
+import { SchedulerModule } from '../src/scheduler/scheduler.module';
+import { JobRunsModule } from '../src/job-runs/job-runs.module';
+import { WorkflowsModule } from '../src/workflows/workflows.module';
+import { Job, JobType } from '../src/jobs/entities/job.entity';
+import { JobRun } from '../src/job-runs/entities/job-run.entity';
+import { Workflow } from '../src/workflows/entities/workflow.entity';
+import {
+  WorkflowRun,
+  WorkflowNodeStatus,
+  WorkflowRunStatus,
+} from '../src/workflows/entities/workflow-run.entity';
+import { Artifact } from '../src/artifacts/entities/artifact.entity';
+import { AuditEntry } from '../src/audit/entities/audit-entry.entity';
+
+describe('WorkflowsController (e2e)', () => {
+  let app: INestApplication;
+
+  const pipeline = {
+    name: 'Nightly Pipeline',
+    nodes: [
+      {
+        key: 'process',
+        type: JobType.DATA_PROCESSING,
+        metadata: { records: 200, batchSize: 100 },
+      },
+      {
+        key: 'report',
+        type: JobType.REPORT_GENERATION,
+        metadata: { format: 'csv' },
+      },
+      {
+        key: 'email',
+        type: JobType.EMAIL_NOTIFICATION,
+        metadata: { recipients: ['team@example.com'] },
+      },
+      {
+        key: 'alert',
+        type: JobType.EMAIL_NOTIFICATION,
+        metadata: { recipients: ['oncall@example.com'] },
+      },
+    ],
+    edges: [
+      { from: 'process', to: 'report' },
+      { from: 'report', to: 'email' },
+      { from: 'process', to: 'alert', condition: 'on_failure' },
+    ],
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          envFilePath: '.env.test',
+        }),
+        TypeOrmModule.forRoot({
+          type: 'postgres',
+          host: process.env.DB_HOST || 'localhost',
+          port: parseInt(process.env.DB_PORT || '5432', 10),
+          username: process.env.DB_USERNAME || 'postgres',
+          password: process.env.DB_PASSWORD || 'Patel@123',
+          database: process.env.DB_DATABASE || 'scheduler_db_test',
+          entities: [Job, JobRun, Workflow, WorkflowRun, Artifact, AuditEntry],
+          synchronize: true,
+          dropSchema: true, // Clean database for each test run
+        }),
+        JobsModule,
+        SchedulerModule,
+        JobRunsModule,
+        WorkflowsModule,
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+      }),
+    );
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  describe('POST /workflows', () => {
+    it('should reject a cycle', () => {
+      return request(app.getHttpServer())
+        .post('/workflows')
+        .send({
+          name: 'Cyclic',
+          nodes: pipeline.nodes.slice(0, 2),
+          edges: [
+            { from: 'process', to: 'report' },
+            { from: 'report', to: 'process' },
+          ],
+        })
+        .expect(400)
+        .expect((res) => {
+          expect(res.body.message).toEqual([
+            'Workflow contains a cycle: process -> report -> process',
+          ]);
+        });
+    });
+
+    it('should reject an edge to an unknown node', () => {
+      return request(app.getHttpServer())
+        .post('/workflows')
+        .send({
+          name: 'Dangling',
+          nodes: pipeline.nodes.slice(0, 1),
+          edges: [{ from: 'process', to: 'missing' }],
+        })
+        .expect(400);
+    });
+
+    it('should reject invalid node metadata', () => {
+      return request(app.getHttpServer())
+        .post('/workflows')
+        .send({
+          name: 'Invalid',
+          nodes: [{ key: 'email', type: JobType.EMAIL_NOTIFICATION }],
+        })
+        .expect(400);
+    });
+  });
+
+  describe('Workflow runs', () => {
+    let workflowId: string;
+    let nodeJobIds: Record<string, string>;
+
+    beforeAll(async () => {
+      const res = await request(app.getHttpServer())
+        .post('/workflows')
+        .send(pipeline)
+        .expect(201);
+      workflowId = res.body.id;
+      nodeJobIds = Object.fromEntries(
+        res.body.nodes.map(({ key, jobId }) => [key, jobId]),
+      );
+    });
+
+    it('should create a job per node', () => {
+      return request(app.getHttpServer())
+        .get(`/jobs/${nodeJobIds.report}`)
+        .expect(200)
+        .expect((res) => {
+          expect(res.body.schedule).toBeNull();
+          expect(res.body.workflowId).toBe(workflowId);
+        });
+    });
+
+    it('should run nodes once their dependencies succeed', async () => {
+      const started = await request(app.getHttpServer())
+        .post(`/workflows/${workflowId}/runs`)
+        .expect(201);
+      expect(started.body.nodes.process.status).toBe(
+        WorkflowNodeStatus.RUNNING,
+      );
+      expect(started.body.nodes.report.status).toBe(WorkflowNodeStatus.PENDING);
+
+      // Starting again while the run is in progress is rejected
+      await request(app.getHttpServer())
+        .post(`/workflows/${workflowId}/runs`)
+        .expect(409);
+
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+
+      const run = await request(app.getHttpServer())
+        .get(`/workflows/${workflowId}/runs/${started.body.id}`)
+        .expect(200);
+      expect(run.body.status).toBe(WorkflowRunStatus.SUCCEEDED);
+      expect(run.body.nodes.process.status).toBe(WorkflowNodeStatus.SUCCEEDED);
+      expect(run.body.nodes.report.status).toBe(WorkflowNodeStatus.SUCCEEDED);
+      expect(run.body.nodes.email.status).toBe(WorkflowNodeStatus.SUCCEEDED);
+      expect(run.body.nodes.alert.status).toBe(WorkflowNodeStatus.SKIPPED);
+      expect(run.body.nodes.process.output).toEqual({
+        recordsProcessed: 200,
+        total: 200,
+      });
+
+      // Upstream outputs are passed on to the downstream job
+      const report = await request(app.getHttpServer())
+        .get(`/jobs/${nodeJobIds.report}`)
+        .expect(200);
+      expect(report.body.metadata.upstream).toEqual({
+        process: { recordsProcessed: 200, total: 200 },
+      });
+
+      const runs = await request(app.getHttpServer())
+        .get(`/workflows/${workflowId}/runs`)
+        .expect(200);
+      expect(runs.body.total).toBe(1);
+    });
+
+    it('should not delete a node job on its own', () => {
+      return request(app.getHttpServer())
+        .delete(`/jobs/${nodeJobIds.process}`)
+        .expect(409);
+    });
+
+    it('should delete the workflow with its jobs', async () => {
+      await request(app.getHttpServer())
+        .delete(`/workflows/${workflowId}`)
+        .expect(204);
+      await request(app.getHttpServer())
+        .get(`/jobs/${nodeJobIds.process}`)
+        .expect(404);
+      await request(app.getHttpServer())
+        .get(`/workflows/${workflowId}`)
+        .expect(404);
+    });
+
+    it('should record the node jobs in the audit log', async () => {
+      const actionsOf = async (jobId: string) => {
+        const res = await request(app.getHttpServer())
+          .get(`/jobs/${jobId}/audit`)
+          .expect(200);
+        return res.body.entries.map(({ action }) => action);
+      };
+
+      // Only the root node was triggered by the manual run
+      expect(await actionsOf(nodeJobIds.process)).toEqual([
+        'deleted',
+        'triggered',
+        'created',
+      ]);
+      expect(await actionsOf(nodeJobIds.report)).toEqual([
+        'deleted',
+        'created',
+      ]);
+    });
+  });
+
+  describe('Scheduled workflows', () => {
+    it('should start a run when the schedule fires', async () => {
+      const res = await request(app.getHttpServer())
+        .post('/workflows')
+        .send({
+          name: 'One-shot Pipeline',
+          schedule: new Date(Date.now() - 1000).toISOString(),
+          nodes: [pipeline.nodes[1]],
+        })
+        .expect(201);
+      expect(res.body.triggerJobId).toBeTruthy();
+
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+
+      const runs = await request(app.getHttpServer())
+        .get(`/workflows/${res.body.id}/runs`)
+        .expect(200);
+      expect(runs.body.total).toBe(1);
+      expect(runs.body.runs[0].status).toBe(WorkflowRunStatus.SUCCEEDED);
+    });
+  });
+});